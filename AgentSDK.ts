@@ -1,6 +1,7 @@
 import { Hub, HubEvents } from './core/Hub';
 import type { Settings } from './core/types';
 import type { Agent } from './core/types';
+import type { PayloadSchema } from './core/schema';
 
 /**
  * Chat message structure for regular conversation messages
@@ -128,6 +129,9 @@ export class AgentSDK {
 
   /**
    * Send an arbitrary JSON-serialisable payload as a *Data* message.
+   * If the payload has a `messageType` with a registered schema, it is validated first
+   * and an invalid payload is rejected with XiansValidationError; a valid one is sent as
+   * the schema returns it.
    */
   async sendData(workflowType: string, data: unknown): Promise<void> {
     if (!this.initialized) {
@@ -136,6 +140,25 @@ export class AgentSDK {
     await this.hub.sendData(workflowType, data);
   }
 
+  /**
+   * Messages waiting in the offline queue (requires `offlineQueue` in the options).
+   * Each entry carries its status – queued, sending or failed – so a UI can show
+   * pending bubbles. Listen to the `queue_change` event for updates.
+   */
+  getQueuedMessages() {
+    return this.hub.getQueuedMessages();
+  }
+
+  /** Put a failed queued message back in line; it is sent on the next reconnect. */
+  retryQueuedMessage(requestId: string): Promise<boolean> {
+    return this.hub.retryQueuedMessage(requestId);
+  }
+
+  /** Drop a queued message without sending it. */
+  removeQueuedMessage(requestId: string): Promise<boolean> {
+    return this.hub.removeQueuedMessage(requestId);
+  }
+
   /**
    * Subscribe to hub-level events in a type-safe manner.  
    * Returns an unsubscribe function for convenience.
@@ -204,6 +227,30 @@ export class AgentSDK {
     this.hub.unsubscribeFromData(subscriberId);
   }
 
+  /**
+   * Validate Data payloads of `messageType`, incoming and outgoing.
+   * Invalid incoming payloads are not routed to subscribers; they are emitted as `invalid_data`.
+   * Registering again replaces the schema. Returns a function that removes it.
+   * Only AgentSDK checks schemas; SocketSDK and SseSDK pass Data payloads through unchecked.
+   */
+  registerDataSchema<T>(messageType: string, schema: PayloadSchema<T>): () => void {
+    return this.hub.registerDataSchema(messageType, schema);
+  }
+
+  /**
+   * Register `schema` for `messageType` and subscribe to its payloads, typed by the schema.
+   * The returned function unsubscribes; the schema stays registered.
+   */
+  subscribeToTypedData<T>(
+    subscriberId: string,
+    messageType: string,
+    schema: PayloadSchema<T>,
+    callback: (payload: T & { messageType: string }) => void
+  ): () => void {
+    this.registerDataSchema(messageType, schema);
+    return this.hub.subscribeToData(subscriberId, [messageType], callback);
+  }
+
   /**
    * Subscribe specifically to chat messages.
    * This provides a dedicated channel for handling regular conversation messages.
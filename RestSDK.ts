@@ -7,8 +7,29 @@ import {
   BaseMessageRequest, 
   BaseSDKOptions, 
   AuthType,
+  OperationOptions,
   SDK_DEFAULTS
 } from './types';
+import { TokenProvider, resolveTokenProvider } from './core/TokenProvider';
+import {
+  RetryPolicy,
+  DEFAULT_RETRY_STATUS_CODES,
+  parseRetryAfter
+} from './core/RetryPolicy';
+import {
+  XiansError,
+  XiansAuthError,
+  XiansDisposedError,
+  XiansProtocolError,
+  XiansTimeoutError,
+  errorFromStatus,
+  toXiansError
+} from './core/errors';
+import { readServerSentEvents } from './core/streams';
+import { abortError, abortable, combineSignals, delay, throwIfAborted } from './core/abort';
+import { HistoryIteratorOptions, iterateHistoryPages } from './core/history';
+import { Span, SpanKind, failSpan, messageAttributes, traceHeaders, traced } from './core/tracing';
+import { Middleware, MiddlewarePipeline, messageDroppedError, resolveMiddleware } from './core/middleware';
 
 /**
  * Rest request structure for HTTP communication
@@ -26,8 +47,28 @@ export interface RestResponse<T = any> {
   data?: T;
   error?: string;
   statusCode?: number;
+  
+  /**
+   * Typed error for failed requests (XiansServerError, XiansAuthError, XiansTimeoutError, ...)
+   */
+  exception?: XiansError;
+}
+
+/**
+ * Options for RestSDK.converseStream
+ */
+export interface ConverseStreamOptions extends OperationOptions {
+  /**
+   * Quiet period after a reply that ends the stream, in milliseconds (default: 2000)
+   */
+  idleTimeout?: number;
 }
 
+/**
+ * SSE event names that carry agent messages
+ */
+const STREAM_MESSAGE_EVENTS = new Set(['Chat', 'Data', 'Handoff']);
+
 /**
  * History request parameters
  */
@@ -67,6 +108,18 @@ export interface RestSDKOptions extends BaseSDKOptions {
    * Maximum timeout for converse operations in seconds (default: 300)
    */
   maxConverseTimeout?: number;
+  
+  /**
+   * HTTP statuses that are retried when a retryPolicy is set (default: [429, 502, 503, 504]).
+   * Sends and converses are POSTs that may already have reached the agent, so they are retried on 429 only.
+   * A Retry-After header on the response takes precedence over the policy's delay
+   */
+  retryOnStatus?: number[];
+
+  /**
+   * Longest wait taken from a Retry-After header, in milliseconds (default: 30000)
+   */
+  maxRetryAfter?: number;
 }
 
 /**
@@ -74,6 +127,9 @@ export interface RestSDKOptions extends BaseSDKOptions {
  */
 export class RestSDK {
   private options: RestSDKOptions;
+  private retryPolicy: RetryPolicy | null;
+  private tokenProvider: TokenProvider | null;
+  private middleware: MiddlewarePipeline;
   private isDisposed: boolean = false;
 
   constructor(options: RestSDKOptions) {
@@ -81,7 +137,7 @@ export class RestSDK {
     if (!options.tenantId) {
       throw new Error('tenantId is required');
     }
-    if (!options.apiKey && !options.getJwtToken && !options.jwtToken) {
+    if (!options.apiKey && !options.getJwtToken && !options.jwtToken && !options.tokenProvider) {
       throw new Error('Either apiKey, jwtToken, or getJwtToken callback is required');
     }
     if (!options.serverUrl) {
@@ -93,8 +149,21 @@ export class RestSDK {
       requestTimeout: SDK_DEFAULTS.requestTimeout,
       defaultConverseTimeout: 60,
       maxConverseTimeout: 300,
+      retryOnStatus: DEFAULT_RETRY_STATUS_CODES,
+      maxRetryAfter: 30000,
       ...options
     };
+    // Retries are opt-in: without a policy every response is returned as it is
+    this.retryPolicy = this.options.retryPolicy || null;
+    this.tokenProvider = resolveTokenProvider(this.options);
+    this.middleware = resolveMiddleware(this.options.middleware);
+  }
+
+  /**
+   * Adds middleware for outgoing requests. Returns a function that removes it
+   */
+  public use(middleware: Middleware): () => void {
+    return this.middleware.use(middleware);
   }
 
   /**
@@ -102,22 +171,79 @@ export class RestSDK {
    * @returns JWT token
    */
   private async getJwtToken(): Promise<string> {
-    if (this.options.getJwtToken) {
+    if (this.tokenProvider) {
       try {
-        return await this.options.getJwtToken();
+        return await this.tokenProvider.getToken();
       } catch (error) {
         if (this.options.logger) {
           this.options.logger('error', 'Failed to get JWT token', error);
         }
-        throw new Error(`Failed to get JWT token: ${error}`);
+        throw error;
       }
     } else if (this.options.jwtToken) {
       return this.options.jwtToken;
     } else {
-      throw new Error('No JWT token available');
+      throw new XiansAuthError('No JWT token available');
     }
   }
 
+  /**
+   * Sends the request, retrying statuses listed in retryOnStatus while the retry policy allows.
+   * Each attempt gets its own timeout (null for none); the caller's signal cancels all of them
+   */
+  private async fetchWithRetry(
+    url: string,
+    requestOptions: RequestInit,
+    signal?: AbortSignal,
+    timeout: number | null = this.options.requestTimeout!
+  ): Promise<Response> {
+    for (let attempt = 1; ; attempt++) {
+      const attemptSignal = timeout === null
+        ? { signal, dispose: () => undefined }
+        : combineSignals(signal, AbortSignal.timeout(timeout));
+      const init = { ...requestOptions, signal: attemptSignal.signal };
+      let response: Response;
+      try {
+        response = this.options.traffic
+          ? await this.options.traffic.fetch(url, init, () => fetch(url, init))
+          : await fetch(url, init);
+      } catch (error) {
+        attemptSignal.dispose();
+        throw error;
+      }
+
+      if (response.ok || !this.retryPolicy || !this.isRetryable(requestOptions.method, response.status) || this.isDisposed) {
+        return response;
+      }
+
+      const policyDelay = this.retryPolicy.nextDelay(attempt, response.status);
+      if (policyDelay === null) {
+        return response;
+      }
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+      const retryDelay = retryAfter === null ? policyDelay : Math.min(retryAfter, this.options.maxRetryAfter!);
+
+      if (this.options.logger) {
+        this.options.logger('warn', `Request returned ${response.status}, retrying in ${retryDelay}ms`, { attempt });
+      }
+
+      // Release the connection before waiting
+      await response.body?.cancel().catch(() => undefined);
+      attemptSignal.dispose();
+      await delay(retryDelay, signal);
+    }
+  }
+
+  /**
+   * A 502-504 on a POST may come after the agent got the message, so POSTs are only retried on 429
+   */
+  private isRetryable(method: string | undefined, status: number): boolean {
+    if (!this.options.retryOnStatus!.includes(status)) {
+      return false;
+    }
+    return method !== 'POST' || status === 429;
+  }
+
   /**
    * Builds query parameters for requests
    */
@@ -137,75 +263,28 @@ export class RestSDK {
    * Makes an HTTP request with authentication and error handling
    * Supports multiple authentication methods: apikey query param, Authorization header, or access_token query param fallback
    * Can use both API key and JWT simultaneously when both are provided
+   * Failed responses are recorded on `span`, which is sent along as the traceparent header
    */
   private async makeRequest<T>(
     endpoint: string, 
     method: 'GET' | 'POST' = 'GET',
     queryParams?: Record<string, string | number | undefined>,
-    body?: any
+    body?: any,
+    signal?: AbortSignal,
+    span?: Span
   ): Promise<RestResponse<T>> {
     if (this.isDisposed) {
-      throw new Error('SDK has been disposed');
+      throw new XiansDisposedError();
     }
+    throwIfAborted(signal);
 
-    try {
-      const url = new URL(`${this.options.serverUrl}${endpoint}`);
-      
-      // Always add tenantId to query params as required by the server
-      const finalQueryParams: Record<string, string | number | undefined> = {
-        ...queryParams,
-        tenantId: this.options.tenantId
-      };
-
-      // Add API key authentication if available
-      if (this.options.apiKey) {
-        // For API key authentication: add apikey to query params
-        finalQueryParams.apikey = this.options.apiKey;
-      }
-      
-      if (finalQueryParams) {
-        const params = this.buildQueryParams(finalQueryParams);
-        if (params) {
-          url.search = params;
-        }
-      }
-
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-      };
-
-      // Add JWT authentication if available
-      if (this.options.jwtToken || this.options.getJwtToken) {
-        const jwtToken = await this.getJwtToken();
-        headers['Authorization'] = `Bearer ${jwtToken}`;
-        
-        if (this.options.logger) {
-          this.options.logger('debug', 'Using Authorization header for JWT authentication');
-        }
-      }
-
-      const requestOptions: RequestInit = {
-        method,
-        headers,
-        signal: AbortSignal.timeout(this.options.requestTimeout!),
-      };
-
-      if (body && method === 'POST') {
-        requestOptions.body = JSON.stringify(body);
-      }
-
-      if (this.options.logger) {
-        this.options.logger('debug', `Making ${method} request to ${url.toString()}`, {
-          hasBody: !!body,
-          hasApiKey: !!this.options.apiKey,
-          hasJwtToken: !!(this.options.jwtToken || this.options.getJwtToken),
-          usingBothMethods: !!this.options.apiKey && !!(this.options.jwtToken || this.options.getJwtToken),
-          primaryAuthMethod: this.getAuthType(),
-          tenantId: this.options.tenantId
-        });
-      }
+    // The attempts listen to this request's own signal, so only one listener is added to the
+    // caller's signal, and it is removed once the response has been read
+    const request = combineSignals(signal, new AbortController().signal);
 
-      const response = await fetch(url.toString(), requestOptions);
+    try {
+      const response = await this.sendRequest(endpoint, method, queryParams, body, { headers: traceHeaders(span), signal: request.signal });
+      span?.setAttribute('http.response.status_code', response.status);
       
       let data: T | undefined;
       const contentType = response.headers.get('content-type');
@@ -232,11 +311,14 @@ export class RestSDK {
           });
         }
 
+        const exception = errorFromStatus(response.status, error, { data });
+        failSpan(span, exception);
         return {
           success: false,
           error,
           statusCode: response.status,
-          data
+          data,
+          exception
         };
       }
 
@@ -251,35 +333,124 @@ export class RestSDK {
       };
 
     } catch (error) {
+      // Cancellation is thrown, not reported as a failed response
+      if (signal?.aborted) {
+        if (this.options.logger) {
+          this.options.logger('debug', 'Request aborted', { endpoint });
+        }
+        throw abortError(signal);
+      }
+
       if (this.options.logger) {
         this.options.logger('error', 'Request failed with exception', error);
       }
 
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const exception = toXiansError(error);
+      failSpan(span, exception);
       return {
         success: false,
-        error: errorMessage
+        error: exception.message,
+        exception
       };
+    } finally {
+      request.dispose();
     }
   }
 
   /**
-   * Sends a message to a workflow without waiting for response
+   * Builds the authenticated request and sends it, retrying per retryOnStatus and
+   * replaying once with a refreshed token after a 401. The response body is left unread
    */
-  public async send(request: RestMessageRequest): Promise<RestResponse<any>> {
-    if (!request.workflow) {
-      throw new Error('workflow is required');
+  private async sendRequest(
+    endpoint: string,
+    method: 'GET' | 'POST',
+    queryParams?: Record<string, string | number | undefined>,
+    body?: any,
+    options: { headers?: Record<string, string>; signal?: AbortSignal; timeout?: number | null } = {}
+  ): Promise<Response> {
+    const { signal, timeout } = options;
+    const url = new URL(`${this.options.serverUrl}${endpoint}`);
+    
+    // Always add tenantId to query params as required by the server
+    const finalQueryParams: Record<string, string | number | undefined> = {
+      ...queryParams,
+      tenantId: this.options.tenantId
+    };
+
+    // Add API key authentication if available
+    if (this.options.apiKey) {
+      // For API key authentication: add apikey to query params
+      finalQueryParams.apikey = this.options.apiKey;
     }
-    if (!request.type) {
-      throw new Error('type is required');
+    
+    if (finalQueryParams) {
+      const params = this.buildQueryParams(finalQueryParams);
+      if (params) {
+        url.search = params;
+      }
     }
-    if (!request.participantId) {
-      throw new Error('participantId is required');
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...options.headers
+    };
+
+    // Add JWT authentication if available
+    if (this.tokenProvider || this.options.jwtToken) {
+      const jwtToken = await abortable(this.getJwtToken(), signal);
+      headers['Authorization'] = `Bearer ${jwtToken}`;
+      
+      if (this.options.logger) {
+        this.options.logger('debug', 'Using Authorization header for JWT authentication');
+      }
     }
 
-    // Add JWT token to authorization field if available
+    const requestOptions: RequestInit = {
+      method,
+      headers,
+    };
+
+    if (body && method === 'POST') {
+      requestOptions.body = JSON.stringify(body);
+    }
+
+    if (this.options.logger) {
+      this.options.logger('debug', `Making ${method} request to ${url.toString()}`, {
+        hasBody: !!body,
+        hasApiKey: !!this.options.apiKey,
+        hasJwtToken: !!(this.tokenProvider || this.options.jwtToken),
+        usingBothMethods: !!this.options.apiKey && !!(this.tokenProvider || this.options.jwtToken),
+        primaryAuthMethod: this.getAuthType(),
+        tenantId: this.options.tenantId
+      });
+    }
+
+    let response = await this.fetchWithRetry(url.toString(), requestOptions, signal, timeout);
+
+    // A rejected token gets one forced refresh and the request is replayed
+    if (response.status === 401 && this.tokenProvider) {
+      if (this.options.logger) {
+        this.options.logger('info', 'Request returned 401, refreshing JWT token and retrying');
+      }
+      await response.body?.cancel().catch(() => undefined);
+
+      const jwtToken = await abortable(this.tokenProvider.refresh(), signal);
+      headers['Authorization'] = `Bearer ${jwtToken}`;
+      if (requestOptions.body && body?.authorization) {
+        requestOptions.body = JSON.stringify({ ...body, authorization: jwtToken });
+      }
+      response = await this.fetchWithRetry(url.toString(), requestOptions, signal, timeout);
+    }
+
+    return response;
+  }
+
+  /**
+   * Copies the request and adds the JWT token to its authorization field if available
+   */
+  private async withAuthorizationField(request: RestMessageRequest): Promise<RestMessageRequest> {
     const messageRequest = { ...request };
-    if (this.options.jwtToken || this.options.getJwtToken) {
+    if (this.tokenProvider || this.options.jwtToken) {
       try {
         const jwtToken = await this.getJwtToken();
         messageRequest.authorization = jwtToken;
@@ -294,6 +465,29 @@ export class RestSDK {
         // Continue without JWT in message (header auth still applies)
       }
     }
+    return messageRequest;
+  }
+
+  /**
+   * Sends a message to a workflow without waiting for response
+   */
+  public async send(request: RestMessageRequest, options: OperationOptions = {}): Promise<RestResponse<any>> {
+    if (!request.workflow) {
+      throw new Error('workflow is required');
+    }
+    if (!request.type) {
+      throw new Error('type is required');
+    }
+    if (!request.participantId) {
+      throw new Error('participantId is required');
+    }
+
+    const outgoing = await this.middleware.runOutbound(request, { transport: 'rest', operation: 'send' });
+    if (!outgoing) {
+      return this.droppedResponse();
+    }
+
+    const messageRequest = await this.withAuthorizationField(outgoing);
 
     const queryParams: Record<string, string | undefined> = {
       workflow: messageRequest.workflow,
@@ -314,18 +508,25 @@ export class RestSDK {
       });
     }
 
-    return await this.makeRequest<any>(
-      '/api/user/rest/send',
-      'POST',
-      queryParams,
-      messageRequest
+    return await traced(
+      this.options.tracer,
+      'xians.rest.send',
+      { kind: SpanKind.CLIENT, attributes: messageAttributes(messageRequest) },
+      span => this.makeRequest<any>(
+        '/api/user/rest/send',
+        'POST',
+        queryParams,
+        messageRequest,
+        options.signal,
+        span
+      )
     );
   }
 
   /**
    * Sends a message to a workflow and waits synchronously for response
    */
-  public async converse(request: RestMessageRequest): Promise<RestResponse<Message[]>> {
+  public async converse(request: RestMessageRequest, options: OperationOptions = {}): Promise<RestResponse<Message[]>> {
     if (!request.workflow) {
       throw new Error('workflow is required');
     }
@@ -336,24 +537,13 @@ export class RestSDK {
       throw new Error('participantId is required');
     }
 
-    // Add JWT token to authorization field if available
-    const messageRequest = { ...request };
-    if (this.options.jwtToken || this.options.getJwtToken) {
-      try {
-        const jwtToken = await this.getJwtToken();
-        messageRequest.authorization = jwtToken;
-        
-        if (this.options.logger) {
-          this.options.logger('debug', 'Added JWT token to message authorization field');
-        }
-      } catch (error) {
-        if (this.options.logger) {
-          this.options.logger('warn', 'Failed to get JWT token for message authorization field', error);
-        }
-        // Continue without JWT in message (header auth still applies)
-      }
+    const outgoing = await this.middleware.runOutbound(request, { transport: 'rest', operation: 'converse' });
+    if (!outgoing) {
+      return this.droppedResponse();
     }
 
+    const messageRequest = await this.withAuthorizationField(outgoing);
+
     const timeoutSeconds = messageRequest.timeoutSeconds;
     
     const queryParams: Record<string, string | number | undefined> = {
@@ -378,11 +568,22 @@ export class RestSDK {
     }
 
     try {
-      const result = await this.makeRequest<Message[]>(
-        '/api/user/rest/converse',
-        'POST',
-        queryParams,
-        messageRequest
+      const result = await traced(
+        this.options.tracer,
+        'xians.rest.converse',
+        { kind: SpanKind.CLIENT, attributes: messageAttributes(messageRequest) },
+        async span => {
+          const response = await this.makeRequest<Message[]>(
+            '/api/user/rest/converse',
+            'POST',
+            queryParams,
+            messageRequest,
+            options.signal,
+            span
+          );
+          span?.setAttribute('xians.message_count', response.data?.length || 0);
+          return response;
+        }
       );
 
       if (this.options.logger) {
@@ -394,17 +595,232 @@ export class RestSDK {
 
       return result;
     } catch (error) {
-      if (this.options.logger) {
+      if (this.options.logger && !options.signal?.aborted) {
         this.options.logger('error', 'Conversation failed', error);
       }
       throw error;
     }
   }
 
+  /**
+   * Sends a message to a workflow and yields the agent's replies as they arrive.
+   * Opens the thread's SSE stream (/api/user/sse/events), sends the message through rest/send
+   * and yields the streamed messages that carry its requestId. The stream ends once no reply has
+   * arrived for `idleTimeout` after the last one, or when `timeoutSeconds` passes.
+   * Leaving the loop early (break, return or throw) closes the stream.
+   */
+  public async *converseStream(
+    request: RestMessageRequest,
+    options: ConverseStreamOptions = {}
+  ): AsyncGenerator<Message, void, undefined> {
+    if (!request.workflow) {
+      throw new Error('workflow is required');
+    }
+    if (!request.type) {
+      throw new Error('type is required');
+    }
+    if (!request.participantId) {
+      throw new Error('participantId is required');
+    }
+    if (this.isDisposed) {
+      throw new XiansDisposedError();
+    }
+
+    const outgoing = await this.middleware.runOutbound(request, { transport: 'rest', operation: 'converse' });
+    if (!outgoing) {
+      throw messageDroppedError();
+    }
+
+    // Replies are picked out of the stream by requestId, so every streamed converse needs one
+    const messageRequest = await this.withAuthorizationField({
+      ...outgoing,
+      requestId: outgoing.requestId || crypto.randomUUID()
+    });
+    const requestId = messageRequest.requestId!;
+    const timeoutSeconds = Math.min(
+      messageRequest.timeoutSeconds ?? this.options.defaultConverseTimeout!,
+      this.options.maxConverseTimeout!
+    );
+    const idleTimeout = options.idleTimeout ?? 2000;
+
+    throwIfAborted(options.signal);
+
+    const controller = new AbortController();
+    const { signal, dispose: disposeSignal } = combineSignals(options.signal, controller.signal);
+    // Set by the timers that close the stream, so the resulting abort can be told apart from the caller's
+    let endedBy: 'headers' | 'deadline' | 'idle' | null = null;
+    const endStream = (reason: 'headers' | 'deadline' | 'idle') => {
+      endedBy = reason;
+      controller.abort();
+    };
+    const headerTimer = setTimeout(() => endStream('headers'), this.options.requestTimeout!);
+    const deadlineTimer = setTimeout(() => endStream('deadline'), timeoutSeconds * 1000);
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+    if (this.options.logger) {
+      this.options.logger('info', 'Starting streamed conversation with workflow', {
+        workflow: messageRequest.workflow,
+        type: messageRequest.type,
+        participantId: messageRequest.participantId,
+        requestId
+      });
+    }
+
+    const span = this.options.tracer?.startSpan('xians.rest.converse_stream', {
+      kind: SpanKind.CLIENT,
+      attributes: messageAttributes(messageRequest)
+    });
+    let messageCount = 0;
+    let sendFailure: Error | undefined;
+
+    try {
+      let response: Response;
+      try {
+        response = await this.sendRequest(
+          '/api/user/sse/events',
+          'GET',
+          {
+            workflow: messageRequest.workflow,
+            participantId: messageRequest.participantId,
+            scope: messageRequest.scope
+          },
+          undefined,
+          { headers: { 'Accept': 'text/event-stream', ...traceHeaders(span) }, signal, timeout: null }
+        );
+      } finally {
+        clearTimeout(headerTimer);
+      }
+      span?.setAttribute('http.response.status_code', response.status);
+
+      if (!response.ok) {
+        const text = await response.text();
+        let data: any = text || undefined;
+        try { data = JSON.parse(text); } catch { /* plain text body */ }
+        const error = data?.message || `HTTP ${response.status}: ${response.statusText}`;
+        throw errorFromStatus(response.status, error, { data });
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      if (!response.body || !contentType.includes('text/event-stream')) {
+        throw new XiansProtocolError(`Expected an event stream from /api/user/sse/events, got ${contentType || 'no content type'}`);
+      }
+
+      // Sent only now that the stream is open, so no reply can be missed
+      const sent = await this.makeRequest<any>(
+        '/api/user/rest/send',
+        'POST',
+        {
+          workflow: messageRequest.workflow,
+          type: messageRequest.type,
+          participantId: messageRequest.participantId,
+          requestId,
+          text: messageRequest.text
+        },
+        messageRequest,
+        signal,
+        span
+      );
+      if (!sent.success) {
+        // makeRequest has marked the span failed already
+        sendFailure = sent.exception || new XiansError(sent.error || 'Failed to send message');
+        throw sendFailure;
+      }
+
+      const events = readServerSentEvents(response.body);
+      let reading = false;
+      try {
+        while (true) {
+          // Each read also ends on abort, for bodies that are not tied to the request's signal
+          reading = true;
+          const { done, value: event } = await abortable(events.next(), signal);
+          reading = false;
+          if (done) break;
+          if (!STREAM_MESSAGE_EVENTS.has(event.type)) continue;
+          const message = this.parseStreamedMessage(event.data);
+          if (message.requestId !== requestId) continue;
+
+          clearTimeout(idleTimer);
+          messageCount++;
+          yield message;
+          idleTimer = setTimeout(() => endStream('idle'), idleTimeout);
+        }
+      } finally {
+        // A read that is still pending holds up return() until the aborted body errors, so it is not waited for
+        const closing = events.return(undefined).catch(() => undefined);
+        if (!reading) {
+          await closing;
+        }
+      }
+    } catch (error) {
+      // Closed by the idle timer, or by the deadline after replies came: the conversation is complete
+      const complete = endedBy === 'idle' || (endedBy === 'deadline' && messageCount > 0);
+      if (!complete) {
+        let failure: Error;
+        if (endedBy === 'headers') {
+          failure = new XiansTimeoutError(`No response within ${this.options.requestTimeout}ms`, {
+            timeout: this.options.requestTimeout,
+            cause: error
+          });
+        } else if (endedBy === 'deadline') {
+          failure = new XiansTimeoutError(`No reply within ${timeoutSeconds}s`, {
+            timeout: timeoutSeconds * 1000,
+            cause: error
+          });
+        } else if (options.signal?.aborted) {
+          failure = abortError(options.signal);
+        } else {
+          if (this.options.logger) {
+            this.options.logger('error', 'Streamed conversation failed', error);
+          }
+          failure = toXiansError(error);
+        }
+        if (failure !== sendFailure) {
+          failSpan(span, failure);
+        }
+        throw failure;
+      }
+    } finally {
+      clearTimeout(headerTimer);
+      clearTimeout(deadlineTimer);
+      clearTimeout(idleTimer);
+      // Closes the stream when the caller stops iterating early
+      controller.abort();
+      disposeSignal();
+      span?.setAttribute('xians.message_count', messageCount);
+      span?.end();
+    }
+
+    if (this.options.logger) {
+      this.options.logger('info', 'Streamed conversation completed', { messageCount });
+    }
+  }
+
+  /**
+   * Failed response for a message that outbound middleware dropped
+   */
+  private droppedResponse<T>(): RestResponse<T> {
+    if (this.options.logger) {
+      this.options.logger('debug', 'Message dropped by middleware');
+    }
+    const exception = messageDroppedError();
+    return { success: false, error: exception.message, exception };
+  }
+
+  /**
+   * Parses one streamed message, reporting malformed JSON as a protocol error
+   */
+  private parseStreamedMessage(raw: string): Message {
+    try {
+      return JSON.parse(raw);
+    } catch (error) {
+      throw new XiansProtocolError('Failed to parse streamed message', { code: 'PARSE_ERROR', cause: error });
+    }
+  }
+
   /**
    * Gets conversation history for a workflow and participant
    */
-  public async getHistory(request: HistoryRequest): Promise<RestResponse<Message[]>> {
+  public async getHistory(request: HistoryRequest, options: OperationOptions = {}): Promise<RestResponse<Message[]>> {
     if (!request.workflow) {
       throw new Error('workflow is required');
     }
@@ -430,13 +846,55 @@ export class RestSDK {
       });
     }
 
-    return await this.makeRequest<Message[]>(
-      '/api/user/rest/history',
-      'GET',
-      queryParams
+    return await traced(
+      this.options.tracer,
+      'xians.rest.history',
+      {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          'xians.workflow': request.workflow,
+          'xians.participant_id': request.participantId,
+          'xians.scope': request.scope,
+          'xians.page': queryParams.page
+        }
+      },
+      span => this.makeRequest<Message[]>(
+        '/api/user/rest/history',
+        'GET',
+        queryParams,
+        undefined,
+        options.signal,
+        span
+      )
     );
   }
 
+  /**
+   * Yields conversation history across all pages, newest first unless `direction` says otherwise.
+   * Stops at the `since` cut-off, after `maxCount` messages, or when the server has no more pages.
+   * A failed page is thrown as its XiansError
+   */
+  public iterateHistory(
+    request: Omit<HistoryRequest, 'page' | 'pageSize'>,
+    options: HistoryIteratorOptions = {}
+  ): AsyncGenerator<Message, void, undefined> {
+    if (!request.workflow) {
+      throw new Error('workflow is required');
+    }
+    if (!request.participantId) {
+      throw new Error('participantId is required');
+    }
+
+    // REST pages start at 1
+    return iterateHistoryPages(async (index, pageSize) => {
+      const result = await this.getHistory({ ...request, page: index + 1, pageSize }, { signal: options.signal });
+      if (!result.success) {
+        throw result.exception || new XiansError(result.error || 'Failed to load history');
+      }
+      return result.data || [];
+    }, options);
+  }
+
   /**
    * Gets the tenant ID
    */
@@ -449,11 +907,22 @@ export class RestSDK {
    * When both API key and JWT methods are provided, JWT takes precedence
    */
   public getAuthType(): AuthType {
-    if (this.options.getJwtToken) return 'jwtCallback';
+    if (this.tokenProvider) return 'jwtCallback';
     if (this.options.jwtToken) return 'jwtToken';
     return 'apiKey';
   }
 
+  /**
+   * Swaps the token provider, stopping the old one's refresh timer unless it was passed in by the caller
+   */
+  private replaceTokenProvider(provider: TokenProvider | null): void {
+    if (this.tokenProvider && this.tokenProvider !== this.options.tokenProvider) {
+      this.tokenProvider.dispose();
+    }
+    this.options.tokenProvider = undefined;
+    this.tokenProvider = provider;
+  }
+
   /**
    * Updates the API key (switches to API key authentication)
    */
@@ -464,6 +933,7 @@ export class RestSDK {
     this.options.apiKey = apiKey;
     this.options.jwtToken = undefined;
     this.options.getJwtToken = undefined;
+    this.replaceTokenProvider(null);
   }
 
   /**
@@ -476,6 +946,7 @@ export class RestSDK {
     this.options.jwtToken = jwtToken;
     this.options.apiKey = undefined;
     this.options.getJwtToken = undefined;
+    this.replaceTokenProvider(null);
   }
 
   /**
@@ -488,6 +959,11 @@ export class RestSDK {
     this.options.getJwtToken = getJwtToken;
     this.options.apiKey = undefined;
     this.options.jwtToken = undefined;
+    this.replaceTokenProvider(resolveTokenProvider({
+      getJwtToken,
+      tokenRefreshMargin: this.options.tokenRefreshMargin,
+      logger: this.options.logger
+    }));
   }
 
   /**
@@ -495,6 +971,7 @@ export class RestSDK {
    */
   public dispose(): void {
     this.isDisposed = true;
+    this.replaceTokenProvider(null);
     
     if (this.options.logger) {
       this.options.logger('info', 'RestSDK disposed');
@@ -11,8 +11,29 @@ import {
   AuthType,
   ConnectionState,
   SDK_DEFAULTS,
-  BaseEventHandlers
+  BaseEventHandlers,
+  OperationOptions
 } from './types';
+import { OutboundQueue, OutboundQueueOptions, QueuedMessage } from './core/OutboundQueue';
+import { TokenProvider, resolveTokenProvider } from './core/TokenProvider';
+import { RetryPolicy, ExponentialRetryPolicy } from './core/RetryPolicy';
+import {
+  XiansError,
+  XiansAuthError,
+  XiansDisposedError,
+  XiansNetworkError,
+  XiansServerError,
+  XiansTimeoutError,
+  errorFromStatus,
+  toXiansError
+} from './core/errors';
+import { abortError, abortable, throwIfAborted } from './core/abort';
+import { EventDispatcher, EventDisposer } from './core/EventDispatcher';
+import { ConnectionMetrics, ConnectionMetricsSnapshot } from './core/ConnectionMetrics';
+import { HistoryIteratorOptions, iterateHistoryPages } from './core/history';
+import { Conversation, isThreadMessage } from './core/Conversation';
+import { Span, SpanKind, SpanStatusCode, failSpan, messageAttributes, traceparentOf, traced } from './core/tracing';
+import { Middleware, MiddlewarePipeline, messageDroppedError, resolveMiddleware } from './core/middleware';
 
 /**
  * Chat or data request structure for WebSocket communication
@@ -22,6 +43,99 @@ export interface MessageRequest extends BaseMessageRequest {
   threadId?: string;
 }
 
+/**
+ * Options for SocketSDK.request
+ */
+export interface SocketRequestOptions extends OperationOptions {
+  /**
+   * Time to wait for the agent's reply in milliseconds (default: requestTimeout)
+   */
+  timeout?: number;
+
+  /**
+   * Keep collecting replies until none has arrived for `idleTimeout` milliseconds,
+   * instead of resolving with the first reply (default: false)
+   */
+  collectUntilIdle?: boolean;
+
+  /**
+   * Quiet period that ends collection when collectUntilIdle is set, in milliseconds (default: 2000)
+   */
+  idleTimeout?: number;
+}
+
+/**
+ * Options for SocketSDK.getThreadHistory
+ */
+export interface ThreadHistoryOptions extends OperationOptions {
+  /**
+   * Time to wait for the ThreadHistory event in milliseconds (default: requestTimeout)
+   */
+  timeout?: number;
+}
+
+/**
+ * Handlers that only receive messages for one subscription
+ */
+export interface SubscriptionHandlers {
+  onReceiveChat?: (message: Message) => void;
+  onReceiveData?: (message: Message) => void;
+  onReceiveHandoff?: (message: Message) => void;
+}
+
+/**
+ * Options for SocketSDK.subscribeToAgent
+ */
+export interface SubscribeOptions extends OperationOptions, SubscriptionHandlers {
+  /**
+   * Only route messages with this scope to the subscription's handlers
+   */
+  scope?: string;
+}
+
+/**
+ * Options for SocketSDK.unsubscribeFromAgent
+ */
+export interface UnsubscribeOptions extends OperationOptions {
+  /**
+   * Only drop the subscription for this scope (default: every scope of the workflow and participant)
+   */
+  scope?: string;
+}
+
+/**
+ * Agent subscription tracked by the SDK and replayed after reconnects
+ */
+export interface AgentSubscription {
+  workflow: string;
+  participantId: string;
+  scope?: string;
+}
+
+/**
+ * Request waiting for replies that carry its requestId
+ */
+interface PendingRequest {
+  messages: Message[];
+  collectUntilIdle: boolean;
+  idleTimeout: number;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+  settle: (error?: Error) => void;
+}
+
+/**
+ * Thread history request waiting for its ThreadHistory event
+ */
+interface PendingHistoryRequest {
+  workflow: string;
+  participantId: string;
+  scope?: string;
+  // True until the hub call completes; the server sends the page before completing it
+  invoking: boolean;
+  settle: (error: Error | null, history?: Message[]) => void;
+}
+
+const notConnectedError = () => new XiansNetworkError('Connection is not established', { code: 'NOT_CONNECTED' });
 
 
 /**
@@ -41,7 +155,7 @@ export interface EventHandlers extends BaseEventHandlers {
   /**
    * Called when a connection error occurs (SocketSDK-specific)
    */
-  onConnectionError?: (error: { statusCode: number; message: string }) => void;
+  onConnectionError?: (error: { statusCode: number; message: string }, details?: XiansError) => void;
   
   /**
    * Called when connection state changes (SocketSDK-specific)
@@ -52,6 +166,33 @@ export interface EventHandlers extends BaseEventHandlers {
    * Called when reconnected successfully (SocketSDK-specific, different signature than base)
    */
   onReconnected?: (connectionId?: string) => void;
+  
+  /**
+   * Called when a message in the offline queue changes status (SocketSDK-specific)
+   */
+  onQueueChanged?: (message: QueuedMessage<MessageRequest>) => void;
+  
+  /**
+   * Called every `metricsInterval` ms with a metrics snapshot (SocketSDK-specific)
+   */
+  onMetrics?: (metrics: ConnectionMetricsSnapshot) => void;
+}
+
+/**
+ * Events emitted through SocketSDK.on, by name. Every listener is called, next to the matching eventHandlers callback
+ */
+export interface SocketEventMap {
+  chat: Message;
+  data: Message;
+  handoff: Message;
+  thread_history: Message[];
+  inbound_processed: string;
+  connection_change: { oldState: ConnectionState; newState: ConnectionState };
+  reconnecting: { reason?: string };
+  reconnected: { connectionId?: string };
+  queue_change: QueuedMessage<MessageRequest>;
+  metrics: ConnectionMetricsSnapshot;
+  error: XiansError;
 }
 
 /**
@@ -74,12 +215,14 @@ export interface SocketSDKOptions extends BaseSDKOptions {
   autoReconnect?: boolean;
   
   /**
-   * Reconnection delay in milliseconds (default: 5000)
+   * Reconnection delay in milliseconds (default: 5000). SignalR's automatic reconnect retries at this
+   * interval until the connection is back; after the connection closed, the delay doubles per attempt.
+   * Ignored when retryPolicy is set
    */
   reconnectDelay?: number;
   
   /**
-   * Maximum number of reconnection attempts (default: 5)
+   * Maximum number of reconnection attempts after the connection closed (default: 5). Ignored when retryPolicy is set
    */
   maxReconnectAttempts?: number;
   
@@ -88,6 +231,23 @@ export interface SocketSDKOptions extends BaseSDKOptions {
    */
   connectionTimeout?: number;
   
+  /**
+   * Default time to wait for replies in request() in milliseconds (default: 30000)
+   */
+  requestTimeout?: number;
+  
+  /**
+   * Buffer messages sent while disconnected and flush them after reconnecting.
+   * Pass true for an in-memory queue or options to choose storage (default: disabled)
+   */
+  offlineQueue?: boolean | OutboundQueueOptions;
+  
+  /**
+   * Interval in milliseconds for reporting metrics to onMetrics and the `metrics` event,
+   * from connect() until disconnect() (default: disabled)
+   */
+  metricsInterval?: number;
+  
   /**
    * Event handlers for chat communication
    */
@@ -109,15 +269,27 @@ export class SocketSDK {
   private connection: signalR.HubConnection | null = null;
   private connectionState: ConnectionState = ConnectionState.Disconnected;
   private reconnectAttempts: number = 0;
+  private retryPolicy: RetryPolicy;
+  private tokenProvider: TokenProvider | null;
+  private middleware: MiddlewarePipeline;
   private isDisposed: boolean = false;
   private eventHandlers: EventHandlers = {};
+  private dispatcher: EventDispatcher<SocketEventMap>;
+  private pendingRequests: Map<string, PendingRequest> = new Map();
+  private pendingHistory: PendingHistoryRequest | null = null;
+  private subscriptions: Map<string, AgentSubscription & { handlers: SubscriptionHandlers }> = new Map();
+  private historyQueue: Promise<unknown> = Promise.resolve();
+  private outboundQueue: OutboundQueue<MessageRequest> | null = null;
+  private metrics = new ConnectionMetrics();
+  private metricsTimer: ReturnType<typeof setInterval> | null = null;
+  private reconnectSpan: Span | undefined;
 
   constructor(options: SocketSDKOptions) {
     // Validate required fields
     if (!options.tenantId) {
       throw new Error('tenantId is required');
     }
-    if (!options.apiKey && !options.getJwtToken && !options.jwtToken) {
+    if (!options.apiKey && !options.getJwtToken && !options.jwtToken && !options.tokenProvider) {
       throw new Error('Either apiKey, jwtToken, or getJwtToken callback is required');
     }
     if (!options.serverUrl) {
@@ -130,13 +302,44 @@ export class SocketSDK {
       reconnectDelay: SDK_DEFAULTS.reconnectDelay,
       maxReconnectAttempts: SDK_DEFAULTS.maxReconnectAttempts,
       connectionTimeout: SDK_DEFAULTS.connectionTimeout,
+      requestTimeout: SDK_DEFAULTS.requestTimeout,
       ...options
     };
 
     this.eventHandlers = options.eventHandlers || {};
+    this.retryPolicy = this.options.retryPolicy || new ExponentialRetryPolicy({
+      initialDelay: this.options.reconnectDelay,
+      maxDelay: Infinity,
+      maxAttempts: this.options.maxReconnectAttempts
+    });
+    this.tokenProvider = resolveTokenProvider(this.options);
+    this.middleware = resolveMiddleware(this.options.middleware);
+    this.dispatcher = new EventDispatcher<SocketEventMap>((event, error) => {
+      if (this.options.logger) {
+        this.options.logger('error', `Error in event listener for ${String(event)}`, error);
+      }
+    });
+
+    if (this.options.offlineQueue) {
+      this.outboundQueue = new OutboundQueue<MessageRequest>({
+        logger: this.options.logger,
+        ...(this.options.offlineQueue === true ? {} : this.options.offlineQueue)
+      });
+      this.outboundQueue.on('change', (message) => {
+        this.eventHandlers.onQueueChanged?.(message);
+        this.dispatcher.emit('queue_change', message);
+      });
+    }
     // Note: setupConnection is now called in connect() method since it's async
   }
 
+  /**
+   * Adds middleware for outgoing messages and incoming agent messages. Returns a function that removes it
+   */
+  public use(middleware: Middleware): () => void {
+    return this.middleware.use(middleware);
+  }
+
   /**
    * Sets up the SignalR connection with authentication
    */
@@ -149,7 +352,7 @@ export class SocketSDK {
     };
 
     // Only use accessTokenFactory for JWT authentication
-    if (this.options.getJwtToken || this.options.jwtToken) {
+    if (this.tokenProvider || this.options.jwtToken) {
       connectionOptions.accessTokenFactory = async () => {
         return await this.getJwtToken();
       };
@@ -158,11 +361,24 @@ export class SocketSDK {
     const connectionBuilder = new signalR.HubConnectionBuilder()
       .withUrl(hubUrl, connectionOptions)
       .withAutomaticReconnect({
-        nextRetryDelayInMilliseconds: () => this.options.reconnectDelay!
+        nextRetryDelayInMilliseconds: (context) => {
+          if (!this.options.autoReconnect || this.isDisposed) {
+            return null;
+          }
+          if (!this.options.retryPolicy) {
+            // Without a policy SignalR keeps retrying at a fixed interval until the connection is back
+            return this.options.reconnectDelay!;
+          }
+          // Share the attempt count so handleReconnection continues where SignalR stopped
+          this.reconnectAttempts = context.previousRetryCount + 1;
+          return this.retryPolicy.nextDelay(this.reconnectAttempts, context.retryReason);
+        }
       })
       .configureLogging(signalR.LogLevel.Information);
 
-    this.connection = connectionBuilder.build();
+    this.connection = this.options.traffic
+      ? this.options.traffic.hubConnection(() => connectionBuilder.build())
+      : connectionBuilder.build();
     
     // Debug: Log all SignalR events received (for debugging purposes)
     if (this.options.logger) {
@@ -198,7 +414,7 @@ export class SocketSDK {
       url.searchParams.set('apikey', this.options.apiKey);
     }
     
-    if (this.options.getJwtToken || this.options.jwtToken) {
+    if (this.tokenProvider || this.options.jwtToken) {
       // JWT tokens are handled via accessTokenFactory in SignalR connection
       // Do not add JWT tokens to query parameters for security reasons
       if (this.options.logger) {
@@ -215,8 +431,8 @@ export class SocketSDK {
         tenantId: this.options.tenantId, 
         primaryAuthMethod: this.getAuthType(),
         hasApiKey: !!this.options.apiKey,
-        hasJwtToken: !!(this.options.jwtToken || this.options.getJwtToken),
-        usingBothMethods: !!this.options.apiKey && !!(this.options.jwtToken || this.options.getJwtToken)
+        hasJwtToken: !!(this.tokenProvider || this.options.jwtToken),
+        usingBothMethods: !!this.options.apiKey && !!(this.tokenProvider || this.options.jwtToken)
       });
     }
     
@@ -228,19 +444,19 @@ export class SocketSDK {
    * @returns JWT token
    */
   private async getJwtToken(): Promise<string> {
-    if (this.options.getJwtToken) {
+    if (this.tokenProvider) {
       try {
-        return await this.options.getJwtToken();
+        return await this.tokenProvider.getToken();
       } catch (error) {
         if (this.options.logger) {
           this.options.logger('error', 'Failed to get JWT token', error);
         }
-        throw new Error(`Failed to get JWT token: ${error}`);
+        throw error;
       }
     } else if (this.options.jwtToken) {
       return this.options.jwtToken;
     } else {
-      throw new Error('No JWT token available');
+      throw new XiansAuthError('No JWT token available');
     }
   }
 
@@ -250,21 +466,21 @@ export class SocketSDK {
    */
   private async getAuthToken(): Promise<string> {
     // Prioritize JWT methods when available
-    if (this.options.getJwtToken) {
+    if (this.tokenProvider) {
       try {
-        return await this.options.getJwtToken();
+        return await this.tokenProvider.getToken();
       } catch (error) {
         if (this.options.logger) {
           this.options.logger('error', 'Failed to get JWT token', error);
         }
-        throw new Error(`Failed to get JWT token: ${error}`);
+        throw error;
       }
     } else if (this.options.jwtToken) {
       return this.options.jwtToken;
     } else if (this.options.apiKey) {
       return this.options.apiKey;
     } else {
-      throw new Error('No authentication method available');
+      throw new XiansAuthError('No authentication method available');
     }
   }
 
@@ -280,27 +496,45 @@ export class SocketSDK {
       if (this.options.logger) {
         this.options.logger('info', 'Connection closed', error);
       }
+      if (error) {
+        this.metrics.connectionLost();
+      }
+      this.endReconnectSpan(error ?? 'Connection closed');
+      // The answer to an outstanding history request cannot arrive on a new connection
+      this.pendingHistory?.settle(notConnectedError());
       
       if (this.options.autoReconnect && !this.isDisposed && error) {
-        this.handleReconnection();
+        this.handleReconnection(error);
       }
     });
 
     this.connection.onreconnecting((error) => {
       this.updateConnectionState(ConnectionState.Reconnecting);
+      this.metrics.connectionLost();
+      this.reconnectSpan ??= this.options.tracer?.startSpan('xians.socket.reconnect', {
+        kind: SpanKind.CLIENT,
+        attributes: { 'xians.reason': error?.message }
+      });
       if (this.options.logger) {
         this.options.logger('info', 'Attempting to reconnect', error);
       }
       this.eventHandlers.onReconnecting?.(error?.message);
+      this.dispatcher.emit('reconnecting', { reason: error?.message });
     });
 
     this.connection.onreconnected((connectionId) => {
       this.updateConnectionState(ConnectionState.Connected);
       this.reconnectAttempts = 0;
+      this.metrics.connectionRestored();
+      this.endReconnectSpan();
       if (this.options.logger) {
         this.options.logger('info', 'Reconnected successfully', connectionId);
       }
       this.eventHandlers.onReconnected?.(connectionId);
+      this.dispatcher.emit('reconnected', { connectionId });
+      // Group membership does not survive a new connection id
+      this.resubscribe();
+      this.flushOutboundQueue();
     });
 
     // Chat communication events matching ChatHub SignalR methods
@@ -310,7 +544,9 @@ export class SocketSDK {
       if (this.options.logger) {
         this.options.logger('debug', 'Received thread history (Pascal)', { count: safeHistory.length });
       }
+      this.takeThreadHistory(safeHistory);
       this.eventHandlers.onThreadHistory?.(safeHistory);
+      this.dispatcher.emit('thread_history', safeHistory);
     });
 
     this.connection.on('threadhistory', (history: Message[] | null) => {
@@ -318,7 +554,9 @@ export class SocketSDK {
       if (this.options.logger) {
         this.options.logger('debug', 'Received thread history (lowercase)', { count: safeHistory.length });
       }
+      this.takeThreadHistory(safeHistory);
       this.eventHandlers.onThreadHistory?.(safeHistory);
+      this.dispatcher.emit('thread_history', safeHistory);
     });
 
     this.connection.on('InboundProcessed', (threadId: string) => {
@@ -326,6 +564,7 @@ export class SocketSDK {
         this.options.logger('debug', 'Inbound message processed (Pascal)', { threadId });
       }
       this.eventHandlers.onInboundProcessed?.(threadId);
+      this.dispatcher.emit('inbound_processed', threadId);
     });
 
     this.connection.on('inboundprocessed', (threadId: string) => {
@@ -333,6 +572,7 @@ export class SocketSDK {
         this.options.logger('debug', 'Inbound message processed (lowercase)', { threadId });
       }
       this.eventHandlers.onInboundProcessed?.(threadId);
+      this.dispatcher.emit('inbound_processed', threadId);
     });
 
 
@@ -346,23 +586,7 @@ export class SocketSDK {
         });
       }
       
-      // Check if this is actually a handoff message sent through chat channel
-      const isHandoffMessage = message.messageType === 'Handoff';
-      
-      if (isHandoffMessage) {
-        if (this.options.logger) {
-          this.options.logger('info', '🔄 [ROUTING] Detected handoff message in chat channel, routing to onReceiveHandoff', {
-            messageId: message.id,
-            messageType: message.messageType,
-            textPrefix: message.text ? message.text.substring(0, 20) : 'No text'
-          });
-        }
-        // Route to handoff handler instead
-        this.eventHandlers.onReceiveHandoff?.(message);
-      } else {
-        // Handle as regular chat message
-        this.eventHandlers.onReceiveChat?.(message);
-      }
+      this.receiveAgentMessage(message, 'Chat');
     });
 
 
@@ -376,23 +600,7 @@ export class SocketSDK {
         });
       }
       
-      // Check if this is actually a handoff message sent through data channel
-      const isHandoffMessage = message.messageType === 'Handoff';
-      
-      if (isHandoffMessage) {
-        if (this.options.logger) {
-          this.options.logger('info', '🔄 [ROUTING] Detected handoff message in data channel, routing to onReceiveHandoff', {
-            messageId: message.id,
-            messageType: message.messageType,
-            textPrefix: message.text ? message.text.substring(0, 20) : 'No text'
-          });
-        }
-        // Route to handoff handler instead
-        this.eventHandlers.onReceiveHandoff?.(message);
-      } else {
-        // Handle as regular data message
-        this.eventHandlers.onReceiveData?.(message);
-      }
+      this.receiveAgentMessage(message, 'Data');
     });
 
     this.connection.on('ReceiveHandoff', (message: Message) => {
@@ -403,21 +611,25 @@ export class SocketSDK {
           hasData: !!message.data
         });
       }
-      this.eventHandlers.onReceiveHandoff?.(message);
+      this.receiveAgentMessage(message, 'Handoff');
     });
 
     this.connection.on('Error', (error: string) => {
       if (this.options.logger) {
         this.options.logger('error', 'Received error', error);
       }
-      this.eventHandlers.onError?.(error);
+      const details = new XiansServerError(error);
+      this.eventHandlers.onError?.(error, details);
+      this.dispatcher.emit('error', details);
     });
 
     this.connection.on('ConnectionError', (error: { statusCode: number; message: string }) => {
       if (this.options.logger) {
         this.options.logger('error', 'Connection error', error);
       }
-      this.eventHandlers.onConnectionError?.(error);
+      const details = errorFromStatus(error.statusCode, error.message);
+      this.eventHandlers.onConnectionError?.(error, details);
+      this.dispatcher.emit('error', details);
     });
 
     // Legacy method support - register old SignalR methods that server might still call
@@ -446,13 +658,32 @@ export class SocketSDK {
     const oldState = this.connectionState;
     this.connectionState = newState;
     this.eventHandlers.onConnectionStateChanged?.(oldState, newState);
+    this.dispatcher.emit('connection_change', { oldState, newState });
+  }
+
+  /**
+   * Invokes a hub method, recording its latency in the metrics
+   */
+  private invoke<T = any>(connection: signalR.HubConnection, method: string, ...args: any[]): Promise<T> {
+    return this.metrics.time(method, () => connection.invoke<T>(method, ...args));
   }
 
   /**
-   * Handles reconnection logic with exponential backoff
+   * Wraps a failed hub invocation: a live connection means the server rejected the call,
+   * otherwise the connection dropped underneath it
    */
-  private async handleReconnection(): Promise<void> {
-    if (this.reconnectAttempts >= this.options.maxReconnectAttempts! || this.isDisposed) {
+  private toInvokeError(error: unknown): XiansError {
+    return toXiansError(error, (message, cause) => this.isConnected()
+      ? new XiansServerError(message, undefined, { cause })
+      : new XiansNetworkError(message, { cause }));
+  }
+
+  /**
+   * Handles reconnection after the connection closed, using the retry policy
+   */
+  private async handleReconnection(error?: Error): Promise<void> {
+    const delay = this.isDisposed ? null : this.retryPolicy.nextDelay(this.reconnectAttempts + 1, error);
+    if (delay === null) {
       if (this.options.logger) {
         this.options.logger('error', 'Max reconnection attempts reached');
       }
@@ -460,7 +691,6 @@ export class SocketSDK {
     }
 
     this.reconnectAttempts++;
-    const delay = this.options.reconnectDelay! * Math.pow(2, this.reconnectAttempts - 1);
     
     if (this.options.logger) {
       this.options.logger('info', `Reconnection attempt ${this.reconnectAttempts} in ${delay}ms`);
@@ -473,29 +703,32 @@ export class SocketSDK {
         if (this.options.logger) {
           this.options.logger('error', 'Reconnection attempt failed', error);
         }
-        this.handleReconnection();
+        this.handleReconnection(error as Error);
       }
     }, delay);
   }
 
   /**
    * Connects to the SignalR hub
+   * Aborting the signal while the connection starts stops it again
    */
-  public async connect(): Promise<void> {
+  public async connect(options: OperationOptions = {}): Promise<void> {
+    const { signal } = options;
     if (this.isDisposed) {
-      throw new Error('Connection has been disposed');
+      throw new XiansDisposedError('Connection has been disposed');
     }
+    throwIfAborted(signal);
 
     // Setup connection if not already done
     if (!this.connection) {
       if (this.options.logger) {
         this.options.logger('debug', 'Setting up new connection', { tenantId: this.options.tenantId, authType: this.getAuthType() });
       }
-      await this.setupConnection();
+      await abortable(this.setupConnection(), signal);
     }
 
     if (!this.connection) {
-      throw new Error('Failed to initialize connection');
+      throw new XiansError('Failed to initialize connection', { code: 'CONNECTION_FAILED' });
     }
 
     if (this.connectionState === ConnectionState.Connected || 
@@ -510,19 +743,57 @@ export class SocketSDK {
     }
 
     try {
-      await this.connection.start();
+      await traced(
+        this.options.tracer,
+        'xians.socket.connect',
+        { kind: SpanKind.CLIENT, attributes: { 'xians.tenant_id': this.options.tenantId } },
+        () => abortable(this.startConnection(), signal)
+      );
       this.updateConnectionState(ConnectionState.Connected);
       this.reconnectAttempts = 0;
+      this.metrics.connectionRestored();
+      this.startMetricsTimer();
       
       if (this.options.logger) {
         this.options.logger('info', 'Connected to bot hub successfully');
       }
+      
+      this.resubscribe();
+      this.flushOutboundQueue();
     } catch (error) {
+      if (signal?.aborted) {
+        await this.connection?.stop().catch(() => undefined);
+        this.updateConnectionState(ConnectionState.Disconnected);
+        if (this.options.logger) {
+          this.options.logger('info', 'Connection attempt aborted');
+        }
+        throw abortError(signal);
+      }
+
       this.updateConnectionState(ConnectionState.Disconnected);
       if (this.options.logger) {
         this.options.logger('error', 'Failed to connect to bot hub', error);
       }
-      throw error;
+      throw toXiansError(error, (message, cause) => new XiansNetworkError(message, { code: 'CONNECTION_FAILED', cause }));
+    }
+  }
+
+  /**
+   * Starts the hub connection, refreshing the JWT once if the server rejects it
+   */
+  private async startConnection(): Promise<void> {
+    try {
+      await this.connection!.start();
+    } catch (error: unknown) {
+      const rejection = toXiansError(error);
+      if (!(rejection instanceof XiansAuthError) || rejection.statusCode !== 401 || !this.tokenProvider) {
+        throw error;
+      }
+      if (this.options.logger) {
+        this.options.logger('info', 'Connection rejected with 401, refreshing JWT token and retrying');
+      }
+      await this.tokenProvider.refresh();
+      await this.connection!.start();
     }
   }
 
@@ -535,6 +806,7 @@ export class SocketSDK {
     }
 
     this.updateConnectionState(ConnectionState.Disconnecting);
+    this.stopMetricsTimer();
 
     try {
       await this.connection.stop();
@@ -553,120 +825,578 @@ export class SocketSDK {
 
   /**
    * Sends an inbound message to the chat system
+   * With offlineQueue enabled, messages sent while disconnected are queued and
+   * delivered in order after the connection is restored. Messages sent while the
+   * queue is still flushing are queued behind it; the call then resolves once queued.
    */
-  public async sendInboundMessage(request: MessageRequest, messageType: MessageType): Promise<void> {
+  public async sendInboundMessage(
+    request: MessageRequest,
+    messageType: MessageType,
+    options: OperationOptions = {}
+  ): Promise<void> {
+    const { signal } = options;
+    // Ensure participantId is set
+    if (!request.participantId) {
+      throw new Error('participantId is required');
+    }
+    throwIfAborted(signal);
+
+    // Runs once, so queued messages are stored as they will be sent
+    const outgoing = await abortable(this.middleware.runOutbound(request, { transport: 'socket', operation: 'send' }), signal);
+    if (!outgoing) {
+      if (this.options.logger) {
+        this.options.logger('debug', 'Message dropped by middleware', { requestId: request.requestId });
+      }
+      throw messageDroppedError();
+    }
+
+    // Until the queue has drained, new messages wait behind it so they cannot overtake it
+    if (this.outboundQueue && (!this.isConnected() || await this.outboundQueue.hasPending())) {
+      await this.enqueueOutbound(outgoing, messageType);
+      if (this.isConnected()) {
+        this.flushOutboundQueue();
+      }
+      return;
+    }
+
     if (!this.connection || this.connectionState !== ConnectionState.Connected) {
-      throw new Error('Connection is not established');
+      throw notConnectedError();
     }
 
     try {
-      // Ensure participantId is set
-      if (!request.participantId) {
-        throw new Error('participantId is required');
+      await abortable(this.invokeSendInboundMessage(outgoing, messageType), signal);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw abortError(signal);
+      }
+      // The connection dropped while sending – keep the message for the next reconnect
+      if (this.outboundQueue && !this.isConnected()) {
+        await this.enqueueOutbound(outgoing, messageType);
+        return;
+      }
+      if (this.options.logger) {
+        this.options.logger('error', 'Failed to send inbound message', error);
+      }
+      throw this.toInvokeError(error);
+    }
+  }
+
+  /**
+   * Invokes SendInboundMessage on the hub, adding the JWT to the authorization field when available
+   */
+  private async invokeSendInboundMessage(request: MessageRequest, messageType: MessageType | string): Promise<void> {
+    if (!this.connection) {
+      throw notConnectedError();
+    }
+
+    // Add JWT token to authorization field if available
+    const messageRequest = { ...request };
+    if (this.tokenProvider || this.options.jwtToken) {
+      try {
+        const jwtToken = await this.getJwtToken();
+        messageRequest.authorization = jwtToken;
+        
+        if (this.options.logger) {
+          this.options.logger('debug', 'Added JWT token to message authorization field');
+        }
+      } catch (error) {
+        if (this.options.logger) {
+          this.options.logger('warn', 'Failed to get JWT token for message authorization field', error);
+        }
+        // Continue without JWT in message (connection-level auth still applies)
       }
+    }
+
+    if (this.options.logger) {
+      this.options.logger('debug', 'Sending inbound message', { 
+        messageType,
+        hasAuthorization: !!messageRequest.authorization,
+        participantId: request.participantId,
+        requestId: request.requestId
+      });
+    }
+
+    const connection = this.connection;
+    await traced(
+      this.options.tracer,
+      'xians.socket.send',
+      { kind: SpanKind.PRODUCER, attributes: messageAttributes({ ...request, type: messageType }) },
+      async span => {
+        // Lets the server continue the trace
+        const traceparent = traceparentOf(span);
+        if (traceparent) {
+          messageRequest.traceparent = traceparent;
+        }
 
-      // Add JWT token to authorization field if available
-      const messageRequest = { ...request };
-      if (this.options.jwtToken || this.options.getJwtToken) {
+        this.metrics.messageSent(request.requestId);
         try {
-          const jwtToken = await this.getJwtToken();
-          messageRequest.authorization = jwtToken;
-          
-          if (this.options.logger) {
-            this.options.logger('debug', 'Added JWT token to message authorization field');
-          }
+          await this.invoke(connection, 'SendInboundMessage', messageRequest, messageType);
         } catch (error) {
-          if (this.options.logger) {
-            this.options.logger('warn', 'Failed to get JWT token for message authorization field', error);
+          this.metrics.messageFailed(request.requestId);
+          throw error;
+        }
+      }
+    );
+  }
+
+  /**
+   * Ends the span of an automatic reconnect, marking it failed when `error` is given
+   */
+  private endReconnectSpan(error?: unknown): void {
+    if (!this.reconnectSpan) {
+      return;
+    }
+    if (error === undefined) {
+      this.reconnectSpan.setStatus({ code: SpanStatusCode.OK });
+    } else {
+      failSpan(this.reconnectSpan, error);
+    }
+    this.reconnectSpan.end();
+    this.reconnectSpan = undefined;
+  }
+
+  /**
+   * Adds a message to the offline queue, assigning a requestId so it can be deduplicated
+   */
+  private async enqueueOutbound(request: MessageRequest, messageType: MessageType): Promise<void> {
+    const requestId = request.requestId || crypto.randomUUID();
+    await this.outboundQueue!.enqueue(requestId, messageType, { ...request, requestId });
+    
+    if (this.options.logger) {
+      const reason = this.isConnected() ? 'Offline queue is still flushing' : 'Connection is down';
+      this.options.logger('info', `${reason}, message queued`, { requestId, messageType });
+    }
+  }
+
+  /**
+   * Sends every queued message in order. Failures stay queued for the next reconnect.
+   */
+  private flushOutboundQueue(): void {
+    if (!this.outboundQueue || this.outboundQueue.size === 0) {
+      return;
+    }
+
+    if (this.options.logger) {
+      this.options.logger('info', 'Flushing offline message queue', { size: this.outboundQueue.size });
+    }
+
+    this.outboundQueue
+      .flush(message => this.invokeSendInboundMessage(message.payload, message.messageType))
+      .catch(error => {
+        if (this.options.logger) {
+          this.options.logger('error', 'Failed to flush offline message queue', error);
+        }
+      });
+  }
+
+  /**
+   * Gets the messages waiting in the offline queue (queued, sending or failed)
+   */
+  public getQueuedMessages(): QueuedMessage<MessageRequest>[] {
+    return this.outboundQueue?.getMessages() || [];
+  }
+
+  /**
+   * Requeues a failed message and flushes immediately when connected
+   */
+  public async retryQueuedMessage(requestId: string): Promise<boolean> {
+    if (!this.outboundQueue) {
+      return false;
+    }
+    const requeued = await this.outboundQueue.retry(requestId);
+    if (requeued && this.isConnected()) {
+      this.flushOutboundQueue();
+    }
+    return requeued;
+  }
+
+  /**
+   * Drops a message from the offline queue without sending it
+   */
+  public async removeQueuedMessage(requestId: string): Promise<boolean> {
+    return this.outboundQueue ? this.outboundQueue.remove(requestId) : false;
+  }
+
+  /**
+   * Sends an inbound message and resolves with the agent's replies that carry the same requestId
+   * A requestId is generated when the request does not have one.
+   * By default the promise resolves with the first reply; with collectUntilIdle it keeps
+   * collecting replies until none has arrived for idleTimeout milliseconds.
+   * Replies are still delivered to the regular event handlers.
+   */
+  public async request(
+    request: MessageRequest,
+    messageType: MessageType = MessageType.Chat,
+    options: SocketRequestOptions = {}
+  ): Promise<Message[]> {
+    const requestId = request.requestId || crypto.randomUUID();
+    if (this.pendingRequests.has(requestId)) {
+      throw new XiansError(`A request with requestId ${requestId} is already pending`, { code: 'DUPLICATE_REQUEST' });
+    }
+
+    const timeout = options.timeout ?? this.options.requestTimeout!;
+    const { signal } = options;
+    throwIfAborted(signal);
+
+    // Register before sending so a fast reply cannot slip past
+    const replies = new Promise<Message[]>((resolve, reject) => {
+      let timeoutTimer: ReturnType<typeof setTimeout> | null = null;
+
+      const onAbort = () => pending.settle(abortError(signal));
+
+      const pending: PendingRequest = {
+        messages: [],
+        collectUntilIdle: !!options.collectUntilIdle,
+        idleTimeout: options.idleTimeout ?? 2000,
+        idleTimer: null,
+        settle: (error?: Error) => {
+          if (this.pendingRequests.get(requestId) !== pending) {
+            return;
           }
-          // Continue without JWT in message (connection-level auth still applies)
+          this.pendingRequests.delete(requestId);
+          if (timeoutTimer) clearTimeout(timeoutTimer);
+          if (pending.idleTimer) clearTimeout(pending.idleTimer);
+          signal?.removeEventListener('abort', onAbort);
+
+          if (error) {
+            reject(error);
+          } else {
+            resolve(pending.messages);
+          }
+        }
+      };
+
+      timeoutTimer = setTimeout(() => {
+        // In collect mode a timeout after the first reply still counts as a result
+        if (pending.collectUntilIdle && pending.messages.length > 0) {
+          pending.settle();
+        } else {
+          pending.settle(new XiansTimeoutError(`Request timed out after ${timeout}ms`, { timeout }));
+        }
+      }, timeout);
+      signal?.addEventListener('abort', onAbort);
+
+      this.pendingRequests.set(requestId, pending);
+    });
+
+    try {
+      await this.sendInboundMessage({ ...request, requestId }, messageType, { signal });
+    } catch (error) {
+      const pending = this.pendingRequests.get(requestId);
+      // Swallow the rejection of the reply promise, the send error is what the caller sees
+      replies.catch(() => {});
+      pending?.settle(error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+
+    if (this.options.logger) {
+      this.options.logger('debug', 'Waiting for replies', {
+        requestId,
+        timeout,
+        collectUntilIdle: !!options.collectUntilIdle
+      });
+    }
+
+    return replies;
+  }
+
+  /**
+   * Runs the inbound middleware on an agent message, then delivers it to the handlers of its channel
+   */
+  private receiveAgentMessage(message: Message, channel: 'Chat' | 'Data' | 'Handoff'): void {
+    this.middleware.deliverInbound(
+      message,
+      { transport: 'socket', messageType: channel },
+      processed => this.deliverAgentMessage(processed, channel),
+      error => {
+        if (this.options.logger) {
+          this.options.logger('error', 'Inbound middleware failed, message dropped', error);
         }
+        const details = toXiansError(error);
+        this.eventHandlers.onError?.(`Inbound middleware failed: ${details.message}`, details);
+        this.dispatcher.emit('error', details);
       }
+    );
+  }
 
-      if (this.options.logger) {
-        this.options.logger('debug', 'Sending inbound message', { 
-          messageType,
-          hasAuthorization: !!messageRequest.authorization,
-          participantId: request.participantId,
-          requestId: request.requestId
+  private deliverAgentMessage(message: Message, channel: 'Chat' | 'Data' | 'Handoff'): void {
+    this.trackReply(message);
+
+    // Check if this is actually a handoff message sent through the chat or data channel
+    if (channel === 'Handoff' || message.messageType === 'Handoff') {
+      if (channel !== 'Handoff' && this.options.logger) {
+        this.options.logger('info', `🔄 [ROUTING] Detected handoff message in ${channel.toLowerCase()} channel, routing to onReceiveHandoff`, {
+          messageId: message.id,
+          messageType: message.messageType,
+          textPrefix: message.text ? message.text.substring(0, 20) : 'No text'
         });
       }
+      this.eventHandlers.onReceiveHandoff?.(message);
+      this.dispatcher.emit('handoff', message);
+      this.routeToSubscriptions(message, 'onReceiveHandoff');
+    } else if (channel === 'Chat') {
+      this.eventHandlers.onReceiveChat?.(message);
+      this.dispatcher.emit('chat', message);
+      this.routeToSubscriptions(message, 'onReceiveChat');
+    } else {
+      this.eventHandlers.onReceiveData?.(message);
+      this.dispatcher.emit('data', message);
+      this.routeToSubscriptions(message, 'onReceiveData');
+    }
+  }
 
-      await this.connection.invoke('SendInboundMessage', messageRequest, messageType);
-    } catch (error) {
-      if (this.options.logger) {
-        this.options.logger('error', 'Failed to send inbound message', error);
-      }
-      throw error;
+  /**
+   * Hands an agent message to the request() call waiting for its requestId, if any
+   */
+  private trackReply(message: Message): void {
+    this.metrics.messageReceived(message.requestId);
+    if (!message.requestId) {
+      return;
+    }
+
+    const pending = this.pendingRequests.get(message.requestId);
+    if (!pending) {
+      return;
+    }
+
+    pending.messages.push(message);
+
+    if (!pending.collectUntilIdle) {
+      pending.settle();
+      return;
+    }
+
+    if (pending.idleTimer) {
+      clearTimeout(pending.idleTimer);
     }
+    pending.idleTimer = setTimeout(() => pending.settle(), pending.idleTimeout);
   }
 
   /**
-   * Gets thread history for a workflow and participant
+   * Gets one page of thread history for a workflow and participant
+   * Resolves with the messages of the ThreadHistory event that answers this request; the
+   * event is also delivered to onThreadHistory. Rejects with XiansTimeoutError when no
+   * event arrives within `timeout`
    */
   public async getThreadHistory(
     workflow: string, 
     participantId: string, 
     page: number = 0, 
     pageSize: number = 50,
-    scope?: string
-  ): Promise<void> {
+    scope?: string,
+    options: ThreadHistoryOptions = {}
+  ): Promise<Message[]> {
     if (!this.connection || this.connectionState !== ConnectionState.Connected) {
-      throw new Error('Connection is not established');
+      throw notConnectedError();
     }
+    throwIfAborted(options.signal);
 
     try {
       if (this.options.logger) {
         this.options.logger('debug', 'Requesting thread history', { workflow, participantId, page, pageSize, scope });
       }
 
-      if (scope) {
-        await this.connection.invoke('GetScopedThreadHistory', workflow, participantId, page, pageSize, scope);
-      } else {
-        await this.connection.invoke('GetThreadHistory', workflow, participantId, page, pageSize);
-      }
+      return await this.fetchThreadHistory(workflow, participantId, page, pageSize, scope, options);
     } catch (error) {
+      if (options.signal?.aborted) {
+        throw abortError(options.signal);
+      }
       if (this.options.logger) {
         this.options.logger('error', 'Failed to get thread history', error);
       }
-      throw error;
+      throw this.toInvokeError(error);
+    }
+  }
+
+  /**
+   * Yields thread history across all pages, newest first unless `direction` says otherwise.
+   * Pages are requested one at a time and matched to their ThreadHistory events; the events
+   * still reach onThreadHistory
+   */
+  public iterateHistory(
+    workflow: string,
+    participantId: string,
+    scope?: string,
+    options: HistoryIteratorOptions = {}
+  ): AsyncGenerator<Message, void, undefined> {
+    if (!workflow) {
+      throw new Error('workflow is required');
+    }
+    if (!participantId) {
+      throw new Error('participantId is required');
+    }
+
+    // Hub pages start at 0
+    return iterateHistoryPages(
+      (page, pageSize) => this.fetchThreadHistory(workflow, participantId, page, pageSize, scope, { signal: options.signal }),
+      options
+    );
+  }
+
+  /**
+   * Requests one history page and resolves with the ThreadHistory event that answers it.
+   * The server does not tag ThreadHistory with the request, so requests are sent one at a time
+   */
+  private fetchThreadHistory(
+    workflow: string,
+    participantId: string,
+    page: number,
+    pageSize: number,
+    scope?: string,
+    options: ThreadHistoryOptions = {}
+  ): Promise<Message[]> {
+    const run = () => traced(
+      this.options.tracer,
+      'xians.socket.history',
+      {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          'xians.workflow': workflow,
+          'xians.participant_id': participantId,
+          'xians.scope': scope,
+          'xians.page': page
+        }
+      },
+      () => this.requestThreadHistory(workflow, participantId, page, pageSize, scope, options)
+    );
+    const result = this.historyQueue.then(run, run);
+    this.historyQueue = result.catch(() => undefined);
+    return abortable(result, options.signal);
+  }
+
+  private requestThreadHistory(
+    workflow: string,
+    participantId: string,
+    page: number,
+    pageSize: number,
+    scope?: string,
+    options: ThreadHistoryOptions = {}
+  ): Promise<Message[]> {
+    const { signal } = options;
+    if (!this.connection || this.connectionState !== ConnectionState.Connected) {
+      return Promise.reject(notConnectedError());
+    }
+    if (signal?.aborted) {
+      return Promise.reject(abortError(signal));
+    }
+
+    const connection = this.connection;
+    const timeout = options.timeout ?? this.options.requestTimeout!;
+
+    return new Promise<Message[]>((resolve, reject) => {
+      const onAbort = () => pending.settle(abortError(signal));
+      const timer = setTimeout(() => {
+        pending.settle(new XiansTimeoutError(`No thread history received within ${timeout}ms`, { timeout }));
+      }, timeout);
+
+      const pending: PendingHistoryRequest = {
+        workflow,
+        participantId,
+        scope,
+        invoking: true,
+        settle: (error, history) => {
+          if (this.pendingHistory !== pending) {
+            return;
+          }
+          this.pendingHistory = null;
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+
+          if (error) {
+            reject(error);
+          } else {
+            resolve(history || []);
+          }
+        }
+      };
+      this.pendingHistory = pending;
+      signal?.addEventListener('abort', onAbort);
+
+      if (this.options.logger) {
+        this.options.logger('debug', 'Requesting thread history page', { workflow, participantId, page, pageSize, scope });
+      }
+
+      const invocation = scope
+        ? this.invoke(connection, 'GetScopedThreadHistory', workflow, participantId, page, pageSize, scope)
+        : this.invoke(connection, 'GetThreadHistory', workflow, participantId, page, pageSize);
+      invocation.then(
+        result => {
+          pending.invoking = false;
+          // Servers that return the page directly do not need the event
+          if (Array.isArray(result)) pending.settle(null, result);
+        },
+        error => {
+          pending.invoking = false;
+          pending.settle(this.toInvokeError(error));
+        }
+      );
+    });
+  }
+
+  /**
+   * Hands a ThreadHistory event to the history request waiting for it, if any.
+   * ThreadHistory carries no page number or request id, so this is a best guess: a page is
+   * taken when every message belongs to the requested thread (and scope), whatever page it is.
+   * An empty page says nothing about its thread and is only taken while the request's own hub
+   * call is running, as the server sends the page before completing the call. Anything else is
+   * left alone, and a request that gets no page it can take times out
+   */
+  private takeThreadHistory(history: Message[]): void {
+    const pending = this.pendingHistory;
+    if (!pending) {
+      return;
+    }
+    const taken = history.length === 0
+      ? pending.invoking
+      : history.every(m => isThreadMessage(m, pending.workflow, pending.participantId) &&
+          (pending.scope === undefined || m.scope === pending.scope));
+    if (taken) {
+      pending.settle(null, history);
     }
   }
 
   /**
    * Delete thread for a workflow and participant
    */
-  public async deleteThread(workflow: string, participantId: string): Promise<void> {
+  public async deleteThread(workflow: string, participantId: string, options: OperationOptions = {}): Promise<void> {
     if (!this.connection || this.connectionState !== ConnectionState.Connected) {
-      throw new Error('Connection is not established');
+      throw notConnectedError();
     }
+    throwIfAborted(options.signal);
 
     try {
       if (this.options.logger) {
         this.options.logger('debug', 'Deleting thread', { workflow, participantId, tenantId: this.options.tenantId });
       }
 
-      await this.connection.invoke('DeleteThread', workflow, participantId);
+      await abortable(this.invoke(this.connection, 'DeleteThread', workflow, participantId), options.signal);
       
       if (this.options.logger) {
         this.options.logger('info', 'Thread deleted successfully', { workflow, participantId });
       }
     } catch (error) {
+      if (options.signal?.aborted) {
+        throw abortError(options.signal);
+      }
       if (this.options.logger) {
         this.options.logger('error', 'Failed to delete thread', error);
       }
-      throw error;
+      throw this.toInvokeError(error);
     }
   }
 
 
   /**
    * Subscribes to agent notifications for a workflow
+   * The subscription is remembered and joined again after every reconnect. Handlers in
+   * `options` receive only this workflow's messages (and only `scope`'s, when given), in
+   * addition to the global event handlers. Subscribing again replaces the handlers
    */
-  public async subscribeToAgent(workflow: string, participantId: string): Promise<void> {
+  public async subscribeToAgent(workflow: string, participantId: string, options: SubscribeOptions = {}): Promise<void> {
     if (!this.connection || this.connectionState !== ConnectionState.Connected) {
-      throw new Error('Connection is not established');
+      throw notConnectedError();
     }
+    throwIfAborted(options.signal);
 
     try {
       // Log expected group name for debugging
@@ -683,25 +1413,55 @@ export class SocketSDK {
         });
       }
 
-      await this.connection.invoke('SubscribeToAgent', workflow, participantId, this.options.tenantId);
+      await abortable(this.invoke(this.connection, 'SubscribeToAgent', workflow, participantId, this.options.tenantId), options.signal);
+
+      const { signal, scope, ...handlers } = options;
+      this.subscriptions.set(Conversation.keyOf({ workflow, participantId, scope }), {
+        workflow,
+        participantId,
+        scope,
+        handlers
+      });
       
       if (this.options.logger) {
         this.options.logger('info', '✅ Successfully subscribed to agent group');
       }
     } catch (error) {
+      if (options.signal?.aborted) {
+        throw abortError(options.signal);
+      }
       if (this.options.logger) {
         this.options.logger('error', '❌ Failed to subscribe to agent', error);
       }
-      throw error;
+      throw this.toInvokeError(error);
     }
   }
 
   /**
    * Unsubscribes from agent notifications for a workflow
+   * The subscription is forgotten right away, even if the server call fails. The agent group
+   * is only left once no scope of the workflow and participant is subscribed any more. While
+   * disconnected the call resolves without contacting the server
    */
-  public async unsubscribeFromAgent(workflow: string, participantId: string): Promise<void> {
+  public async unsubscribeFromAgent(workflow: string, participantId: string, options: UnsubscribeOptions = {}): Promise<void> {
+    throwIfAborted(options.signal);
+    for (const [key, subscription] of this.subscriptions) {
+      if (subscription.workflow === workflow && subscription.participantId === participantId &&
+          (options.scope === undefined || subscription.scope === options.scope)) {
+        this.subscriptions.delete(key);
+      }
+    }
+    if ([...this.subscriptions.values()].some(s => s.workflow === workflow && s.participantId === participantId)) {
+      return;
+    }
+
+    // Without a connection there is no group membership left to drop, and the
+    // forgotten subscription is no longer joined again on reconnect
     if (!this.connection || this.connectionState !== ConnectionState.Connected) {
-      throw new Error('Connection is not established');
+      if (this.options.logger) {
+        this.options.logger('debug', 'Not connected, subscription dropped locally', { workflow, participantId });
+      }
+      return;
     }
 
     try {
@@ -709,13 +1469,69 @@ export class SocketSDK {
         this.options.logger('debug', 'Unsubscribing from agent', { workflow, participantId, tenantId: this.options.tenantId });
       }
 
-      await this.connection.invoke('UnsubscribeFromAgent', workflow, participantId, this.options.tenantId);
+      await abortable(this.invoke(this.connection, 'UnsubscribeFromAgent', workflow, participantId, this.options.tenantId), options.signal);
     } catch (error) {
+      if (options.signal?.aborted) {
+        throw abortError(options.signal);
+      }
       if (this.options.logger) {
         this.options.logger('error', 'Failed to unsubscribe from agent', error);
       }
-      throw error;
+      throw this.toInvokeError(error);
+    }
+  }
+
+  /**
+   * Gets the subscriptions that are replayed after a reconnect
+   */
+  public getSubscriptions(): AgentSubscription[] {
+    return [...this.subscriptions.values()].map(({ workflow, participantId, scope }) => ({ workflow, participantId, scope }));
+  }
+
+  /**
+   * Joins every tracked agent group again, once per workflow and participant
+   */
+  private resubscribe(): void {
+    const connection = this.connection;
+    if (!connection || this.subscriptions.size === 0) {
+      return;
     }
+
+    const groups = new Map<string, AgentSubscription>();
+    this.subscriptions.forEach(s => groups.set(Conversation.keyOf({ workflow: s.workflow, participantId: s.participantId }), s));
+
+    if (this.options.logger) {
+      this.options.logger('info', 'Restoring agent subscriptions', { count: groups.size });
+    }
+
+    groups.forEach(({ workflow, participantId }) => {
+      this.invoke(connection, 'SubscribeToAgent', workflow, participantId, this.options.tenantId).catch(error => {
+        if (this.options.logger) {
+          this.options.logger('error', 'Failed to restore agent subscription', { workflow, participantId, error });
+        }
+        const details = this.toInvokeError(error);
+        this.eventHandlers.onError?.(`Failed to resubscribe to ${workflow}: ${details.message}`, details);
+        this.dispatcher.emit('error', details);
+      });
+    });
+  }
+
+  /**
+   * Passes an agent message to the handlers of every subscription it belongs to
+   */
+  private routeToSubscriptions(message: Message, handler: keyof SubscriptionHandlers): void {
+    this.subscriptions.forEach(subscription => {
+      if (!isThreadMessage(message, subscription.workflow, subscription.participantId)) return;
+      if (subscription.scope !== undefined && message.scope !== subscription.scope) return;
+
+      try {
+        subscription.handlers[handler]?.(message);
+      } catch (error) {
+        if (this.options.logger) {
+          this.options.logger('error', `Error in subscription ${handler} handler`, error);
+        }
+      }
+    });
   }
 
   /**
@@ -725,6 +1541,88 @@ export class SocketSDK {
     this.eventHandlers = { ...this.eventHandlers, ...handlers };
   }
 
+  /**
+   * Adds a listener and returns a function that removes it
+   * Unlike eventHandlers, any number of listeners can be registered per event
+   */
+  public on<K extends keyof SocketEventMap>(event: K, listener: (data: SocketEventMap[K]) => void): EventDisposer {
+    return this.dispatcher.on(event, listener);
+  }
+
+  /**
+   * Removes a listener added with `on`
+   */
+  public off<K extends keyof SocketEventMap>(event: K, listener: (data: SocketEventMap[K]) => void): void {
+    this.dispatcher.off(event, listener);
+  }
+
+  /**
+   * Adds a one-time listener, or without a listener resolves with the next event
+   */
+  public once<K extends keyof SocketEventMap>(event: K): Promise<SocketEventMap[K]>;
+  public once<K extends keyof SocketEventMap>(event: K, listener: (data: SocketEventMap[K]) => void): EventDisposer;
+  public once<K extends keyof SocketEventMap>(
+    event: K,
+    listener?: (data: SocketEventMap[K]) => void
+  ): Promise<SocketEventMap[K]> | EventDisposer {
+    return listener ? this.dispatcher.once(event, listener) : this.dispatcher.once(event);
+  }
+
+  /**
+   * Resolves with the next event that passes `predicate`
+   * Rejects with XiansTimeoutError when `timeout` (ms) passes first, and with
+   * XiansDisposedError when the SDK is disposed while waiting
+   */
+  public waitFor<K extends keyof SocketEventMap>(
+    event: K,
+    predicate?: (data: SocketEventMap[K]) => boolean,
+    timeout?: number
+  ): Promise<SocketEventMap[K]> {
+    return this.dispatcher.waitFor(event, predicate, timeout);
+  }
+
+  /**
+   * Gets a snapshot of the connection metrics: hub call latency per method, time to the
+   * first agent reply, reconnects with their downtime, and message throughput
+   */
+  public getMetrics(): ConnectionMetricsSnapshot {
+    return this.metrics.snapshot();
+  }
+
+  /**
+   * Starts collecting metrics from scratch
+   */
+  public resetMetrics(): void {
+    this.metrics.reset();
+  }
+
+  /**
+   * Reports metrics every `metricsInterval` ms, also during outages so downtime shows up
+   */
+  private startMetricsTimer(): void {
+    if (!this.options.metricsInterval || this.metricsTimer) {
+      return;
+    }
+    this.metricsTimer = setInterval(() => {
+      const snapshot = this.metrics.snapshot();
+      try {
+        this.eventHandlers.onMetrics?.(snapshot);
+      } catch (error) {
+        if (this.options.logger) {
+          this.options.logger('error', 'Error in onMetrics handler', error);
+        }
+      }
+      this.dispatcher.emit('metrics', snapshot);
+    }, this.options.metricsInterval);
+  }
+
+  private stopMetricsTimer(): void {
+    if (this.metricsTimer) {
+      clearInterval(this.metricsTimer);
+      this.metricsTimer = null;
+    }
+  }
+
   /**
    * Gets the current connection state
    */
@@ -751,11 +1649,22 @@ export class SocketSDK {
    * When both API key and JWT methods are provided, JWT takes precedence
    */
   public getAuthType(): AuthType {
-    if (this.options.getJwtToken) return 'jwtCallback';
+    if (this.tokenProvider) return 'jwtCallback';
     if (this.options.jwtToken) return 'jwtToken';
     return 'apiKey';
   }
 
+  /**
+   * Swaps the token provider, stopping the old one's refresh timer unless it was passed in by the caller
+   */
+  private replaceTokenProvider(provider: TokenProvider | null): void {
+    if (this.tokenProvider && this.tokenProvider !== this.options.tokenProvider) {
+      this.tokenProvider.dispose();
+    }
+    this.options.tokenProvider = undefined;
+    this.tokenProvider = provider;
+  }
+
   /**
    * Updates the API key (switches to API key authentication)
    */
@@ -766,6 +1675,7 @@ export class SocketSDK {
     this.options.apiKey = apiKey;
     this.options.jwtToken = undefined;
     this.options.getJwtToken = undefined;
+    this.replaceTokenProvider(null);
     
     // Recreate connection with new auth
     this.recreateConnection();
@@ -781,6 +1691,7 @@ export class SocketSDK {
     this.options.jwtToken = jwtToken;
     this.options.apiKey = undefined;
     this.options.getJwtToken = undefined;
+    this.replaceTokenProvider(null);
     
     // Recreate connection with new auth
     this.recreateConnection();
@@ -796,6 +1707,11 @@ export class SocketSDK {
     this.options.getJwtToken = getJwtToken;
     this.options.apiKey = undefined;
     this.options.jwtToken = undefined;
+    this.replaceTokenProvider(resolveTokenProvider({
+      getJwtToken,
+      tokenRefreshMargin: this.options.tokenRefreshMargin,
+      logger: this.options.logger
+    }));
     
     // Recreate connection with new auth
     this.recreateConnection();
@@ -829,6 +1745,11 @@ export class SocketSDK {
    */
   public async dispose(): Promise<void> {
     this.isDisposed = true;
+    this.stopMetricsTimer();
+    
+    this.pendingRequests.forEach(pending => pending.settle(new XiansDisposedError()));
+    this.pendingHistory?.settle(new XiansDisposedError());
+    this.subscriptions.clear();
     
     if (this.connection) {
       await this.disconnect();
@@ -836,6 +1757,8 @@ export class SocketSDK {
     }
     
     this.eventHandlers = {};
+    this.dispatcher.clear(undefined, new XiansDisposedError());
+    this.replaceTokenProvider(null);
     
     if (this.options.logger) {
       this.options.logger('info', 'BotSocketSDK disposed');
@@ -944,8 +1867,17 @@ export class SocketSDK {
  *   data: { priority: 'high' }
  * }, MessageType.Chat);
  * 
+ * // Send a message and wait for the agent's reply
+ * const replies = await chatSocketSDKWithCallback.request({
+ *   participantId: 'user-123',
+ *   workflow: 'customer-support',
+ *   type: 'Chat',
+ *   text: 'What is my order status?'
+ * }, MessageType.Chat, { timeout: 30000 });
+ * console.log('Agent replied:', replies.map(m => m.text));
+ * 
  * // Get thread history
- * await chatSocketSDKWithCallback.getThreadHistory('customer-support', 'user-123', 0, 20);
+ * const history = await chatSocketSDKWithCallback.getThreadHistory('customer-support', 'user-123', 0, 20);
  * 
  * // Get thread history with scope
  * await chatSocketSDKWithCallback.getThreadHistory('customer-support', 'user-123', 0, 20, 'support');
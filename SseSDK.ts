@@ -9,11 +9,27 @@ import {
   ConnectionState,
   SDK_DEFAULTS,
   BaseEventHandlers,
-  BaseConnectionParams
+  BaseConnectionParams,
+  OperationOptions
 } from './types';
+import { TokenProvider, resolveTokenProvider } from './core/TokenProvider';
+import { RetryPolicy, FixedRetryPolicy } from './core/RetryPolicy';
+import {
+  XiansError,
+  XiansAuthError,
+  XiansDisposedError,
+  XiansNetworkError,
+  XiansProtocolError,
+  toXiansError
+} from './core/errors';
+import { throwIfAborted } from './core/abort';
+import { Conversation } from './core/Conversation';
+import { EventDispatcher, EventDisposer } from './core/EventDispatcher';
+import { Span, SpanKind, SpanStatusCode, failSpan, traceHeaders } from './core/tracing';
+import { Middleware, MiddlewarePipeline, resolveMiddleware } from './core/middleware';
 
 // Import EventSource polyfill for Node.js environments
-let EventSourceImpl: typeof EventSource;
+let EventSourceImpl: typeof EventSource | undefined;
 if (typeof globalThis !== 'undefined' && globalThis.EventSource) {
   // Use native EventSource (browser environment)
   EventSourceImpl = globalThis.EventSource;
@@ -26,7 +42,8 @@ if (typeof globalThis !== 'undefined' && globalThis.EventSource) {
     const EventSourcePolyfill = require('eventsource');
     EventSourceImpl = EventSourcePolyfill.EventSource;
   } catch (e) {
-    throw new Error('EventSource is not available and polyfill could not be loaded. Install "eventsource" package for Node.js support.');
+    // Reported when a stream is opened, so a replayed session works without one
+    EventSourceImpl = undefined;
   }
 }
 
@@ -46,6 +63,11 @@ export interface SseEvent {
   data: any;
   id?: string;
   retry?: number;
+
+  /**
+   * Key of the stream the event came from
+   */
+  stream?: string;
 }
 
 /**
@@ -72,6 +94,7 @@ export interface SseErrorEvent extends SseEvent {
   data: {
     error: string;
     code?: string;
+    exception?: XiansError;
     timestamp: string;
   };
 }
@@ -87,16 +110,77 @@ export interface SseConnectionEvent extends SseEvent {
   };
 }
 
+/**
+ * Emitted when a stream missed too many heartbeats and is being reconnected
+ */
+export interface SseStaleEvent extends SseEvent {
+  type: 'stale';
+  data: {
+    timestamp: string;
+    missedHeartbeats: number;
+    lastHeartbeatAt: string | null;
+  };
+}
+
+/**
+ * Heartbeat statistics of one stream, from SseSDK.getHeartbeatStats
+ */
+export interface SseHeartbeatStats {
+  /**
+   * When the last heartbeat arrived (client clock)
+   */
+  lastSeenAt: Date | null;
+
+  /**
+   * Heartbeats received since the stream was opened
+   */
+  count: number;
+
+  /**
+   * Arrival time minus the server timestamp of the last heartbeat. Includes any clock difference
+   */
+  latencyMs: number | null;
+
+  /**
+   * Change in latencyMs since the first heartbeat of the current connection, which cancels out the clock difference
+   */
+  latencyDriftMs: number | null;
+
+  /**
+   * Recent subscriber counts, oldest first
+   */
+  subscriberCounts: HeartbeatData[];
+
+  /**
+   * Times the stream was reconnected because heartbeats stopped
+   */
+  staleCount: number;
+}
+
 /**
  * Union type for all SSE events
  */
-export type SseAnyEvent = SseMessageEvent | SseHeartbeatEvent | SseErrorEvent | SseConnectionEvent | SseEvent;
+export type SseAnyEvent = SseMessageEvent | SseHeartbeatEvent | SseErrorEvent | SseConnectionEvent | SseStaleEvent | SseEvent;
 
 /**
  * Event handler type
  */
 export type SseEventHandler<T extends SseEvent = SseAnyEvent> = (event: T) => void;
 
+/**
+ * Events emitted through SseSDK.on, by name. Other event names the server sends carry a plain SseEvent
+ */
+export interface SseEventMap {
+  message: SseMessageEvent;
+  heartbeat: SseHeartbeatEvent;
+  error: SseErrorEvent;
+  connected: SseConnectionEvent;
+  disconnected: SseConnectionEvent;
+  reconnecting: SseConnectionEvent;
+  stale: SseStaleEvent;
+  [eventType: string]: SseEvent;
+}
+
 /**
  * Event handlers interface for SSE SDK (extends base handlers)
  */
@@ -105,6 +189,11 @@ export interface SseEventHandlers extends BaseEventHandlers {
    * Called when a heartbeat event is received (SSE-specific)
    */
   onHeartbeat?: (data: HeartbeatData) => void;
+
+  /**
+   * Called when heartbeats stopped arriving and the stream is about to reconnect (SSE-specific)
+   */
+  onStale?: (missedHeartbeats: number) => void;
 }
 
 /**
@@ -117,6 +206,31 @@ export interface SseConnectionParams extends BaseConnectionParams {
   heartbeatSeconds?: number;
 }
 
+/**
+ * Options for SseSDK.openStream
+ */
+export interface SseStreamOptions extends OperationOptions {
+  /**
+   * Key of the stream (default: `workflow|participantId|scope`)
+   */
+  name?: string;
+
+  /**
+   * Handlers for this stream only. The SDK-wide eventHandlers still receive every stream's events
+   */
+  handlers?: SseEventHandlers;
+}
+
+/**
+ * Snapshot of one stream, as returned by SseSDK.getStreams
+ */
+export interface SseStreamInfo {
+  key: string;
+  params: SseConnectionParams;
+  state: ConnectionState;
+  lastEventId: string | null;
+}
+
 /**
  * Configuration options for the SSE SDK
  * 
@@ -131,12 +245,12 @@ export interface SseConnectionParams extends BaseConnectionParams {
  */
 export interface SseSDKOptions extends BaseSDKOptions {
   /**
-   * Reconnection attempts before giving up (default: 5)
+   * Reconnection attempts before giving up (default: 5). Ignored when retryPolicy is set
    */
   maxReconnectAttempts?: number;
   
   /**
-   * Delay between reconnection attempts in milliseconds (default: 5000)
+   * Delay between reconnection attempts in milliseconds (default: 5000). Ignored when retryPolicy is set
    */
   reconnectDelay?: number;
   
@@ -150,13 +264,57 @@ export interface SseSDKOptions extends BaseSDKOptions {
    */
   autoReconnect?: boolean;
   
+  /**
+   * Whether to resume from the last seen event id after a reconnect (default: true)
+   * The id is sent as a Last-Event-ID header where supported and as a lastEventId query parameter
+   */
+  resumeFromLastEventId?: boolean;
+  
+  /**
+   * Missed heartbeats after which a stream counts as dead and is reconnected (default: 3)
+   * Only applies to streams opened with heartbeatSeconds. Set to 0 to turn the check off
+   */
+  maxMissedHeartbeats?: number;
+  
   /**
    * Event handlers for SSE communication
    */
   eventHandlers?: SseEventHandlers;
 }
 
+/**
+ * Number of recent message ids remembered to drop messages replayed after a resume
+ */
+const MAX_SEEN_MESSAGE_IDS = 500;
 
+/**
+ * Number of subscriber counts kept in the heartbeat statistics
+ */
+const MAX_HEARTBEAT_HISTORY = 50;
+
+/**
+ * Key of the stream opened by connect()
+ */
+const DEFAULT_STREAM_KEY = 'default';
+
+/**
+ * State of one named stream
+ */
+interface SseStream {
+  key: string;
+  params: SseConnectionParams;
+  handlers: SseEventHandlers;
+  eventSource: EventSource | null;
+  state: ConnectionState;
+  lastEventId: string | null;
+  seenMessageIds: Set<string>;
+  releaseSignal: (() => void) | null;
+  heartbeat: SseHeartbeatStats;
+  latencyBaseline: number | null;
+  watchdog: NodeJS.Timeout | null;
+  connectSpan: Span | undefined;
+  reconnectAttempts: number;
+}
 
 /**
  * SSE SDK class for real-time Server-Sent Events communication
@@ -168,24 +326,29 @@ export interface SseSDKOptions extends BaseSDKOptions {
  * 
  * For JWT authentication, the SDK attempts to use Authorization headers where supported,
  * and falls back to query parameters when custom headers aren't available.
+ *
+ * One instance can hold several named streams (see openStream). Streams share the
+ * authentication and the reconnect timer; each keeps its own state, handlers, resume
+ * position and reconnect attempt count.
  */
 export class SseSDK {
   private options: SseSDKOptions;
-  private eventSource: EventSource | null = null;
-  private connectionState: ConnectionState = ConnectionState.Disconnected;
-  private eventHandlers: Map<string, Set<SseEventHandler>> = new Map();
+  private streams: Map<string, SseStream> = new Map();
+  private dispatcher: EventDispatcher<SseEventMap>;
   private sseEventHandlers: SseEventHandlers = {};
-  private reconnectAttempts: number = 0;
-  private connectionParams: SseConnectionParams | null = null;
+  private retryPolicy: RetryPolicy;
+  private tokenProvider: TokenProvider | null;
+  private middleware: MiddlewarePipeline;
   private isDisposed: boolean = false;
   private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectQueue: Set<SseStream> = new Set();
 
   constructor(options: SseSDKOptions) {
     // Validate required fields
     if (!options.tenantId) {
       throw new Error('tenantId is required');
     }
-    if (!options.apiKey && !options.getJwtToken && !options.jwtToken) {
+    if (!options.apiKey && !options.getJwtToken && !options.jwtToken && !options.tokenProvider) {
       throw new Error('Either apiKey, jwtToken, or getJwtToken callback is required');
     }
     if (!options.serverUrl) {
@@ -198,42 +361,53 @@ export class SseSDK {
       reconnectDelay: SDK_DEFAULTS.reconnectDelay,
       connectionTimeout: SDK_DEFAULTS.connectionTimeout,
       autoReconnect: SDK_DEFAULTS.autoReconnect,
+      resumeFromLastEventId: true,
+      maxMissedHeartbeats: 3,
       ...options
     };
 
     // Store event handlers (consistent with SocketSDK)
     this.sseEventHandlers = options.eventHandlers || {};
+    this.retryPolicy = this.options.retryPolicy
+      || new FixedRetryPolicy(this.options.reconnectDelay!, this.options.maxReconnectAttempts!);
+    this.tokenProvider = resolveTokenProvider(this.options);
+    this.middleware = resolveMiddleware(this.options.middleware);
+    this.dispatcher = new EventDispatcher<SseEventMap>((eventType, error) => {
+      if (this.options.logger) {
+        this.options.logger('error', `Error in event handler for ${String(eventType)}`, error);
+      }
+    });
+  }
 
-    // Initialize legacy event handler sets for backward compatibility
-    this.eventHandlers.set('message', new Set());
-    this.eventHandlers.set('error', new Set());
-    this.eventHandlers.set('connected', new Set());
-    this.eventHandlers.set('disconnected', new Set());
-    this.eventHandlers.set('reconnecting', new Set());
-    this.eventHandlers.set('heartbeat', new Set());
+  /**
+   * Adds middleware for incoming agent messages. Returns a function that removes it
+   */
+  public use(middleware: Middleware): () => void {
+    return this.middleware.use(middleware);
   }
 
+
   /**
    * Gets the authentication token based on the configured method
    * When both API key and JWT methods are provided, JWT takes precedence
    */
   private async getAuthToken(): Promise<string> {
     // Prioritize JWT methods when available
-    if (this.options.getJwtToken) {
+    if (this.tokenProvider) {
       try {
-        return await this.options.getJwtToken();
+        return await this.tokenProvider.getToken();
       } catch (error) {
         if (this.options.logger) {
           this.options.logger('error', 'Failed to get JWT token', error);
         }
-        throw new Error(`Failed to get JWT token: ${error}`);
+        throw error;
       }
     } else if (this.options.jwtToken) {
       return this.options.jwtToken;
     } else if (this.options.apiKey) {
       return this.options.apiKey;
     } else {
-      throw new Error('No authentication method available');
+      throw new XiansAuthError('No authentication method available');
     }
   }
 
@@ -242,19 +416,19 @@ export class SseSDK {
    * @returns JWT token
    */
   private async getJwtToken(): Promise<string> {
-    if (this.options.getJwtToken) {
+    if (this.tokenProvider) {
       try {
-        return await this.options.getJwtToken();
+        return await this.tokenProvider.getToken();
       } catch (error) {
         if (this.options.logger) {
           this.options.logger('error', 'Failed to get JWT token', error);
         }
-        throw new Error(`Failed to get JWT token: ${error}`);
+        throw error;
       }
     } else if (this.options.jwtToken) {
       return this.options.jwtToken;
     } else {
-      throw new Error('No JWT token available');
+      throw new XiansAuthError('No JWT token available');
     }
   }
 
@@ -262,7 +436,8 @@ export class SseSDK {
    * Builds the SSE endpoint URL with authentication
    * Can use both API key and JWT simultaneously when both are provided
    */
-  private async buildSseUrl(params: SseConnectionParams): Promise<string> {
+  private async buildSseUrl(stream: SseStream): Promise<string> {
+    const params = stream.params;
     const url = new URL(`${this.options.serverUrl}/api/user/sse/events`);
     
     // Always add required parameters
@@ -278,6 +453,11 @@ export class SseSDK {
       url.searchParams.set('heartbeatSeconds', params.heartbeatSeconds.toString());
     }
 
+    // Query parameter fallback for resuming, since browsers do not let EventSource set headers
+    if (this.options.resumeFromLastEventId && stream.lastEventId) {
+      url.searchParams.set('lastEventId', stream.lastEventId);
+    }
+
     // Add API key authentication if available
     if (this.options.apiKey) {
       // For API key authentication: add apikey to query params
@@ -285,7 +465,7 @@ export class SseSDK {
     }
 
     // JWT authentication will be handled in attemptConnection method via EventSource headers
-    if (this.options.getJwtToken || this.options.jwtToken) {
+    if (this.tokenProvider || this.options.jwtToken) {
       if (this.options.logger) {
         this.options.logger('debug', 'JWT authentication will be handled via EventSource headers where supported');
       }
@@ -296,42 +476,200 @@ export class SseSDK {
 
   /**
    * Connects to the SSE stream
+   * Aborting the signal, during or after connecting, closes the stream and stops reconnecting
    */
-  public async connect(params: SseConnectionParams): Promise<void> {
+  public async connect(params: SseConnectionParams, options: OperationOptions = {}): Promise<void> {
+    await this.openStream(params, { ...options, name: DEFAULT_STREAM_KEY });
+  }
+
+  /**
+   * Opens a named stream next to any others and returns its key
+   * Opening a key that is already connected only replaces its handlers, when given
+   */
+  public async openStream(params: SseConnectionParams, options: SseStreamOptions = {}): Promise<string> {
     if (this.isDisposed) {
-      throw new Error('SDK has been disposed');
+      throw new XiansDisposedError();
+    }
+    if (!params.workflow) {
+      throw new Error('workflow is required');
+    }
+    if (!params.participantId) {
+      throw new Error('participantId is required');
     }
+    throwIfAborted(options.signal);
 
-    if (this.connectionState === ConnectionState.Connected || 
-        this.connectionState === ConnectionState.Connecting) {
+    const key = options.name || Conversation.keyOf(params);
+    let stream = this.streams.get(key);
+
+    if (stream && (stream.state === ConnectionState.Connected || stream.state === ConnectionState.Connecting)) {
+      if (options.handlers) {
+        stream.handlers = options.handlers;
+      }
       if (this.options.logger) {
-        this.options.logger('warn', 'Already connected or connecting to SSE stream');
+        this.options.logger('warn', 'Already connected or connecting to SSE stream', { stream: key });
       }
+      return key;
+    }
+
+    if (!stream) {
+      stream = {
+        key,
+        params,
+        handlers: {},
+        eventSource: null,
+        state: ConnectionState.Disconnected,
+        lastEventId: null,
+        seenMessageIds: new Set(),
+        releaseSignal: null,
+        heartbeat: {
+          lastSeenAt: null,
+          count: 0,
+          latencyMs: null,
+          latencyDriftMs: null,
+          subscriberCounts: [],
+          staleCount: 0
+        },
+        latencyBaseline: null,
+        reconnectAttempts: 0,
+        watchdog: null,
+        connectSpan: undefined
+      };
+      this.streams.set(key, stream);
+    } else if (!this.isSameStream(stream.params, params)) {
+      // A different stream has its own event ids, so resuming from the old one would skip messages
+      stream.lastEventId = null;
+      stream.seenMessageIds.clear();
+    }
+
+    stream.params = params;
+    if (options.handlers) {
+      stream.handlers = options.handlers;
+    }
+    this.bindSignal(stream, options.signal);
+    // Opening a stream again gives it a fresh set of reconnect attempts
+    stream.reconnectAttempts = 0;
+    await this.attemptConnection(stream);
+    throwIfAborted(options.signal);
+    return key;
+  }
+
+  /**
+   * Closes a stream and forgets it, including its resume position
+   */
+  public closeStream(key: string): void {
+    const stream = this.streams.get(key);
+    if (!stream) {
+      return;
+    }
+    this.stopStream(stream);
+    this.streams.delete(key);
+  }
+
+  /**
+   * Lists the streams this instance holds
+   */
+  public getStreams(): SseStreamInfo[] {
+    return [...this.streams.values()].map(stream => ({
+      key: stream.key,
+      params: stream.params,
+      state: stream.state,
+      lastEventId: stream.lastEventId
+    }));
+  }
+
+  /**
+   * Ties a stream to the caller's signal, replacing the signal of a previous open
+   */
+  private bindSignal(stream: SseStream, signal?: AbortSignal): void {
+    stream.releaseSignal?.();
+    stream.releaseSignal = null;
+    if (!signal) {
       return;
     }
 
-    this.connectionParams = params;
-    await this.attemptConnection();
+    const onAbort = () => this.stopStream(stream);
+    signal.addEventListener('abort', onAbort, { once: true });
+    stream.releaseSignal = () => signal.removeEventListener('abort', onAbort);
+  }
+
+  /**
+   * Checks whether two sets of connection parameters address the same stream
+   */
+  private isSameStream(a: SseConnectionParams | null, b: SseConnectionParams): boolean {
+    return !!a &&
+      a.workflow === b.workflow &&
+      a.participantId === b.participantId &&
+      a.scope === b.scope;
   }
 
   /**
-   * Attempts to establish SSE connection
+   * Headers sent with the EventSource request where the implementation supports them:
+   * the resume position and the trace context of the connection attempt
    */
-  private async attemptConnection(): Promise<void> {
-    if (!this.connectionParams) {
-      throw new Error('No connection parameters set');
+  private buildRequestHeaders(stream: SseStream): Record<string, string> {
+    const headers = traceHeaders(stream.connectSpan);
+    if (this.options.resumeFromLastEventId && stream.lastEventId) {
+      headers['Last-Event-ID'] = stream.lastEventId;
     }
+    return headers;
+  }
+
+  /**
+   * Creates the EventSource of a stream, through the traffic interceptor when one is set
+   */
+  private createEventSource(url: string, init?: { headers: Record<string, string> }): EventSource {
+    const open = (): EventSource => {
+      if (!EventSourceImpl) {
+        throw new Error('EventSource is not available and polyfill could not be loaded. Install "eventsource" package for Node.js support.');
+      }
+      return init ? new (EventSourceImpl as any)(url, init) : new EventSourceImpl(url);
+    };
+    return this.options.traffic ? this.options.traffic.eventSource(url, open) : open();
+  }
 
+  /**
+   * Ends the span of the current connection attempt, marking it failed when `reason` is given
+   */
+  private endConnectSpan(stream: SseStream, status?: { reason: string } | 'ok'): void {
+    const span = stream.connectSpan;
+    if (!span) {
+      return;
+    }
+    if (status === 'ok') {
+      span.setStatus({ code: SpanStatusCode.OK });
+    } else if (status) {
+      failSpan(span, status.reason);
+    }
+    span.end();
+    stream.connectSpan = undefined;
+  }
+
+  /**
+   * Attempts to establish the SSE connection of one stream
+   */
+  private async attemptConnection(stream: SseStream): Promise<void> {
     try {
-      this.setConnectionState(ConnectionState.Connecting);
+      this.setConnectionState(stream, ConnectionState.Connecting);
+      this.endConnectSpan(stream);
+      stream.connectSpan = this.options.tracer?.startSpan('xians.sse.connect', {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          'xians.stream': stream.key,
+          'xians.workflow': stream.params.workflow,
+          'xians.participant_id': stream.params.participantId,
+          'xians.scope': stream.params.scope,
+          'xians.reconnect_attempt': stream.reconnectAttempts
+        }
+      });
       
-      const url = await this.buildSseUrl(this.connectionParams);
+      const url = await this.buildSseUrl(stream);
       
       if (this.options.logger) {
         this.options.logger('debug', `Connecting to SSE stream: ${url.split('?')[0]}`, {
-          workflow: this.connectionParams.workflow,
-          participantId: this.connectionParams.participantId,
-          scope: this.connectionParams.scope,
+          stream: stream.key,
+          workflow: stream.params.workflow,
+          participantId: stream.params.participantId,
+          scope: stream.params.scope,
           authMethod: this.getAuthType()
         });
       }
@@ -340,22 +678,28 @@ export class SseSDK {
       let eventSource: EventSource;
       
       // Create EventSource based on available authentication methods
-      if (this.options.getJwtToken || this.options.jwtToken) {
+      if (this.tokenProvider || this.options.jwtToken) {
         // For JWT authentication, try to use EventSource with custom headers
         // Note: This may not work in all browsers - EventSource spec doesn't support custom headers
         // But some modern environments (Node.js, some browsers) do support it
         const jwtToken = await this.getJwtToken();
+
+        // The stream may have been closed while the token was fetched
+        if (stream.state !== ConnectionState.Connecting || this.streams.get(stream.key) !== stream) {
+          return;
+        }
         
         try {
           // Try to create EventSource with headers (modern browsers/Node.js)
           const eventSourceConfig = {
             headers: {
+              ...this.buildRequestHeaders(stream),
               'Authorization': `Bearer ${jwtToken}`
             }
           };
           
           // Some EventSource polyfills or Node.js implementations support this
-          eventSource = new (EventSourceImpl as any)(url, eventSourceConfig);
+          eventSource = this.createEventSource(url, eventSourceConfig);
           
           if (this.options.logger) {
             this.options.logger('debug', 'Created EventSource with Authorization header', {
@@ -371,7 +715,7 @@ export class SseSDK {
           // Fallback: Add token as query parameter for environments that don't support headers
           const urlWithToken = new URL(url);
           urlWithToken.searchParams.set('access_token', jwtToken);
-          eventSource = new EventSourceImpl(urlWithToken.toString());
+          eventSource = this.createEventSource(urlWithToken.toString());
           
           if (this.options.logger) {
             this.options.logger('debug', 'Created EventSource with access_token query parameter', {
@@ -382,53 +726,53 @@ export class SseSDK {
         }
       } else {
         // For API key only authentication, use standard EventSource (token is in URL query params)
-        eventSource = new EventSourceImpl(url);
+        const requestHeaders = this.buildRequestHeaders(stream);
+        eventSource = Object.keys(requestHeaders).length > 0
+          ? this.createEventSource(url, { headers: requestHeaders })
+          : this.createEventSource(url);
         
         if (this.options.logger) {
-          this.options.logger('debug', 'Created EventSource with API key authentication in query params');
+          this.options.logger('debug', 'Created EventSource with API key authentication in query params', {
+            lastEventId: stream.lastEventId
+          });
         }
       }
       
-      this.eventSource = eventSource;
+      stream.eventSource = eventSource;
       
       // Set up connection timeout
       const connectionTimeout = setTimeout(() => {
-        if (this.connectionState === ConnectionState.Connecting) {
+        if (stream.eventSource === eventSource && stream.state === ConnectionState.Connecting) {
           if (this.options.logger) {
-            this.options.logger('error', 'SSE connection timeout');
+            this.options.logger('error', 'SSE connection timeout', { stream: stream.key });
           }
-          this.handleConnectionError('Connection timeout');
+          this.handleConnectionError(stream, 'Connection timeout');
         }
       }, this.options.connectionTimeout!);
 
-      this.eventSource.onopen = () => {
+      eventSource.onopen = () => {
         clearTimeout(connectionTimeout);
-        this.setConnectionState(ConnectionState.Connected);
-        this.reconnectAttempts = 0;
+        this.setConnectionState(stream, ConnectionState.Connected);
+        this.endConnectSpan(stream, 'ok');
+        stream.reconnectAttempts = 0;
+        stream.latencyBaseline = null;
+        this.resetWatchdog(stream);
         
         if (this.options.logger) {
-          this.options.logger('info', 'SSE connection established');
+          this.options.logger('info', 'SSE connection established', { stream: stream.key });
         }
         
-        // Call specific connected handler
-        if (this.sseEventHandlers.onConnected) {
-          try {
-            this.sseEventHandlers.onConnected();
-          } catch (error) {
-            if (this.options.logger) {
-              this.options.logger('error', 'Error in onConnected handler', error);
-            }
-          }
-        }
+        this.callHandler(stream, 'onConnected');
         
         this.emitEvent('connected', {
           type: 'connected',
+          stream: stream.key,
           data: { timestamp: new Date().toISOString() }
         });
       };
 
       // Handle the default message event (fallback)
-      this.eventSource.onmessage = (event) => {
+      eventSource.onmessage = (event) => {
         try {
           const data = JSON.parse(event.data);
           
@@ -441,31 +785,13 @@ export class SseSDK {
             });
           }
           
-          this.handleEventData('message', data, event.lastEventId);
+          this.handleEventData(stream, 'message', data, event.lastEventId);
         } catch (error) {
           if (this.options.logger) {
             this.options.logger('error', 'Failed to parse SSE message', error);
           }
           
-          // Call specific error handler
-          if (this.sseEventHandlers.onError) {
-            try {
-              this.sseEventHandlers.onError('Failed to parse message data');
-            } catch (handlerError) {
-              if (this.options.logger) {
-                this.options.logger('error', 'Error in onError handler', handlerError);
-              }
-            }
-          }
-          
-          this.emitEvent('error', {
-            type: 'error',
-            data: {
-              error: 'Failed to parse message data',
-              code: 'PARSE_ERROR',
-              timestamp: new Date().toISOString()
-            }
-          });
+          this.reportError(stream, new XiansProtocolError('Failed to parse message data', { code: 'PARSE_ERROR', cause: error }));
         }
       };
 
@@ -482,58 +808,53 @@ export class SseSDK {
             });
           }
           
-          this.handleEventData(eventType, data, event.lastEventId);
+          this.handleEventData(stream, eventType, data, event.lastEventId);
         } catch (error) {
           if (this.options.logger) {
             this.options.logger('error', `Failed to parse SSE ${eventType} event`, error);
           }
           
-          // Call specific error handler
-          if (this.sseEventHandlers.onError) {
-            try {
-              this.sseEventHandlers.onError(`Failed to parse ${eventType} event data`);
-            } catch (handlerError) {
-              if (this.options.logger) {
-                this.options.logger('error', 'Error in onError handler', handlerError);
-              }
-            }
-          }
-          
-          this.emitEvent('error', {
-            type: 'error',
-            data: {
-              error: `Failed to parse ${eventType} event data`,
-              code: 'PARSE_ERROR',
-              timestamp: new Date().toISOString()
-            }
-          });
+          this.reportError(stream, new XiansProtocolError(`Failed to parse ${eventType} event data`, { code: 'PARSE_ERROR', cause: error }));
         }
       };
 
       // Listen for specific SSE event types
-      this.eventSource.addEventListener('connected', handleNamedEvent('connected'));
-      this.eventSource.addEventListener('heartbeat', handleNamedEvent('heartbeat'));
-      this.eventSource.addEventListener('Chat', handleNamedEvent('Chat'));
-      this.eventSource.addEventListener('Data', handleNamedEvent('Data'));
-      this.eventSource.addEventListener('Handoff', handleNamedEvent('Handoff'));
+      eventSource.addEventListener('connected', handleNamedEvent('connected'));
+      eventSource.addEventListener('heartbeat', handleNamedEvent('heartbeat'));
+      eventSource.addEventListener('Chat', handleNamedEvent('Chat'));
+      eventSource.addEventListener('Data', handleNamedEvent('Data'));
+      eventSource.addEventListener('Handoff', handleNamedEvent('Handoff'));
 
-      this.eventSource.onerror = () => {
+      eventSource.onerror = (event) => {
         clearTimeout(connectionTimeout);
-        this.handleConnectionError('EventSource error');
+        if (stream.eventSource !== eventSource) {
+          return;
+        }
+        // The eventsource package reports the HTTP status; drop a rejected token so the reconnect fetches a new one
+        if ((event as any)?.code === 401 && this.tokenProvider) {
+          this.tokenProvider.invalidate();
+        }
+        this.handleConnectionError(stream, 'EventSource error');
       };
 
     } catch (error) {
       if (this.options.logger) {
         this.options.logger('error', 'Failed to establish SSE connection', error);
       }
-      this.handleConnectionError(error instanceof Error ? error.message : 'Unknown connection error');
+      this.handleConnectionError(stream, error instanceof Error ? error.message : 'Unknown connection error');
     }
   }
 
   /**
    * Handles event data based on event type and creates appropriate SSE event objects
    */
-  private handleEventData(eventType: string, data: any, eventId?: string): void {
+  private handleEventData(stream: SseStream, eventType: string, data: any, eventId?: string): void {
+    if (eventId) {
+      stream.lastEventId = eventId;
+    }
+    // Any event shows the connection is alive, not only heartbeats
+    this.resetWatchdog(stream);
+
     let sseEvent: SseAnyEvent;
 
     switch (eventType.toLowerCase()) {
@@ -601,136 +922,195 @@ export class SseSDK {
         }
         break;
     }
+    sseEvent.stream = stream.key;
 
-    // Emit the appropriate event
-    if (sseEvent.type === 'heartbeat') {
-      // Call specific heartbeat handler
-      if (this.sseEventHandlers.onHeartbeat) {
-        try {
-          this.sseEventHandlers.onHeartbeat((sseEvent as SseHeartbeatEvent).data);
-        } catch (error) {
+    // Drop messages already delivered before a reconnect
+    if (this.isReplayedMessage(stream, sseEvent)) {
+      if (this.options.logger) {
+        this.options.logger('debug', 'Dropping SSE message already seen before reconnect', {
+          messageId: (sseEvent as SseMessageEvent).data.id,
+          eventId
+        });
+      }
+      return;
+    }
+
+    if (sseEvent.type === 'Chat' || sseEvent.type === 'Data' || sseEvent.type === 'Handoff') {
+      const messageEvent = sseEvent as SseMessageEvent;
+      this.middleware.deliverInbound(
+        messageEvent.data,
+        { transport: 'sse', messageType: messageEvent.type },
+        message => this.dispatchEvent(stream, { ...messageEvent, data: message }),
+        error => {
           if (this.options.logger) {
-            this.options.logger('error', 'Error in onHeartbeat handler', error);
+            this.options.logger('error', 'Inbound middleware failed, message dropped', error);
           }
+          this.reportError(stream, toXiansError(error));
         }
-      }
+      );
+      return;
+    }
+    this.dispatchEvent(stream, sseEvent);
+  }
+
+  /**
+   * Passes an event to the stream's handlers and the SDK listeners
+   */
+  private dispatchEvent(stream: SseStream, sseEvent: SseAnyEvent): void {
+    if (sseEvent.type === 'heartbeat') {
+      this.recordHeartbeat(stream, (sseEvent as SseHeartbeatEvent).data);
+      this.callHandler(stream, 'onHeartbeat', (sseEvent as SseHeartbeatEvent).data);
       // Also emit legacy event for backward compatibility
-      this.emitEvent('heartbeat', sseEvent);
-    } else if (sseEvent.type === 'Chat') {
-      // Check if this is actually a handoff message sent through chat channel
+      this.emitEvent('heartbeat', sseEvent as SseHeartbeatEvent);
+    } else if (sseEvent.type === 'Chat' || sseEvent.type === 'Data') {
+      // Check if this is actually a handoff message sent through the chat or data channel
       const message = (sseEvent as SseMessageEvent).data;
       const isHandoffMessage = message.messageType === 'Handoff';
       
       if (isHandoffMessage) {
         if (this.options.logger) {
-          this.options.logger('info', '🔄 [SSE-ROUTING] Detected handoff message in chat event, routing to onReceiveHandoff', {
+          this.options.logger('info', `🔄 [SSE-ROUTING] Detected handoff message in ${sseEvent.type.toLowerCase()} event, routing to onReceiveHandoff`, {
             messageId: message.id,
             messageType: message.messageType,
             textPrefix: message.text ? message.text.substring(0, 20) : 'No text'
           });
         }
         // Route to handoff handler instead
-        if (this.sseEventHandlers.onReceiveHandoff) {
-          try {
-            this.sseEventHandlers.onReceiveHandoff(message);
-          } catch (error) {
-            if (this.options.logger) {
-              this.options.logger('error', 'Error in onReceiveHandoff handler', error);
-            }
-          }
-        }
+        this.callHandler(stream, 'onReceiveHandoff', message);
       } else {
-        // Call specific chat handler
-        if (this.sseEventHandlers.onReceiveChat) {
-          try {
-            this.sseEventHandlers.onReceiveChat(message);
-          } catch (error) {
-            if (this.options.logger) {
-              this.options.logger('error', 'Error in onReceiveChat handler', error);
-            }
-          }
-        }
+        this.callHandler(stream, sseEvent.type === 'Chat' ? 'onReceiveChat' : 'onReceiveData', message);
       }
       // Also emit legacy event for backward compatibility
-      this.emitEvent('message', sseEvent);
-    } else if (sseEvent.type === 'Data') {
-      // Check if this is actually a handoff message sent through data channel
-      const message = (sseEvent as SseMessageEvent).data;
-      const isHandoffMessage = message.messageType === 'Handoff';
-      
-      if (isHandoffMessage) {
-        if (this.options.logger) {
-          this.options.logger('info', '🔄 [SSE-ROUTING] Detected handoff message in data event, routing to onReceiveHandoff', {
-            messageId: message.id,
-            messageType: message.messageType,
-            textPrefix: message.text ? message.text.substring(0, 20) : 'No text'
-          });
-        }
-        // Route to handoff handler instead
-        if (this.sseEventHandlers.onReceiveHandoff) {
-          try {
-            this.sseEventHandlers.onReceiveHandoff(message);
-          } catch (error) {
-            if (this.options.logger) {
-              this.options.logger('error', 'Error in onReceiveHandoff handler', error);
-            }
-          }
-        }
-      } else {
-        // Call specific data handler
-        if (this.sseEventHandlers.onReceiveData) {
-          try {
-            this.sseEventHandlers.onReceiveData(message);
-          } catch (error) {
-            if (this.options.logger) {
-              this.options.logger('error', 'Error in onReceiveData handler', error);
-            }
-          }
-        }
-      }
-      // Also emit legacy event for backward compatibility
-      this.emitEvent('message', sseEvent);
+      this.emitEvent('message', sseEvent as SseMessageEvent);
     } else if (sseEvent.type === 'Handoff') {
-      // Call specific handoff handler
-      if (this.sseEventHandlers.onReceiveHandoff) {
-        try {
-          this.sseEventHandlers.onReceiveHandoff((sseEvent as SseMessageEvent).data);
-        } catch (error) {
-          if (this.options.logger) {
-            this.options.logger('error', 'Error in onReceiveHandoff handler', error);
-          }
-        }
-      }
+      this.callHandler(stream, 'onReceiveHandoff', (sseEvent as SseMessageEvent).data);
       // Also emit legacy event for backward compatibility
-      this.emitEvent('message', sseEvent);
+      this.emitEvent('message', sseEvent as SseMessageEvent);
     } else {
       this.emitEvent(sseEvent.type, sseEvent);
     }
   }
 
   /**
-   * Handles connection errors and manages reconnection logic
+   * Updates the heartbeat statistics of a stream
    */
-  private handleConnectionError(reason: string): void {
-    if (this.eventSource) {
-      this.eventSource.close();
-      this.eventSource = null;
+  private recordHeartbeat(stream: SseStream, data: HeartbeatData): void {
+    const stats = stream.heartbeat;
+    const now = Date.now();
+    stats.lastSeenAt = new Date(now);
+    stats.count++;
+
+    const serverTime = Date.parse(data.timestamp);
+    if (!Number.isNaN(serverTime)) {
+      stats.latencyMs = now - serverTime;
+      stream.latencyBaseline ??= stats.latencyMs;
+      stats.latencyDriftMs = stats.latencyMs - stream.latencyBaseline;
     }
 
-    if (this.connectionState === ConnectionState.Connected) {
-      // Call specific disconnected handler
-      if (this.sseEventHandlers.onDisconnected) {
-        try {
-          this.sseEventHandlers.onDisconnected(reason);
-        } catch (error) {
-          if (this.options.logger) {
-            this.options.logger('error', 'Error in onDisconnected handler', error);
-          }
-        }
+    stats.subscriberCounts.push({ timestamp: data.timestamp, subscriberCount: data.subscriberCount });
+    if (stats.subscriberCounts.length > MAX_HEARTBEAT_HISTORY) {
+      stats.subscriberCounts.shift();
+    }
+  }
+
+  /**
+   * Restarts the timer that declares a connected stream stale when no event arrives
+   * within maxMissedHeartbeats heartbeat intervals
+   */
+  private resetWatchdog(stream: SseStream): void {
+    this.clearWatchdog(stream);
+
+    const intervalSeconds = stream.params.heartbeatSeconds;
+    const maxMissed = this.options.maxMissedHeartbeats!;
+    if (!intervalSeconds || maxMissed <= 0 || stream.state !== ConnectionState.Connected) {
+      return;
+    }
+
+    stream.watchdog = setTimeout(() => {
+      stream.watchdog = null;
+      this.handleStaleStream(stream, maxMissed);
+    }, intervalSeconds * 1000 * maxMissed);
+  }
+
+  private clearWatchdog(stream: SseStream): void {
+    if (stream.watchdog) {
+      clearTimeout(stream.watchdog);
+      stream.watchdog = null;
+    }
+  }
+
+  /**
+   * Drops a connection that stopped delivering heartbeats and reconnects it through the normal backoff
+   */
+  private handleStaleStream(stream: SseStream, missedHeartbeats: number): void {
+    const lastSeenAt = stream.heartbeat.lastSeenAt;
+    stream.heartbeat.staleCount++;
+
+    if (this.options.logger) {
+      this.options.logger('warn', 'SSE stream missed heartbeats, reconnecting', {
+        stream: stream.key,
+        missedHeartbeats,
+        lastHeartbeatAt: lastSeenAt?.toISOString() ?? null
+      });
+    }
+
+    this.callHandler(stream, 'onStale', missedHeartbeats);
+    this.emitEvent('stale', {
+      type: 'stale',
+      stream: stream.key,
+      data: {
+        timestamp: new Date().toISOString(),
+        missedHeartbeats,
+        lastHeartbeatAt: lastSeenAt?.toISOString() ?? null
       }
+    });
+
+    this.handleConnectionError(stream, 'Heartbeat timeout');
+  }
+
+  /**
+   * Records Chat, Data and Handoff message ids and reports whether this one was seen before
+   */
+  private isReplayedMessage(stream: SseStream, sseEvent: SseAnyEvent): boolean {
+    if (sseEvent.type !== 'Chat' && sseEvent.type !== 'Data' && sseEvent.type !== 'Handoff') {
+      return false;
+    }
+
+    const messageId = (sseEvent as SseMessageEvent).data?.id;
+    if (!messageId) {
+      return false;
+    }
+    if (stream.seenMessageIds.has(messageId)) {
+      return true;
+    }
+
+    stream.seenMessageIds.add(messageId);
+    if (stream.seenMessageIds.size > MAX_SEEN_MESSAGE_IDS) {
+      const oldest = stream.seenMessageIds.values().next().value;
+      if (oldest !== undefined) {
+        stream.seenMessageIds.delete(oldest);
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Handles connection errors and manages reconnection logic
+   */
+  private handleConnectionError(stream: SseStream, reason: string): void {
+    this.clearWatchdog(stream);
+    this.endConnectSpan(stream, { reason });
+    if (stream.eventSource) {
+      stream.eventSource.close();
+      stream.eventSource = null;
+    }
+
+    if (stream.state === ConnectionState.Connected) {
+      this.callHandler(stream, 'onDisconnected', reason);
       
       this.emitEvent('disconnected', {
         type: 'disconnected',
+        stream: stream.key,
         data: { 
           timestamp: new Date().toISOString(),
           reason 
@@ -738,185 +1118,298 @@ export class SseSDK {
       });
     }
 
-    if (this.options.autoReconnect && 
-        this.reconnectAttempts < this.options.maxReconnectAttempts! &&
-        !this.isDisposed) {
-      
-      this.setConnectionState(ConnectionState.Reconnecting);
-      this.reconnectAttempts++;
-      
-      if (this.options.logger) {
-        this.options.logger('info', `Attempting to reconnect (${this.reconnectAttempts}/${this.options.maxReconnectAttempts})`, {
-          reason,
-          delay: this.options.reconnectDelay
-        });
-      }
-      
-      // Call specific reconnecting handler
-      if (this.sseEventHandlers.onReconnecting) {
-        try {
-          this.sseEventHandlers.onReconnecting(reason);
-        } catch (error) {
-          if (this.options.logger) {
-            this.options.logger('error', 'Error in onReconnecting handler', error);
-          }
-        }
+    if (!this.scheduleReconnect(stream, reason)) {
+      this.failStream(stream, reason);
+      return;
+    }
+
+    this.setConnectionState(stream, ConnectionState.Reconnecting);
+    
+    if (this.options.logger) {
+      this.options.logger('info', `Attempting to reconnect (attempt ${stream.reconnectAttempts})`, {
+        stream: stream.key,
+        reason
+      });
+    }
+    
+    this.callHandler(stream, 'onReconnecting', reason);
+    
+    this.emitEvent('reconnecting', {
+      type: 'reconnecting',
+      stream: stream.key,
+      data: { 
+        timestamp: new Date().toISOString(),
+        reason 
       }
-      
-      this.emitEvent('reconnecting', {
-        type: 'reconnecting',
-        data: { 
-          timestamp: new Date().toISOString(),
-          reason 
-        }
+    });
+  }
+
+  /**
+   * Queues a stream for the shared reconnect timer, so streams dropped by the same outage
+   * back off together. Each stream counts its own attempts against the retry policy; one
+   * that joins a running timer uses up an attempt too. Returns false when the policy gives up
+   */
+  private scheduleReconnect(stream: SseStream, reason: string): boolean {
+    if (!this.options.autoReconnect || this.isDisposed) {
+      return false;
+    }
+
+    const delay = this.retryPolicy.nextDelay(stream.reconnectAttempts + 1, reason);
+    if (delay === null) {
+      return false;
+    }
+
+    stream.reconnectAttempts++;
+    this.reconnectQueue.add(stream);
+    if (this.reconnectTimer) {
+      return true;
+    }
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      const queued = [...this.reconnectQueue];
+      this.reconnectQueue.clear();
+      queued.forEach(queuedStream => this.attemptConnection(queuedStream));
+    }, delay);
+    return true;
+  }
+
+  /**
+   * Marks a stream as permanently failed
+   */
+  private failStream(stream: SseStream, reason: string): void {
+    this.setConnectionState(stream, ConnectionState.Failed);
+    
+    if (this.options.logger) {
+      this.options.logger('error', 'SSE connection failed permanently', {
+        stream: stream.key,
+        reason,
+        attempts: stream.reconnectAttempts
       });
+    }
+    
+    this.reportError(stream, new XiansNetworkError(`Connection failed: ${reason}`, { code: 'CONNECTION_FAILED' }));
+  }
 
-      this.reconnectTimer = setTimeout(() => {
-        this.attemptConnection();
-      }, this.options.reconnectDelay!);
-    } else {
-      this.setConnectionState(ConnectionState.Failed);
-      
-      if (this.options.logger) {
-        this.options.logger('error', 'SSE connection failed permanently', {
-          reason,
-          attempts: this.reconnectAttempts
-        });
+  /**
+   * Reports an error to the onError handlers and 'error' event listeners
+   */
+  private reportError(stream: SseStream, error: XiansError): void {
+    this.callHandler(stream, 'onError', error.message, error);
+    
+    this.emitEvent('error', {
+      type: 'error',
+      stream: stream.key,
+      data: {
+        error: error.message,
+        code: error.code,
+        exception: error,
+        timestamp: new Date().toISOString()
       }
-      
-      // Call specific error handler
-      if (this.sseEventHandlers.onError) {
-        try {
-          this.sseEventHandlers.onError(`Connection failed: ${reason}`);
-        } catch (error) {
-          if (this.options.logger) {
-            this.options.logger('error', 'Error in onError handler', error);
-          }
-        }
+    });
+  }
+
+  /**
+   * Calls one of the stream's own handlers, then the SDK-wide handler of the same name
+   */
+  private callHandler<K extends keyof SseEventHandlers>(
+    stream: SseStream,
+    name: K,
+    ...args: Parameters<NonNullable<SseEventHandlers[K]>>
+  ): void {
+    for (const handlers of [stream.handlers, this.sseEventHandlers]) {
+      const handler = handlers[name] as ((...handlerArgs: unknown[]) => void) | undefined;
+      if (!handler) {
+        continue;
       }
-      
-      this.emitEvent('error', {
-        type: 'error',
-        data: {
-          error: `Connection failed: ${reason}`,
-          code: 'CONNECTION_FAILED',
-          timestamp: new Date().toISOString()
+      try {
+        handler(...args);
+      } catch (error) {
+        if (this.options.logger) {
+          this.options.logger('error', `Error in ${name} handler`, error);
         }
-      });
+      }
     }
   }
 
   /**
-   * Sets the connection state and logs the change
+   * Sets the connection state of a stream and logs the change
    */
-  private setConnectionState(state: ConnectionState): void {
-    const previousState = this.connectionState;
-    this.connectionState = state;
+  private setConnectionState(stream: SseStream, state: ConnectionState): void {
+    const previousState = stream.state;
+    stream.state = state;
     
     if (this.options.logger && previousState !== state) {
-      this.options.logger('debug', `SSE connection state changed: ${previousState} -> ${state}`);
+      this.options.logger('debug', `SSE connection state changed: ${previousState} -> ${state}`, { stream: stream.key });
     }
   }
 
   /**
    * Emits an event to all registered handlers
    */
-  private emitEvent<T extends SseEvent>(eventType: string, event: T): void {
-    const handlers = this.eventHandlers.get(eventType);
-    if (handlers) {
-      handlers.forEach(handler => {
-        try {
-          handler(event);
-        } catch (error) {
-          if (this.options.logger) {
-            this.options.logger('error', `Error in event handler for ${eventType}`, error);
-          }
-        }
-      });
-    }
+  private emitEvent<K extends keyof SseEventMap>(eventType: K, event: SseEventMap[K]): void {
+    this.dispatcher.emit(eventType, event);
   }
 
   /**
-   * Adds an event listener for specific event types
+   * Adds an event listener for specific event types and returns a function that removes it
+   * Listeners receive the events of every stream; `event.stream` tells them apart
    */
-  public on<T extends SseEvent>(eventType: string, handler: SseEventHandler<T>): void {
-    if (!this.eventHandlers.has(eventType)) {
-      this.eventHandlers.set(eventType, new Set());
-    }
-    this.eventHandlers.get(eventType)!.add(handler as SseEventHandler);
+  public on<K extends keyof SseEventMap>(eventType: K, handler: SseEventHandler<SseEventMap[K]>): EventDisposer {
+    return this.dispatcher.on(eventType, handler);
   }
 
   /**
    * Removes an event listener
    */
-  public off<T extends SseEvent>(eventType: string, handler: SseEventHandler<T>): void {
-    const handlers = this.eventHandlers.get(eventType);
-    if (handlers) {
-      handlers.delete(handler as SseEventHandler);
-    }
+  public off<K extends keyof SseEventMap>(eventType: K, handler: SseEventHandler<SseEventMap[K]>): void {
+    this.dispatcher.off(eventType, handler);
   }
 
   /**
-   * Adds a one-time event listener
+   * Adds a one-time event listener, or without a handler resolves with the next event
    */
-  public once<T extends SseEvent>(eventType: string, handler: SseEventHandler<T>): void {
-    const onceHandler = (event: T) => {
-      handler(event);
-      this.off(eventType, onceHandler);
-    };
-    this.on(eventType, onceHandler);
+  public once<K extends keyof SseEventMap>(eventType: K): Promise<SseEventMap[K]>;
+  public once<K extends keyof SseEventMap>(eventType: K, handler: SseEventHandler<SseEventMap[K]>): EventDisposer;
+  public once<K extends keyof SseEventMap>(
+    eventType: K,
+    handler?: SseEventHandler<SseEventMap[K]>
+  ): Promise<SseEventMap[K]> | EventDisposer {
+    return handler ? this.dispatcher.once(eventType, handler) : this.dispatcher.once(eventType);
+  }
+
+  /**
+   * Resolves with the next event that passes `predicate`
+   * Rejects with XiansTimeoutError when `timeout` (ms) passes first, and with
+   * XiansDisposedError when the SDK is disposed while waiting
+   */
+  public waitFor<K extends keyof SseEventMap>(
+    eventType: K,
+    predicate?: (event: SseEventMap[K]) => boolean,
+    timeout?: number
+  ): Promise<SseEventMap[K]> {
+    return this.dispatcher.waitFor(eventType, predicate, timeout);
   }
 
   /**
    * Updates event handlers (consistent with SocketSDK)
+   * With a stream key, updates only that stream's own handlers
    */
-  public updateEventHandlers(handlers: Partial<SseEventHandlers>): void {
-    this.sseEventHandlers = { ...this.sseEventHandlers, ...handlers };
+  public updateEventHandlers(handlers: Partial<SseEventHandlers>, streamKey?: string): void {
+    if (streamKey === undefined) {
+      this.sseEventHandlers = { ...this.sseEventHandlers, ...handlers };
+      return;
+    }
+
+    const stream = this.streams.get(streamKey);
+    if (!stream) {
+      throw new Error(`Unknown SSE stream: ${streamKey}`);
+    }
+    stream.handlers = { ...stream.handlers, ...handlers };
   }
 
   /**
-   * Disconnects from the SSE stream
+   * Disconnects every stream. Streams keep their resume position for a later connect or openStream
    */
   public disconnect(): void {
+    this.streams.forEach(stream => this.stopStream(stream));
+
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
       this.reconnectTimer = null;
     }
+    this.reconnectQueue.clear();
 
-    if (this.eventSource) {
-      this.eventSource.close();
-      this.eventSource = null;
+    if (this.options.logger) {
+      this.options.logger('info', 'SSE connection disconnected');
     }
+  }
 
-    if (this.connectionState !== ConnectionState.Disconnected) {
-      this.setConnectionState(ConnectionState.Disconnected);
+  /**
+   * Closes one stream's connection and cancels its pending reconnect
+   */
+  private stopStream(stream: SseStream): void {
+    stream.releaseSignal?.();
+    stream.releaseSignal = null;
+    this.clearWatchdog(stream);
+    this.endConnectSpan(stream);
+
+    this.reconnectQueue.delete(stream);
+    if (this.reconnectTimer && this.reconnectQueue.size === 0) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    if (stream.eventSource) {
+      stream.eventSource.close();
+      stream.eventSource = null;
+    }
+
+    if (stream.state !== ConnectionState.Disconnected) {
+      this.setConnectionState(stream, ConnectionState.Disconnected);
       
       this.emitEvent('disconnected', {
         type: 'disconnected',
+        stream: stream.key,
         data: { 
           timestamp: new Date().toISOString(),
           reason: 'Manual disconnect'
         }
       });
     }
+  }
 
-    if (this.options.logger) {
-      this.options.logger('info', 'SSE connection disconnected');
+  /**
+   * Gets the connection state of one stream, or of all streams together:
+   * the least healthy state among streams that are not disconnected
+   */
+  public getConnectionState(streamKey?: string): ConnectionState {
+    if (streamKey !== undefined) {
+      return this.streams.get(streamKey)?.state ?? ConnectionState.Disconnected;
+    }
+
+    const states = new Set([...this.streams.values()].map(stream => stream.state));
+    for (const state of [
+      ConnectionState.Failed,
+      ConnectionState.Reconnecting,
+      ConnectionState.Connecting,
+      ConnectionState.Connected
+    ]) {
+      if (states.has(state)) {
+        return state;
+      }
     }
+    return ConnectionState.Disconnected;
+  }
+
+  /**
+   * Checks if currently connected (every open stream, or the given one)
+   */
+  public isConnected(streamKey?: string): boolean {
+    return this.getConnectionState(streamKey) === ConnectionState.Connected;
   }
 
   /**
-   * Gets the current connection state
+   * Gets the id of the last event received, used to resume after a reconnect
+   * Defaults to the stream opened with connect()
    */
-  public getConnectionState(): ConnectionState {
-    return this.connectionState;
+  public getLastEventId(streamKey: string = DEFAULT_STREAM_KEY): string | null {
+    return this.streams.get(streamKey)?.lastEventId ?? null;
   }
 
   /**
-   * Checks if currently connected
+   * Gets heartbeat statistics of a stream, by default the one opened with connect()
    */
-  public isConnected(): boolean {
-    return this.connectionState === ConnectionState.Connected;
+  public getHeartbeatStats(streamKey: string = DEFAULT_STREAM_KEY): SseHeartbeatStats | null {
+    const stream = this.streams.get(streamKey);
+    if (!stream) {
+      return null;
+    }
+    const stats = stream.heartbeat;
+    return {
+      ...stats,
+      lastSeenAt: stats.lastSeenAt && new Date(stats.lastSeenAt),
+      subscriberCounts: [...stats.subscriberCounts]
+    };
   }
 
   /**
@@ -931,11 +1424,36 @@ export class SseSDK {
    * When both API key and JWT methods are provided, JWT takes precedence
    */
   public getAuthType(): AuthType {
-    if (this.options.getJwtToken) return 'jwtCallback';
+    if (this.tokenProvider) return 'jwtCallback';
     if (this.options.jwtToken) return 'jwtToken';
     return 'apiKey';
   }
 
+  /**
+   * Swaps the token provider, stopping the old one's refresh timer unless it was passed in by the caller
+   */
+  private replaceTokenProvider(provider: TokenProvider | null): void {
+    if (this.tokenProvider && this.tokenProvider !== this.options.tokenProvider) {
+      this.tokenProvider.dispose();
+    }
+    this.options.tokenProvider = undefined;
+    this.tokenProvider = provider;
+  }
+
+  /**
+   * Reopens every connected stream with the current credentials
+   */
+  private reconnectOpenStreams(): void {
+    this.streams.forEach(stream => {
+      if (stream.state !== ConnectionState.Connected) {
+        return;
+      }
+      stream.eventSource?.close();
+      stream.eventSource = null;
+      this.attemptConnection(stream);
+    });
+  }
+
   /**
    * Updates the API key (switches to API key authentication)
    */
@@ -946,12 +1464,8 @@ export class SseSDK {
     this.options.apiKey = apiKey;
     this.options.jwtToken = undefined;
     this.options.getJwtToken = undefined;
-    
-    // Reconnect if currently connected
-    if (this.isConnected() && this.connectionParams) {
-      this.disconnect();
-      this.connect(this.connectionParams);
-    }
+    this.replaceTokenProvider(null);
+    this.reconnectOpenStreams();
   }
 
   /**
@@ -964,12 +1478,8 @@ export class SseSDK {
     this.options.jwtToken = jwtToken;
     this.options.apiKey = undefined;
     this.options.getJwtToken = undefined;
-    
-    // Reconnect if currently connected
-    if (this.isConnected() && this.connectionParams) {
-      this.disconnect();
-      this.connect(this.connectionParams);
-    }
+    this.replaceTokenProvider(null);
+    this.reconnectOpenStreams();
   }
 
   /**
@@ -982,12 +1492,12 @@ export class SseSDK {
     this.options.getJwtToken = getJwtToken;
     this.options.apiKey = undefined;
     this.options.jwtToken = undefined;
-    
-    // Reconnect if currently connected
-    if (this.isConnected() && this.connectionParams) {
-      this.disconnect();
-      this.connect(this.connectionParams);
-    }
+    this.replaceTokenProvider(resolveTokenProvider({
+      getJwtToken,
+      tokenRefreshMargin: this.options.tokenRefreshMargin,
+      logger: this.options.logger
+    }));
+    this.reconnectOpenStreams();
   }
 
   /**
@@ -996,7 +1506,9 @@ export class SseSDK {
   public dispose(): void {
     this.isDisposed = true;
     this.disconnect();
-    this.eventHandlers.clear();
+    this.streams.clear();
+    this.dispatcher.clear(undefined, new XiansDisposedError());
+    this.replaceTokenProvider(null);
     
     if (this.options.logger) {
       this.options.logger('info', 'SseSDK disposed');
@@ -0,0 +1,764 @@
+/**
+ * Unified client that hides the choice between SocketSDK, SseSDK and RestSDK
+ * behind a single send / onMessage / history API
+ */
+
+import {
+  Message,
+  MessageType,
+  BaseSDKOptions,
+  BaseConnectionParams,
+  ConnectionState,
+  SDK_DEFAULTS
+} from './types';
+import SocketSDK, { SocketSDKOptions } from './SocketSDK';
+import SseSDK, { SseSDKOptions } from './SseSDK';
+import RestSDK, { RestSDKOptions } from './RestSDK';
+import { EventDispatcher } from './core/EventDispatcher';
+import { TokenProvider, resolveTokenProvider } from './core/TokenProvider';
+import { Middleware, MiddlewarePipeline, resolveMiddleware } from './core/middleware';
+import {
+  XiansError,
+  XiansDisposedError,
+  XiansNetworkError,
+  XiansTimeoutError,
+  toXiansError
+} from './core/errors';
+
+/**
+ * Transports the client can run on, in their default order of preference
+ * - socket: SignalR WebSocket for both directions
+ * - sse: Server-Sent Events for receiving, REST for sending
+ * - rest: REST for sending, history polling for receiving
+ */
+export type XiansTransport = 'socket' | 'sse' | 'rest';
+
+/**
+ * Message accepted by XiansClient.send
+ * Workflow, participant and scope are taken from the connection parameters
+ */
+export interface ClientMessageRequest {
+  text?: string;
+  data?: any;
+  hint?: string;
+  requestId?: string;
+
+  /**
+   * Message type (default: Chat)
+   */
+  type?: MessageType;
+}
+
+/**
+ * History query accepted by XiansClient.history
+ */
+export interface ClientHistoryRequest {
+  page?: number;
+  pageSize?: number;
+}
+
+/**
+ * Events emitted by XiansClient
+ */
+export interface XiansClientEvents {
+  message: Message;
+  transport_change: { transport: XiansTransport | null; previous: XiansTransport | null };
+  connection_change: { oldState: ConnectionState; newState: ConnectionState };
+  error: XiansError;
+}
+
+/**
+ * Configuration options for XiansClient
+ *
+ * @example
+ * ```typescript
+ * const client = new XiansClient({
+ *   tenantId: 'my-tenant',
+ *   apiKey: 'sk-123',
+ *   serverUrl: 'https://api.example.com'
+ * });
+ * ```
+ */
+export interface XiansClientOptions extends BaseSDKOptions {
+  /**
+   * Transports to try, in order of preference (default: ['socket', 'sse', 'rest'])
+   */
+  transports?: XiansTransport[];
+
+  /**
+   * Time allowed for a transport to connect before the next one is tried, in milliseconds (default: 30000)
+   */
+  connectionTimeout?: number;
+
+  /**
+   * Time an established transport may spend reconnecting before the client falls back
+   * to the next transport, in milliseconds (default: 10000)
+   */
+  fallbackTimeout?: number;
+
+  /**
+   * History polling interval for the REST transport in milliseconds (default: 3000)
+   */
+  pollInterval?: number;
+
+  /**
+   * Page size used when polling history on the REST transport (default: 20)
+   */
+  pollPageSize?: number;
+
+  /**
+   * Extra options passed through to the underlying SocketSDK
+   */
+  socketOptions?: Partial<Omit<SocketSDKOptions, keyof BaseSDKOptions | 'eventHandlers'>>;
+
+  /**
+   * Extra options passed through to the underlying SseSDK
+   */
+  sseOptions?: Partial<Omit<SseSDKOptions, keyof BaseSDKOptions | 'eventHandlers'>>;
+
+  /**
+   * Extra options passed through to the underlying RestSDK
+   */
+  restOptions?: Partial<Omit<RestSDKOptions, keyof BaseSDKOptions>>;
+}
+
+const DEFAULT_TRANSPORTS: XiansTransport[] = ['socket', 'sse', 'rest'];
+const MAX_SEEN_MESSAGE_IDS = 1000;
+
+/**
+ * XiansClient picks the best working transport and falls back at runtime
+ *
+ * The client tries WebSocket first, then SSE with REST for sending, then REST
+ * with history polling. When the active transport stays down for longer than
+ * `fallbackTimeout`, or a send fails because the transport is gone, the client
+ * moves on to the next transport in the list.
+ */
+export class XiansClient {
+  private options: XiansClientOptions;
+  private dispatcher = new EventDispatcher<XiansClientEvents>();
+  private connectionParams: BaseConnectionParams | null = null;
+  private connectionState: ConnectionState = ConnectionState.Disconnected;
+  private activeTransport: XiansTransport | null = null;
+  private activeIndex: number = -1;
+  private socketSDK: SocketSDK | null = null;
+  private sseSDK: SseSDK | null = null;
+  private restSDK: RestSDK | null = null;
+  private tokenProvider: TokenProvider | null;
+  private middleware: MiddlewarePipeline;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private fallbackTimer: ReturnType<typeof setTimeout> | null = null;
+  private fallbackPromise: Promise<void> | null = null;
+  private seenMessageIds: Set<string> = new Set();
+  private isDisposed: boolean = false;
+
+  constructor(options: XiansClientOptions) {
+    // Validate required fields
+    if (!options.tenantId) {
+      throw new Error('tenantId is required');
+    }
+    if (!options.apiKey && !options.getJwtToken && !options.jwtToken && !options.tokenProvider) {
+      throw new Error('Either apiKey, jwtToken, or getJwtToken callback is required');
+    }
+    if (!options.serverUrl) {
+      throw new Error('serverUrl is required');
+    }
+    if (options.transports && options.transports.length === 0) {
+      throw new Error('At least one transport is required');
+    }
+
+    this.options = {
+      logger: (level, message, data) => console.log(`[${level.toUpperCase()}] ${message}`, data || ''),
+      transports: DEFAULT_TRANSPORTS,
+      connectionTimeout: SDK_DEFAULTS.connectionTimeout,
+      fallbackTimeout: 10000,
+      pollInterval: 3000,
+      pollPageSize: 20,
+      ...options
+    };
+
+    // One provider for every transport, so switching transports does not fetch a new token
+    this.tokenProvider = resolveTokenProvider(this.options);
+    // One pipeline for every transport, so middleware added with use() applies after a switch too
+    this.middleware = resolveMiddleware(this.options.middleware);
+  }
+
+  /**
+   * Connects using the first transport that works
+   */
+  public async connect(params: BaseConnectionParams): Promise<void> {
+    if (this.isDisposed) {
+      throw new XiansDisposedError('Client has been disposed');
+    }
+    if (!params.workflow) {
+      throw new Error('workflow is required');
+    }
+    if (!params.participantId) {
+      throw new Error('participantId is required');
+    }
+
+    if (this.connectionState === ConnectionState.Connected ||
+        this.connectionState === ConnectionState.Connecting) {
+      return;
+    }
+
+    this.connectionParams = params;
+    // A connect after a Failed state still holds the RestSDK of the previous attempt
+    this.restSDK?.dispose();
+    this.restSDK = new RestSDK({ ...this.baseSdkOptions(), ...this.options.restOptions });
+
+    this.setConnectionState(ConnectionState.Connecting);
+    await this.activateFrom(0);
+  }
+
+  /**
+   * Disconnects the active transport
+   */
+  public async disconnect(): Promise<void> {
+    this.clearFallbackTimer();
+    await this.teardownTransport();
+    this.restSDK?.dispose();
+    this.restSDK = null;
+    this.setActiveTransport(null, -1);
+    this.setConnectionState(ConnectionState.Disconnected);
+  }
+
+  /**
+   * Sends a message over the active transport, falling back once if the transport is gone
+   */
+  public async send(request: ClientMessageRequest): Promise<void> {
+    if (this.isDisposed) {
+      throw new XiansDisposedError('Client has been disposed');
+    }
+    if (!this.connectionParams || !this.activeTransport) {
+      throw new XiansNetworkError('Client is not connected', { code: 'NOT_CONNECTED' });
+    }
+
+    try {
+      await this.sendVia(this.activeTransport, request);
+    } catch (error) {
+      if (!this.isTransportFailure(error)) {
+        throw error;
+      }
+
+      if (this.options.logger) {
+        this.options.logger('warn', `Send failed on ${this.activeTransport} transport, falling back`, error);
+      }
+
+      await this.fallback(`Send failed: ${error instanceof Error ? error.message : String(error)}`);
+      if (!this.activeTransport) {
+        throw error;
+      }
+      await this.sendVia(this.activeTransport, request);
+    }
+  }
+
+  /**
+   * Loads a page of conversation history for the connected workflow and participant
+   */
+  public async history(request: ClientHistoryRequest = {}): Promise<Message[]> {
+    if (!this.connectionParams || !this.restSDK) {
+      throw new XiansNetworkError('Client is not connected', { code: 'NOT_CONNECTED' });
+    }
+
+    const result = await this.restSDK.getHistory({
+      workflow: this.connectionParams.workflow,
+      participantId: this.connectionParams.participantId,
+      scope: this.connectionParams.scope,
+      page: request.page,
+      pageSize: request.pageSize
+    });
+
+    if (!result.success) {
+      throw result.exception || new XiansError(result.error || 'Failed to load history');
+    }
+    return result.data || [];
+  }
+
+  /**
+   * Adds middleware for outgoing messages and incoming agent messages on every transport.
+   * Returns a function that removes it
+   */
+  public use(middleware: Middleware): () => void {
+    return this.middleware.use(middleware);
+  }
+
+  /**
+   * Registers a handler for agent messages arriving on any transport
+   * Returns an unsubscribe function
+   */
+  public onMessage(handler: (message: Message) => void): () => void {
+    return this.on('message', handler);
+  }
+
+  /**
+   * Subscribes to client events. Returns an unsubscribe function.
+   */
+  public on<E extends keyof XiansClientEvents>(event: E, handler: (data: XiansClientEvents[E]) => void): () => void {
+    this.dispatcher.on(event, handler);
+    return () => this.dispatcher.off(event, handler);
+  }
+
+  /**
+   * Removes a handler registered with `on`
+   */
+  public off<E extends keyof XiansClientEvents>(event: E, handler: (data: XiansClientEvents[E]) => void): void {
+    this.dispatcher.off(event, handler);
+  }
+
+  /**
+   * Gets the transport currently in use, or null when not connected
+   */
+  public getActiveTransport(): XiansTransport | null {
+    return this.activeTransport;
+  }
+
+  /**
+   * Gets the current connection state
+   */
+  public getConnectionState(): ConnectionState {
+    return this.connectionState;
+  }
+
+  /**
+   * Checks if the client is connected on any transport
+   */
+  public isConnected(): boolean {
+    return this.connectionState === ConnectionState.Connected;
+  }
+
+  /**
+   * Gets the tenant ID
+   */
+  public getTenantId(): string {
+    return this.options.tenantId;
+  }
+
+  /**
+   * Disposes the client and every underlying SDK
+   */
+  public async dispose(): Promise<void> {
+    this.isDisposed = true;
+    await this.disconnect();
+    if (this.tokenProvider !== this.options.tokenProvider) {
+      this.tokenProvider?.dispose();
+    }
+
+    if (this.options.logger) {
+      this.options.logger('info', 'XiansClient disposed');
+    }
+  }
+
+  /**
+   * Options shared by every underlying SDK
+   */
+  private baseSdkOptions(): BaseSDKOptions {
+    const { tenantId, apiKey, jwtToken, getJwtToken, serverUrl, logger, namespace, retryPolicy, tracer, traffic } = this.options;
+    return {
+      tenantId,
+      apiKey,
+      jwtToken,
+      getJwtToken,
+      tokenProvider: this.tokenProvider || undefined,
+      serverUrl,
+      logger,
+      namespace,
+      retryPolicy,
+      tracer,
+      middleware: this.middleware,
+      traffic
+    };
+  }
+
+  /**
+   * Tries each configured transport starting at `startIndex` until one connects
+   */
+  private async activateFrom(startIndex: number): Promise<void> {
+    const transports = this.options.transports!;
+
+    for (let i = startIndex; i < transports.length; i++) {
+      if (this.isDisposed) {
+        return;
+      }
+
+      const transport = transports[i];
+      try {
+        if (this.options.logger) {
+          this.options.logger('info', `Trying ${transport} transport`);
+        }
+
+        await this.withTimeout(this.activate(transport), `${transport} transport connection timeout`);
+
+        this.setActiveTransport(transport, i);
+        this.setConnectionState(ConnectionState.Connected);
+
+        if (this.options.logger) {
+          this.options.logger('info', `Connected using ${transport} transport`);
+        }
+        return;
+      } catch (error) {
+        if (this.options.logger) {
+          this.options.logger('warn', `${transport} transport failed`, error);
+        }
+        await this.teardownTransport();
+      }
+    }
+
+    this.setActiveTransport(null, -1);
+    this.setConnectionState(ConnectionState.Failed);
+    const error = new XiansNetworkError('No transport could be established', { code: 'CONNECTION_FAILED' });
+    this.dispatcher.emit('error', error);
+    throw error;
+  }
+
+  /**
+   * Creates and connects the SDK(s) backing a transport
+   */
+  private async activate(transport: XiansTransport): Promise<void> {
+    const params = this.connectionParams!;
+
+    switch (transport) {
+      case 'socket': {
+        const socketSDK = new SocketSDK({
+          ...this.baseSdkOptions(),
+          ...this.options.socketOptions,
+          eventHandlers: {
+            onReceiveChat: (message) => this.emitMessage(message),
+            onReceiveData: (message) => this.emitMessage(message),
+            onReceiveHandoff: (message) => this.emitMessage(message),
+            onError: (error, details) => this.dispatcher.emit('error', details || new XiansError(error)),
+            onConnectionStateChanged: (_, newState) => this.handleTransportState('socket', newState)
+          }
+        });
+        this.socketSDK = socketSDK;
+        await socketSDK.connect();
+        await socketSDK.subscribeToAgent(params.workflow, params.participantId, { scope: params.scope });
+        return;
+      }
+
+      case 'sse': {
+        const sseSDK = new SseSDK({
+          ...this.baseSdkOptions(),
+          ...this.options.sseOptions,
+          eventHandlers: {
+            onReceiveChat: (message) => this.emitMessage(message),
+            onReceiveData: (message) => this.emitMessage(message),
+            onReceiveHandoff: (message) => this.emitMessage(message)
+          }
+        });
+        this.sseSDK = sseSDK;
+
+        // The listeners only wait for the first outcome; the permanent ones are added below
+        const disposers: (() => void)[] = [];
+        try {
+          await new Promise<void>((resolve, reject) => {
+            disposers.push(sseSDK.once('connected', () => resolve()));
+            disposers.push(sseSDK.on('error', (event) => {
+              if (event.data.code === 'CONNECTION_FAILED') {
+                reject(event.data.exception || new XiansNetworkError(event.data.error, { code: 'CONNECTION_FAILED' }));
+              }
+            }));
+            sseSDK.connect(params).catch(reject);
+          });
+        } finally {
+          disposers.forEach(dispose => dispose());
+        }
+
+        sseSDK.on('connected', () => this.handleTransportState('sse', ConnectionState.Connected));
+        sseSDK.on('reconnecting', () => this.handleTransportState('sse', ConnectionState.Reconnecting));
+        sseSDK.on('error', (event) => {
+          this.dispatcher.emit('error', event.data.exception || new XiansError(event.data.error));
+          if (event.data.code === 'CONNECTION_FAILED') {
+            this.handleTransportState('sse', ConnectionState.Failed);
+          }
+        });
+        return;
+      }
+
+      case 'rest': {
+        // The first poll establishes a baseline so existing history is not replayed as new messages
+        const baseline = await this.pollHistory();
+        baseline.forEach(message => this.rememberMessage(this.polledMessageKey(message)));
+        this.pollTimer = setInterval(() => {
+          this.pollHistory()
+            .then(messages => messages
+              .filter(message => message.direction === 'Outgoing')
+              .reverse()
+              .forEach(message => this.receivePolledMessage(message)))
+            .catch(error => {
+              if (this.options.logger) {
+                this.options.logger('warn', 'History poll failed', error);
+              }
+            });
+        }, this.options.pollInterval!);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Fetches the most recent history page for the REST polling transport
+   */
+  private async pollHistory(): Promise<Message[]> {
+    const result = await this.restSDK!.getHistory({
+      workflow: this.connectionParams!.workflow,
+      participantId: this.connectionParams!.participantId,
+      scope: this.connectionParams!.scope,
+      page: 1,
+      pageSize: this.options.pollPageSize
+    });
+
+    if (!result.success) {
+      throw result.exception || new XiansError(result.error || 'Failed to poll history');
+    }
+    return result.data || [];
+  }
+
+  /**
+   * Sends a message through the given transport
+   */
+  private async sendVia(transport: XiansTransport, request: ClientMessageRequest): Promise<void> {
+    const params = this.connectionParams!;
+    const type = request.type || MessageType.Chat;
+    const messageRequest = {
+      ...request,
+      workflow: params.workflow,
+      participantId: params.participantId,
+      scope: params.scope,
+      type
+    };
+
+    if (transport === 'socket') {
+      await this.socketSDK!.sendInboundMessage(messageRequest, type);
+      return;
+    }
+
+    const result = await this.restSDK!.send(messageRequest);
+    if (!result.success) {
+      throw result.exception || new XiansError(result.error || 'Failed to send message');
+    }
+  }
+
+  /**
+   * Decides whether a send error means the transport is gone rather than the request being rejected
+   */
+  private isTransportFailure(error: unknown): boolean {
+    if (this.activeTransport === 'socket') {
+      return !this.socketSDK?.isConnected();
+    }
+    // Network and timeout errors mean the request never got an answer from the server
+    return error instanceof XiansNetworkError || error instanceof XiansTimeoutError;
+  }
+
+  /**
+   * Reacts to connection state changes reported by the active transport
+   */
+  private handleTransportState(transport: XiansTransport, state: ConnectionState): void {
+    if (transport !== this.activeTransport || this.isDisposed) {
+      return;
+    }
+    // Ignore the state changes an SDK reports while it is being torn down
+    if ((transport === 'socket' && !this.socketSDK) || (transport === 'sse' && !this.sseSDK)) {
+      return;
+    }
+
+    if (state === ConnectionState.Connected) {
+      this.clearFallbackTimer();
+      this.setConnectionState(ConnectionState.Connected);
+      return;
+    }
+
+    if (state === ConnectionState.Failed) {
+      this.fallback(`${transport} transport failed`).catch(() => {});
+      return;
+    }
+
+    if (state === ConnectionState.Reconnecting || state === ConnectionState.Disconnected) {
+      this.setConnectionState(ConnectionState.Reconnecting);
+      if (!this.fallbackTimer) {
+        this.fallbackTimer = setTimeout(() => {
+          this.fallbackTimer = null;
+          this.fallback(`${transport} transport did not recover`).catch(() => {});
+        }, this.options.fallbackTimeout!);
+      }
+    }
+  }
+
+  /**
+   * Abandons the active transport and activates the next one in the list
+   * Concurrent callers share the same fallback
+   */
+  private fallback(reason: string): Promise<void> {
+    if (this.fallbackPromise) {
+      return this.fallbackPromise;
+    }
+
+    this.fallbackPromise = (async () => {
+      this.clearFallbackTimer();
+      const nextIndex = this.activeIndex + 1;
+
+      if (this.options.logger) {
+        this.options.logger('warn', `Falling back from ${this.activeTransport} transport`, { reason });
+      }
+
+      await this.teardownTransport();
+      this.setConnectionState(ConnectionState.Reconnecting);
+      await this.activateFrom(nextIndex);
+    })().finally(() => {
+      this.fallbackPromise = null;
+    });
+
+    return this.fallbackPromise;
+  }
+
+  /**
+   * Disposes whichever SDKs back the current transport
+   */
+  private async teardownTransport(): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    if (this.sseSDK) {
+      const sseSDK = this.sseSDK;
+      this.sseSDK = null;
+      sseSDK.dispose();
+    }
+
+    if (this.socketSDK) {
+      const socketSDK = this.socketSDK;
+      this.socketSDK = null;
+      try {
+        await socketSDK.dispose();
+      } catch (error) {
+        if (this.options.logger) {
+          this.options.logger('warn', 'Error disposing socket transport', error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Runs the inbound middleware on a message found by the REST poll, then emits it.
+   * Socket and SSE messages have been through the middleware in their SDK already
+   */
+  private receivePolledMessage(message: Message): void {
+    const key = this.polledMessageKey(message);
+    if (this.seenMessageIds.has(key)) {
+      return;
+    }
+    // Remembered up front so a dropped message is not picked up again by the next poll
+    this.rememberMessage(key);
+    this.middleware.deliverInbound(
+      message,
+      { transport: 'rest', messageType: message.messageType || MessageType.Chat },
+      processed => this.dispatcher.emit('message', processed),
+      error => this.dispatcher.emit('error', toXiansError(error))
+    );
+  }
+
+  /**
+   * Emits a message once, even if it arrives again after a transport switch
+   */
+  private emitMessage(message: Message): void {
+    if (message.id) {
+      if (this.seenMessageIds.has(message.id)) {
+        return;
+      }
+      this.rememberMessage(message.id);
+    }
+    this.dispatcher.emit('message', message);
+  }
+
+  /**
+   * Key that identifies a polled message across polls. Every poll reads page 1 again,
+   * so a message without an id is recognised by its request, time and text
+   */
+  private polledMessageKey(message: Message): string {
+    return message.id || `${message.requestId ?? ''}|${message.createdAt}|${message.text ?? ''}`;
+  }
+
+  private rememberMessage(id: string): void {
+    this.seenMessageIds.add(id);
+    if (this.seenMessageIds.size > MAX_SEEN_MESSAGE_IDS) {
+      const oldest = this.seenMessageIds.values().next().value;
+      if (oldest !== undefined) {
+        this.seenMessageIds.delete(oldest);
+      }
+    }
+  }
+
+  private setActiveTransport(transport: XiansTransport | null, index: number): void {
+    const previous = this.activeTransport;
+    this.activeTransport = transport;
+    this.activeIndex = index;
+    if (previous !== transport) {
+      this.dispatcher.emit('transport_change', { transport, previous });
+    }
+  }
+
+  private setConnectionState(state: ConnectionState): void {
+    const oldState = this.connectionState;
+    this.connectionState = state;
+    if (oldState !== state) {
+      this.dispatcher.emit('connection_change', { oldState, newState: state });
+    }
+  }
+
+  private clearFallbackTimer(): void {
+    if (this.fallbackTimer) {
+      clearTimeout(this.fallbackTimer);
+      this.fallbackTimer = null;
+    }
+  }
+
+  /**
+   * Rejects if the given promise does not settle within the connection timeout
+   */
+  private withTimeout<T>(promise: Promise<T>, message: string): Promise<T> {
+    let timer: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new XiansTimeoutError(message, { timeout: this.options.connectionTimeout })),
+        this.options.connectionTimeout!
+      );
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+}
+
+/**
+ * Example usage:
+ *
+ * ```typescript
+ * const client = new XiansClient({
+ *   tenantId: 'my-tenant-123',
+ *   apiKey: 'sk-1234567890',
+ *   serverUrl: 'http://localhost:5000',
+ *   transports: ['socket', 'sse', 'rest']
+ * });
+ *
+ * client.onMessage((message) => {
+ *   console.log('Agent said:', message.text);
+ * });
+ *
+ * client.on('transport_change', ({ transport, previous }) => {
+ *   console.log(`Transport changed: ${previous} -> ${transport}`);
+ * });
+ *
+ * await client.connect({
+ *   workflow: 'customer-support',
+ *   participantId: 'user-123'
+ * });
+ *
+ * console.log('Using transport:', client.getActiveTransport());
+ *
+ * await client.send({ text: 'Hello, I need help with my order' });
+ *
+ * const history = await client.history({ page: 1, pageSize: 20 });
+ *
+ * await client.dispose();
+ * ```
+ */
+
+export default XiansClient;
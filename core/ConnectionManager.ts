@@ -1,6 +1,11 @@
 import { HubConnection, HubConnectionBuilder, LogLevel } from '@microsoft/signalr';
 import type { Settings, Agent, ConnectionState, Message } from './types';
 import { MessageProcessor } from './MessageProcessor';
+import { CustomRetryPolicy, RetryPolicy } from './RetryPolicy';
+import { XiansAuthError, toXiansError } from './errors';
+
+// Progressive backoff used when no retry policy is configured
+const DEFAULT_RETRY_POLICY: RetryPolicy = new CustomRetryPolicy([0, 2000, 10000, 30000]);
 
 export interface SignalRConnection {
   connection: HubConnection;
@@ -70,8 +75,10 @@ export class ConnectionManager {
 
   private buildHubUrl(): string {
     if (!this.settings) throw new Error('ConnectionManager not initialized');
-    const { agentWebsocketUrl, tenantId, Authorization: agentApiKey } = this.settings;
-    return `${agentWebsocketUrl}?tenantId=${encodeURIComponent(tenantId)}&access_token=${encodeURIComponent(agentApiKey)}`;
+    const { agentWebsocketUrl, tenantId, Authorization: agentApiKey, tokenProvider } = this.settings;
+    const url = `${agentWebsocketUrl}?tenantId=${encodeURIComponent(tenantId)}`;
+    // With a token provider SignalR appends a fresh access_token itself via accessTokenFactory
+    return tokenProvider ? url : `${url}&access_token=${encodeURIComponent(agentApiKey || '')}`;
   }
 
   private async connectToAgent(agent: Agent, index: number) {
@@ -97,9 +104,16 @@ export class ConnectionManager {
     this.events.onConnectionChange(index, { status: 'connecting' });
 
     const url = this.buildHubUrl();
+    const retryPolicy = this.settings!.retryPolicy || DEFAULT_RETRY_POLICY;
+    const tokenProvider = this.settings!.tokenProvider;
     const connection = new HubConnectionBuilder()
-      .withUrl(url, { transport: 1 })
-      .withAutomaticReconnect([0, 2000, 10000, 30000]) // Progressive backoff
+      .withUrl(url, {
+        transport: 1,
+        ...(tokenProvider && { accessTokenFactory: () => tokenProvider.getToken() })
+      })
+      .withAutomaticReconnect({
+        nextRetryDelayInMilliseconds: (ctx) => retryPolicy.nextDelay(ctx.previousRetryCount + 1, ctx.retryReason)
+      })
       .configureLogging(LogLevel.Information)
       .build();
 
@@ -168,7 +182,16 @@ export class ConnectionManager {
     });
 
     try {
-      await connection.start();
+      try {
+        await connection.start();
+      } catch (err: unknown) {
+        // A rejected token gets one forced refresh before giving up
+        const rejection = toXiansError(err);
+        if (!(rejection instanceof XiansAuthError) || rejection.statusCode !== 401 || !tokenProvider) throw err;
+        this.settings!.logger?.('info', `Agent ${index} rejected with 401, refreshing token`);
+        await tokenProvider.refresh();
+        await connection.start();
+      }
       
       // Update connection record
       this.connections.set(index, { 
@@ -0,0 +1,272 @@
+/*
+ * Connection quality figures collected by SocketSDK: hub call latency, time to the first
+ * agent reply, reconnects with their downtime, and message throughput.
+ */
+
+export interface LatencySummary {
+  count: number;
+  lastMs: number | null;
+  minMs: number | null;
+  maxMs: number | null;
+  avgMs: number | null;
+  /**
+   * 95th percentile over the most recent samples
+   */
+  p95Ms: number | null;
+}
+
+export interface InvokeMetrics extends LatencySummary {
+  /**
+   * Calls that failed. Their duration is included in the latency figures
+   */
+  failures: number;
+}
+
+export interface ReconnectMetrics {
+  /**
+   * Times the connection came back after dropping
+   */
+  count: number;
+  lastDowntimeMs: number | null;
+  totalDowntimeMs: number;
+  /**
+   * When the current outage started, or null while connected
+   */
+  downSince: string | null;
+}
+
+export interface ThroughputMetrics {
+  sent: number;
+  received: number;
+  /**
+   * Messages in the last 60 seconds
+   */
+  sentLastMinute: number;
+  receivedLastMinute: number;
+}
+
+export interface ConnectionMetricsSnapshot {
+  /**
+   * When collection started (construction or the last reset)
+   */
+  since: string;
+  takenAt: string;
+  /**
+   * Hub call latency by method name, e.g. SendInboundMessage or GetThreadHistory
+   */
+  invokes: Record<string, InvokeMetrics>;
+  /**
+   * Time from sending a message to the first agent message carrying its requestId
+   */
+  firstReply: LatencySummary;
+  reconnects: ReconnectMetrics;
+  throughput: ThroughputMetrics;
+}
+
+const MAX_SAMPLES = 200;
+const MAX_AWAITED_REPLIES = 500;
+const THROUGHPUT_WINDOW_MS = 60000;
+
+class LatencyTracker {
+  private samples: number[] = [];
+  private count = 0;
+  private total = 0;
+  private min: number | null = null;
+  private max: number | null = null;
+  private last: number | null = null;
+
+  record(ms: number): void {
+    this.count++;
+    this.total += ms;
+    this.last = ms;
+    this.min = this.min === null ? ms : Math.min(this.min, ms);
+    this.max = this.max === null ? ms : Math.max(this.max, ms);
+    this.samples.push(ms);
+    if (this.samples.length > MAX_SAMPLES) {
+      this.samples.shift();
+    }
+  }
+
+  summary(): LatencySummary {
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    return {
+      count: this.count,
+      lastMs: this.last,
+      minMs: this.min,
+      maxMs: this.max,
+      avgMs: this.count > 0 ? this.total / this.count : null,
+      p95Ms: sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.ceil(sorted.length * 0.95) - 1)] : null
+    };
+  }
+}
+
+/**
+ * Collects the figures behind SocketSDK.getMetrics
+ */
+export class ConnectionMetrics {
+  private since: number;
+  private invokes = new Map<string, { latency: LatencyTracker; failures: number }>();
+  private firstReply = new LatencyTracker();
+  private awaitingReply = new Map<string, number>();
+  private reconnectCount = 0;
+  private lastDowntime: number | null = null;
+  private totalDowntime = 0;
+  private downSince: number | null = null;
+  private sent = 0;
+  private received = 0;
+  private sentTimes: number[] = [];
+  private receivedTimes: number[] = [];
+
+  constructor(private now: () => number = Date.now) {
+    this.since = now();
+  }
+
+  /**
+   * Times a hub call and records it under `method`
+   */
+  async time<T>(method: string, call: () => Promise<T>): Promise<T> {
+    const started = this.now();
+    let entry = this.invokes.get(method);
+    if (!entry) {
+      entry = { latency: new LatencyTracker(), failures: 0 };
+      this.invokes.set(method, entry);
+    }
+
+    try {
+      return await call();
+    } catch (error) {
+      entry.failures++;
+      throw error;
+    } finally {
+      entry.latency.record(this.now() - started);
+    }
+  }
+
+  /**
+   * Records an outgoing message; its first reply is timed from here
+   */
+  messageSent(requestId?: string): void {
+    const now = this.now();
+    this.sent++;
+    this.sentTimes.push(now);
+    trimWindow(this.sentTimes, now);
+    if (!requestId) {
+      return;
+    }
+
+    this.awaitingReply.set(requestId, now);
+    // Requests that never get an answer must not pile up
+    if (this.awaitingReply.size > MAX_AWAITED_REPLIES) {
+      const oldest = this.awaitingReply.keys().next().value;
+      if (oldest !== undefined) {
+        this.awaitingReply.delete(oldest);
+      }
+    }
+  }
+
+  /**
+   * Takes back a message recorded with messageSent whose send failed
+   */
+  messageFailed(requestId?: string): void {
+    this.sent = Math.max(0, this.sent - 1);
+    this.sentTimes.pop();
+    if (requestId) {
+      this.awaitingReply.delete(requestId);
+    }
+  }
+
+  /**
+   * Records an agent message, completing the first-reply time of its request
+   */
+  messageReceived(requestId?: string): void {
+    const now = this.now();
+    this.received++;
+    this.receivedTimes.push(now);
+    trimWindow(this.receivedTimes, now);
+
+    const sentAt = requestId ? this.awaitingReply.get(requestId) : undefined;
+    if (sentAt !== undefined) {
+      this.awaitingReply.delete(requestId!);
+      this.firstReply.record(now - sentAt);
+    }
+  }
+
+  /**
+   * Marks the start of an outage. Repeated calls keep the first start time
+   */
+  connectionLost(): void {
+    this.downSince ??= this.now();
+  }
+
+  /**
+   * Marks the connection as up, counting a reconnect if it had been lost
+   */
+  connectionRestored(): void {
+    if (this.downSince === null) {
+      return;
+    }
+    const downtime = this.now() - this.downSince;
+    this.downSince = null;
+    this.reconnectCount++;
+    this.lastDowntime = downtime;
+    this.totalDowntime += downtime;
+  }
+
+  snapshot(): ConnectionMetricsSnapshot {
+    const now = this.now();
+    trimWindow(this.sentTimes, now);
+    trimWindow(this.receivedTimes, now);
+
+    const invokes: Record<string, InvokeMetrics> = {};
+    this.invokes.forEach(({ latency, failures }, method) => {
+      invokes[method] = { ...latency.summary(), failures };
+    });
+
+    return {
+      since: new Date(this.since).toISOString(),
+      takenAt: new Date(now).toISOString(),
+      invokes,
+      firstReply: this.firstReply.summary(),
+      reconnects: {
+        count: this.reconnectCount,
+        lastDowntimeMs: this.lastDowntime,
+        totalDowntimeMs: this.totalDowntime,
+        downSince: this.downSince === null ? null : new Date(this.downSince).toISOString()
+      },
+      throughput: {
+        sent: this.sent,
+        received: this.received,
+        sentLastMinute: this.sentTimes.length,
+        receivedLastMinute: this.receivedTimes.length
+      }
+    };
+  }
+
+  /**
+   * Starts collecting from scratch. An outage in progress stays open
+   */
+  reset(): void {
+    this.since = this.now();
+    this.invokes.clear();
+    this.firstReply = new LatencyTracker();
+    this.awaitingReply.clear();
+    this.reconnectCount = 0;
+    this.lastDowntime = null;
+    this.totalDowntime = 0;
+    this.sent = 0;
+    this.received = 0;
+    this.sentTimes = [];
+    this.receivedTimes = [];
+  }
+}
+
+/**
+ * Drops timestamps that fell out of the throughput window; `times` is in ascending order
+ */
+function trimWindow(times: number[], now: number): void {
+  let stale = 0;
+  while (stale < times.length && times[stale] <= now - THROUGHPUT_WINDOW_MS) {
+    stale++;
+  }
+  times.splice(0, stale);
+}
@@ -0,0 +1,313 @@
+import { EventDispatcher } from './EventDispatcher';
+import type { Message, BaseMessageRequest } from '../types';
+
+/**
+ * Identifies one conversation thread
+ */
+export interface ConversationKey {
+  workflow: string;
+  participantId: string;
+  scope?: string;
+}
+
+/**
+ * 'pending' and 'failed' only apply to optimistic messages that the server has not echoed yet
+ */
+export type ConversationMessageStatus = 'pending' | 'failed' | 'delivered';
+
+export interface ConversationMessage extends Message {
+  status: ConversationMessageStatus;
+
+  /**
+   * Why an optimistic send failed
+   */
+  error?: string;
+}
+
+/**
+ * Payload of the `change` event. `messages` is the full, sorted thread after the change
+ */
+export interface ConversationChange {
+  messages: ConversationMessage[];
+  added: ConversationMessage[];
+  updated: ConversationMessage[];
+  removed: ConversationMessage[];
+}
+
+export interface ConversationEvents {
+  change: ConversationChange;
+}
+
+/**
+ * Outgoing message for Conversation.send; the thread's workflow, participant and scope are filled in
+ */
+export type ConversationSendRequest = Omit<BaseMessageRequest, 'workflow' | 'participantId' | 'scope'> &
+  Partial<Pick<BaseMessageRequest, 'workflow' | 'participantId' | 'scope'>>;
+
+const PENDING_ID_PREFIX = 'pending:';
+
+/**
+ * One conversation thread built from history pages, live messages and optimistic sends.
+ *
+ * Messages are deduplicated by id, and user messages also by requestId, so the same
+ * message arriving from history and from a live event is kept once. The thread is
+ * always sorted by `createdAt`. A message added with `addOptimistic` (or `send`) shows
+ * as pending until the server echoes a user message with the same requestId, which
+ * then replaces it.
+ */
+export class Conversation {
+  private messages: ConversationMessage[] = [];
+  private dispatcher = new EventDispatcher<ConversationEvents>();
+
+  on = this.dispatcher.on.bind(this.dispatcher);
+  off = this.dispatcher.off.bind(this.dispatcher);
+
+  constructor(readonly key: ConversationKey) {
+    if (!key.workflow) {
+      throw new Error('workflow is required');
+    }
+    if (!key.participantId) {
+      throw new Error('participantId is required');
+    }
+  }
+
+  /** String form of a key, for keeping conversations in a Map. */
+  static keyOf(key: ConversationKey): string {
+    return `${key.workflow}|${key.participantId}|${key.scope ?? ''}`;
+  }
+
+  get id(): string {
+    return Conversation.keyOf(this.key);
+  }
+
+  get size(): number {
+    return this.messages.length;
+  }
+
+  /** Snapshot of the thread, oldest first. */
+  getMessages(): ConversationMessage[] {
+    return [...this.messages];
+  }
+
+  /**
+   * Checks whether a server message belongs to this thread.
+   * `workflow` may be the workflow type or the full `tenant:type` workflow id.
+   */
+  matches(message: Message): boolean {
+    return isThreadMessage(message, this.key.workflow, this.key.participantId) &&
+      (message.scope || undefined) === (this.key.scope || undefined);
+  }
+
+  /**
+   * Merges a page of history (in any order). Messages from other threads are ignored.
+   */
+  addHistory(messages: Message[]): void {
+    this.merge(messages.filter(message => this.matches(message)));
+  }
+
+  /**
+   * Merges a live message. Returns false if it belongs to another thread.
+   */
+  receive(message: Message): boolean {
+    if (!this.matches(message)) {
+      return false;
+    }
+    this.merge([message]);
+    return true;
+  }
+
+  /**
+   * Shows an outgoing message right away, before the server confirms it.
+   * Returns the request to send, with a requestId assigned when it had none.
+   */
+  addOptimistic(request: ConversationSendRequest): BaseMessageRequest & { requestId: string } {
+    const outgoing = {
+      ...request,
+      workflow: request.workflow || this.key.workflow,
+      participantId: request.participantId || this.key.participantId,
+      scope: request.scope ?? this.key.scope,
+      requestId: request.requestId || crypto.randomUUID()
+    };
+
+    const existing = this.messages.find(m => m.direction === 'Incoming' && m.requestId === outgoing.requestId);
+    if (existing) {
+      return outgoing;
+    }
+
+    const message: ConversationMessage = {
+      id: `${PENDING_ID_PREFIX}${outgoing.requestId}`,
+      createdAt: new Date().toISOString(),
+      direction: 'Incoming',
+      messageType: outgoing.type,
+      text: outgoing.text,
+      data: outgoing.data,
+      hint: outgoing.hint,
+      requestId: outgoing.requestId,
+      participantId: outgoing.participantId,
+      workflowId: this.key.workflow,
+      workflowType: this.key.workflow,
+      scope: outgoing.scope,
+      status: 'pending'
+    };
+    this.insert(message);
+    this.emitChange({ added: [message] });
+    return outgoing;
+  }
+
+  /**
+   * Adds the message optimistically and sends it with `sender`.
+   * If sending fails the message is marked failed and the error is rethrown.
+   */
+  async send(
+    request: ConversationSendRequest,
+    sender: (request: BaseMessageRequest & { requestId: string }) => Promise<unknown>
+  ): Promise<void> {
+    const outgoing = this.addOptimistic(request);
+    try {
+      await sender(outgoing);
+    } catch (error) {
+      this.markFailed(outgoing.requestId, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Marks a pending optimistic message as failed
+   */
+  markFailed(requestId: string, error?: unknown): void {
+    this.updatePending(requestId, message => ({
+      ...message,
+      status: 'failed',
+      error: error === undefined ? undefined : (error as any)?.message ?? String(error)
+    }));
+  }
+
+  /**
+   * Puts a failed optimistic message back to pending, e.g. before sending it again
+   */
+  markPending(requestId: string): void {
+    this.updatePending(requestId, message => ({ ...message, status: 'pending', error: undefined }));
+  }
+
+  /**
+   * Drops an optimistic message that was never confirmed. Returns false if there is none.
+   */
+  removeOptimistic(requestId: string): boolean {
+    const message = this.findPending(requestId);
+    if (!message) {
+      return false;
+    }
+    this.messages = this.messages.filter(m => m !== message);
+    this.emitChange({ removed: [message] });
+    return true;
+  }
+
+  /** Removes every message. */
+  clear(): void {
+    const removed = this.messages;
+    this.messages = [];
+    if (removed.length > 0) {
+      this.emitChange({ removed });
+    }
+  }
+
+  private merge(incoming: Message[]): void {
+    const added: ConversationMessage[] = [];
+    const updated: ConversationMessage[] = [];
+
+    for (const raw of incoming) {
+      const message: ConversationMessage = { ...raw, direction: directionOf(raw), status: 'delivered' };
+      const existing = this.messages.find(m =>
+        m.id === message.id ||
+        (!!message.requestId && message.direction === 'Incoming' &&
+          m.direction === 'Incoming' && m.requestId === message.requestId)
+      );
+
+      if (!existing) {
+        this.insert(message);
+        added.push(message);
+        continue;
+      }
+
+      // Server data wins over an optimistic placeholder; an identical echo changes nothing
+      if (existing.status === 'delivered' && existing.id === message.id && sameMessage(existing, message)) {
+        continue;
+      }
+      this.messages = this.messages.filter(m => m !== existing);
+      this.insert(message);
+      updated.push(message);
+    }
+
+    if (added.length > 0 || updated.length > 0) {
+      this.emitChange({ added, updated });
+    }
+  }
+
+  /**
+   * Inserts keeping the list sorted by createdAt; equal timestamps keep arrival order
+   */
+  private insert(message: ConversationMessage): void {
+    const time = timestampOf(message);
+    let index = this.messages.length;
+    while (index > 0 && timestampOf(this.messages[index - 1]) > time) {
+      index--;
+    }
+    this.messages.splice(index, 0, message);
+  }
+
+  private findPending(requestId: string): ConversationMessage | undefined {
+    return this.messages.find(m => m.status !== 'delivered' && m.requestId === requestId);
+  }
+
+  private updatePending(requestId: string, update: (message: ConversationMessage) => ConversationMessage): void {
+    const message = this.findPending(requestId);
+    if (!message) {
+      return;
+    }
+    const next = update(message);
+    this.messages = this.messages.map(m => (m === message ? next : m));
+    this.emitChange({ updated: [next] });
+  }
+
+  private emitChange(change: Partial<ConversationChange>): void {
+    this.dispatcher.emit('change', {
+      messages: this.getMessages(),
+      added: change.added || [],
+      updated: change.updated || [],
+      removed: change.removed || []
+    });
+  }
+}
+
+/**
+ * Checks whether a message was exchanged between `participantId` and `workflow`, which may
+ * be the workflow type or the full `tenant:type` workflow id. Scope is not compared.
+ */
+export function isThreadMessage(message: Message, workflow: string, participantId: string): boolean {
+  return message.participantId === participantId && (
+    message.workflowId === workflow ||
+    message.workflowType === workflow ||
+    !!message.workflowId?.endsWith(`:${workflow}`)
+  );
+}
+
+// Some server paths send the direction as the enum number (0 = Incoming)
+function directionOf(message: Message): Message['direction'] {
+  const direction: unknown = message.direction;
+  if (direction === 0 || (typeof direction === 'string' && direction.toLowerCase() === 'incoming')) {
+    return 'Incoming';
+  }
+  return 'Outgoing';
+}
+
+function timestampOf(message: Message): number {
+  const time = Date.parse(message.createdAt);
+  return Number.isNaN(time) ? 0 : time;
+}
+
+function sameMessage(a: Message, b: Message): boolean {
+  return a.createdAt === b.createdAt &&
+    a.text === b.text &&
+    a.messageType === b.messageType &&
+    JSON.stringify(a.data) === JSON.stringify(b.data);
+}
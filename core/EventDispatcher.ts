@@ -1,23 +1,40 @@
+import { XiansDisposedError, XiansTimeoutError } from './errors';
+
 export type EventCallback<T = any> = (data: T) => void;
 
 export interface EventSubscription {
   unsubscribe: () => void;
 }
 
+/**
+ * Returned by `on`: call it (or its `unsubscribe`) to remove the listener
+ */
+export type EventDisposer = (() => void) & EventSubscription;
+
+/**
+ * Called when a listener throws; the remaining listeners still run
+ */
+export type ListenerErrorHandler<T> = (event: keyof T, error: unknown) => void;
+
 /**
  * Lightweight typed event dispatcher, copied from original middleware but kept
  * UI-agnostic for npm packaging.
  */
 export class EventDispatcher<T extends Record<string, any>> {
   private listeners: Map<keyof T, Set<EventCallback>> = new Map();
+  // Pending waitFor/once promises, rejected by clear so they never hang
+  private waiters: Map<(reason: Error) => void, keyof T> = new Map();
+
+  constructor(private onListenerError?: ListenerErrorHandler<T>) {}
 
-  on<K extends keyof T>(event: K, callback: EventCallback<T[K]>): EventSubscription {
+  on<K extends keyof T>(event: K, callback: EventCallback<T[K]>): EventDisposer {
     if (!this.listeners.has(event)) {
       this.listeners.set(event, new Set());
     }
     const set = this.listeners.get(event)!;
     set.add(callback);
-    return { unsubscribe: () => this.off(event, callback) };
+    const dispose = () => this.off(event, callback);
+    return Object.assign(dispose, { unsubscribe: dispose });
   }
 
   off<K extends keyof T>(event: K, callback: EventCallback<T[K]>): void {
@@ -28,6 +45,62 @@ export class EventDispatcher<T extends Record<string, any>> {
     }
   }
 
+  /**
+   * Without a callback, resolves with the next event. With one, calls it for the next event only
+   */
+  once<K extends keyof T>(event: K): Promise<T[K]>;
+  once<K extends keyof T>(event: K, callback: EventCallback<T[K]>): EventDisposer;
+  once<K extends keyof T>(event: K, callback?: EventCallback<T[K]>): Promise<T[K]> | EventDisposer {
+    if (!callback) {
+      return this.waitFor(event);
+    }
+    const dispose = this.on(event, data => {
+      dispose();
+      callback(data);
+    });
+    return dispose;
+  }
+
+  /**
+   * Resolves with the next event that passes `predicate`. Rejects with XiansTimeoutError after
+   * `timeout` ms, with the predicate's error if it throws, or with clear's `reason`
+   */
+  waitFor<K extends keyof T>(event: K, predicate?: (data: T[K]) => boolean, timeout?: number): Promise<T[K]> {
+    return new Promise<T[K]>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const finish = () => {
+        dispose();
+        this.waiters.delete(fail);
+        if (timer) clearTimeout(timer);
+      };
+      const fail = (reason: Error) => {
+        finish();
+        reject(reason);
+      };
+
+      const dispose = this.on(event, data => {
+        let matched: boolean;
+        try {
+          matched = !predicate || predicate(data);
+        } catch (e) {
+          fail(e as Error);
+          return;
+        }
+        if (matched) {
+          finish();
+          resolve(data);
+        }
+      });
+      this.waiters.set(fail, event);
+
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          fail(new XiansTimeoutError(`Timed out waiting for ${String(event)}`, { timeout }));
+        }, timeout);
+      }
+    });
+  }
+
   emit<K extends keyof T>(event: K, data: T[K]): void {
     const set = this.listeners.get(event);
     if (!set) return;
@@ -35,7 +108,11 @@ export class EventDispatcher<T extends Record<string, any>> {
       try {
         cb(data);
       } catch (e) {
-        console.error(`[EventDispatcher] Listener error for ${String(event)}`, e);
+        if (this.onListenerError) {
+          this.onListenerError(event, e);
+        } else {
+          console.error(`[EventDispatcher] Listener error for ${String(event)}`, e);
+        }
       }
     });
   }
@@ -44,6 +121,21 @@ export class EventDispatcher<T extends Record<string, any>> {
     return this.listeners.get(event)?.size ?? 0;
   }
 
+  /**
+   * Removes every listener, or those of one event. Pending `waitFor`/`once` promises for
+   * the cleared events reject with `reason` (default: XiansDisposedError)
+   */
+  clear(event?: keyof T, reason: Error = new XiansDisposedError('Event listeners were cleared')): void {
+    for (const [fail, waitedFor] of [...this.waiters]) {
+      if (event === undefined || waitedFor === event) fail(reason);
+    }
+    if (event === undefined) {
+      this.listeners.clear();
+    } else {
+      this.listeners.delete(event);
+    }
+  }
+
   getStats() {
     const stats: Record<string, number> = {};
     let total = 0;
@@ -53,4 +145,4 @@ export class EventDispatcher<T extends Record<string, any>> {
     }
     return { totalEvents: this.listeners.size, totalListeners: total, eventStats: stats };
   }
-} 
\ No newline at end of file
+}
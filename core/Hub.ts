@@ -2,21 +2,29 @@ import { ConnectionManager, ConnectionManagerEvents } from './ConnectionManager'
 import { MessageProcessor, MessageProcessorEvents } from './MessageProcessor';
 import { MetadataMessageRouter } from './MetadataMessageRouter';
 import { EventDispatcher } from './EventDispatcher';
+import { OutboundQueue, QueuedMessage } from './OutboundQueue';
+import { XiansError, XiansNetworkError, XiansValidationError, toXiansError } from './errors';
+import { PayloadSchema, SchemaRegistry } from './schema';
 import type { Settings, Agent, ConnectionState } from './types';
+import type { LoggerFunction } from '../types';
 
 export interface HubEvents {
   message: { workflowId: string; data: any };
   connection_change: { workflowId: string; data: ConnectionState };
-  error: any;
+  queue_change: { workflowId: string; data: QueuedMessage };
+  invalid_data: XiansValidationError;
+  error: XiansError;
 }
 
 export class Hub {
   private connMgr: ConnectionManager;
   private router: MetadataMessageRouter;
+  private schemas = new SchemaRegistry();
   private processor: MessageProcessor;
   private dispatcher = new EventDispatcher<HubEvents>();
   private agents: Agent[] = [];
   private settings!: Settings;
+  private queue: OutboundQueue | null = null;
 
   // Bind public methods after instantiation to avoid referencing before init
   on = this.dispatcher.on.bind(this.dispatcher);
@@ -28,16 +36,18 @@ export class Hub {
     const mpEvents: MessageProcessorEvents = {
       onChatMessage: (workflowId, msg) => this.dispatcher.emit('message', { workflowId, data: msg }),
       onThreadUpdate: () => {},
-      onError: (_, err) => this.dispatcher.emit('error', err)
+      onError: (_, err) => this.dispatcher.emit('error', toXiansError(err)),
+      onInvalidData: err => this.dispatcher.emit('invalid_data', err)
     };
-    this.processor = new MessageProcessor(mpEvents, this.router);
+    this.processor = new MessageProcessor(mpEvents, this.router, this.schemas);
 
     const cmEvents: ConnectionManagerEvents = {
       onConnectionChange: (idx, state) => {
         const workflowType = this.agents[idx]?.workflowType;
         if (workflowType) this.dispatcher.emit('connection_change', { workflowId: workflowType, data: state });
+        if (workflowType && state.status === 'connected') this.flushQueue(idx);
       },
-      onConnectionError: (_, err) => this.dispatcher.emit('error', err)
+      onConnectionError: (_, err) => this.dispatcher.emit('error', toXiansError(err))
     };
     this.connMgr = new ConnectionManager(cmEvents, this.processor);
 
@@ -47,13 +57,20 @@ export class Hub {
   async initialize(settings: Settings, agents: Agent[]) {
     this.settings = settings;
     this.agents = agents;
+    if (settings.offlineQueue && !this.queue) {
+      this.queue = new OutboundQueue({
+        logger: (level, message, data) => this.log(level, message, data),
+        ...(settings.offlineQueue === true ? {} : settings.offlineQueue)
+      });
+      this.queue.on('change', msg => this.dispatcher.emit('queue_change', { workflowId: msg.payload.workflowType, data: msg }));
+    }
     await this.connMgr.initialize(settings, agents);
   }
 
-  sendChat(workflowType: string, text: string, extraData: any = {}, overrideDefaultData?: string) {
+  async sendChat(workflowType: string, text: string, extraData: any = {}, overrideDefaultData?: string) {
     const idx = this.findAgentIndex(workflowType);
     const conn = this.connMgr.getConnection(idx);
-    if (!conn) throw new Error('No connection');
+    if (!conn && !this.queue) throw new XiansNetworkError('No connection', { code: 'NOT_CONNECTED' });
     const agent = this.agents[idx];
     
     // Get default data dynamically if function is provided, otherwise use override if provided
@@ -91,13 +108,18 @@ export class Hub {
         ...extraData
       }
     };
-    return conn.invoke('SendInboundMessage', payload, 'Chat');
+    return this.send(idx, payload, 'Chat');
   }
 
-  sendData(workflowType: string, data: any) {
+  async sendData(workflowType: string, data: any) {
+    // Checked before anything is queued or sent; throws XiansValidationError.
+    // The schema's output is what goes out, with the type kept in case the schema strips it
+    if (typeof data?.messageType === 'string') {
+      data = { ...(this.schemas.parse(data.messageType, data) as object), messageType: data.messageType };
+    }
     const idx = this.findAgentIndex(workflowType);
     const conn = this.connMgr.getConnection(idx);
-    if (!conn) throw new Error('No connection');
+    if (!conn && !this.queue) throw new XiansNetworkError('No connection', { code: 'NOT_CONNECTED' });
     const agent = this.agents[idx];
     const payload = {
       participantId: this.settings.participantId,
@@ -107,9 +129,61 @@ export class Hub {
       ...(this.connMgr.getThreadId(idx) ? { threadId: this.connMgr.getThreadId(idx) } : {}),
       data
     };
-    return conn.invoke('SendInboundMessage', payload, 'Data');
+    return this.send(idx, payload, 'Data');
+  }
+
+  /**
+   * Sends right away, or queues while the agent is offline or its queue has not drained yet,
+   * so a new message never overtakes one queued before it.
+   */
+  private async send(idx: number, payload: any, messageType: 'Chat' | 'Data'): Promise<void> {
+    const workflowType = payload.workflowType;
+    if (this.queue && (!this.connMgr.getConnection(idx) || await this.queue.hasPending(m => m.payload.workflowType === workflowType))) {
+      await this.enqueue(payload, messageType);
+      if (this.connMgr.getConnection(idx)) this.flushQueue(idx);
+      return;
+    }
+    const conn = this.connMgr.getConnection(idx);
+    if (!conn) throw new XiansNetworkError('No connection', { code: 'NOT_CONNECTED' });
+    await conn.invoke('SendInboundMessage', payload, messageType);
+  }
+
+  /** Hold a message until the agent's connection is back; the requestId lets the queue dedupe it. */
+  private async enqueue(payload: any, messageType: 'Chat' | 'Data'): Promise<void> {
+    const requestId = payload.requestId || crypto.randomUUID();
+    this.log('info', `Queueing ${messageType} message ${requestId} for ${payload.workflowType}`);
+    await this.queue!.enqueue(requestId, messageType, { ...payload, requestId });
   }
 
+  /** Send queued messages for the agent at `idx` in the order they were queued. */
+  private flushQueue(idx: number) {
+    const workflowType = this.agents[idx]?.workflowType;
+    if (!this.queue || this.queue.size === 0 || !workflowType) return;
+    this.queue
+      .flush(
+        msg => {
+          const conn = this.connMgr.getConnection(idx);
+          if (!conn) return Promise.reject(new XiansNetworkError('No connection', { code: 'NOT_CONNECTED' }));
+          return conn.invoke('SendInboundMessage', msg.payload, msg.messageType);
+        },
+        msg => msg.payload.workflowType === workflowType
+      )
+      .catch(err => this.log('error', `Failed to flush queued messages for ${workflowType}`, err));
+  }
+
+  /** Reports through the `logger` setting, or the console when none is set. */
+  private log(level: Parameters<LoggerFunction>[0], message: string, data?: unknown) {
+    if (this.settings?.logger) {
+      this.settings.logger(level, message, data);
+    } else {
+      console[level](`[Hub] ${message}`, data ?? '');
+    }
+  }
+
+  getQueuedMessages = (): QueuedMessage[] => this.queue?.getMessages() || [];
+  retryQueuedMessage = (requestId: string) => this.queue?.retry(requestId) ?? Promise.resolve(false);
+  removeQueuedMessage = (requestId: string) => this.queue?.remove(requestId) ?? Promise.resolve(false);
+
   private findAgentIndex(workflowType: string) {
     const idx = this.agents.findIndex(a => a.workflowType === workflowType);
     if (idx === -1) throw new Error(`Agent ${workflowType} not registered`);
@@ -123,6 +197,8 @@ export class Hub {
 
   unsubscribeFromData(id: string) { this.router.unsubscribe(id); }
 
+  registerDataSchema = (messageType: string, schema: PayloadSchema<unknown>) => this.schemas.register(messageType, schema);
+
   disconnectAll() { return this.connMgr.disconnectAll(); }
 
   async refreshThreadHistory(workflowType: string): Promise<boolean> {
@@ -1,5 +1,7 @@
 import type { Message, ChatMessage } from './types';
 import { MetadataMessageRouter } from './MetadataMessageRouter';
+import { SchemaRegistry, invalidPayloadError } from './schema';
+import type { XiansValidationError } from './errors';
 
 export interface ProcessedChatMessage extends ChatMessage {
   workflowId: string;
@@ -9,11 +11,16 @@ export interface MessageProcessorEvents {
   onChatMessage: (workflowId: string, message: ProcessedChatMessage) => void;
   onThreadUpdate: (workflowId: string, threadId: string) => void;
   onError: (workflowId: string, error: any) => void;
+  onInvalidData?: (error: XiansValidationError) => void;
 }
 
 export class MessageProcessor {
   private histories = new Map<string, Message[]>();
-  constructor(private events: MessageProcessorEvents, private metadataRouter: MetadataMessageRouter) {}
+  constructor(
+    private events: MessageProcessorEvents,
+    private metadataRouter: MetadataMessageRouter,
+    private schemas: SchemaRegistry = new SchemaRegistry()
+  ) {}
 
   processMessage(workflowId: string, msg: Message, isHistorical = false) {
     if (!this.histories.has(workflowId)) this.histories.set(workflowId, []);
@@ -62,7 +69,15 @@ export class MessageProcessor {
     }
     payload.messageType = detectedType || 'UNKNOWN';
     console.log('[MessageProcessor] (SDK) raw metadata received', message);
-    this.metadataRouter.routeMessage(payload);
+
+    // Payloads that fail their schema go to onInvalidData instead of the subscribers
+    const result = this.schemas.validate(payload.messageType, payload);
+    if (!result.success) {
+      this.events.onInvalidData?.(invalidPayloadError(payload.messageType, result.issues, payload));
+      return;
+    }
+    // Schemas may strip properties they do not know; subscribers still need the type
+    this.metadataRouter.routeMessage({ ...(result.data as object), messageType: payload.messageType });
   }
 
   processThreadUpdate(threadId: string, workflowId: string) {
@@ -0,0 +1,320 @@
+import { EventDispatcher } from './EventDispatcher';
+import type { LoggerFunction } from '../types';
+
+export type QueuedMessageStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+/**
+ * Outbound message held while the connection is down
+ */
+export interface QueuedMessage<T = any> {
+  requestId: string;
+  messageType: string;
+  payload: T;
+  status: QueuedMessageStatus;
+  attempts: number;
+  enqueuedAt: string;
+  lastError?: string;
+}
+
+/**
+ * Persistence backend for the outbound queue.
+ * The whole queue is loaded once and saved after every change. A load that
+ * rejects is logged and the queue starts empty.
+ */
+export interface QueueStorage {
+  load(): Promise<QueuedMessage[]>;
+  save(messages: QueuedMessage[]): Promise<void>;
+}
+
+export interface OutboundQueueOptions {
+  /**
+   * Where queued messages are kept (default: in memory)
+   */
+  storage?: QueueStorage;
+
+  /**
+   * Maximum number of messages held; enqueue fails beyond this (default: 100)
+   */
+  maxSize?: number;
+
+  /**
+   * Send attempts before a message is marked failed (default: 3)
+   */
+  maxAttempts?: number;
+
+  /**
+   * Receives storage load and save failures (default: the owning SDK's logger)
+   */
+  logger?: LoggerFunction;
+}
+
+export interface OutboundQueueEvents {
+  change: QueuedMessage;
+}
+
+const DEFAULT_STORAGE_KEY = 'xians-outbound-queue';
+
+/** Keeps the queue in memory only – lost on reload. */
+export class MemoryQueueStorage implements QueueStorage {
+  private messages: QueuedMessage[] = [];
+
+  async load(): Promise<QueuedMessage[]> {
+    return this.messages.map(m => ({ ...m }));
+  }
+
+  async save(messages: QueuedMessage[]): Promise<void> {
+    this.messages = messages.map(m => ({ ...m }));
+  }
+}
+
+/** Persists the queue as JSON in browser localStorage. */
+export class LocalStorageQueueStorage implements QueueStorage {
+  constructor(private key: string = DEFAULT_STORAGE_KEY) {}
+
+  async load(): Promise<QueuedMessage[]> {
+    const raw = globalThis.localStorage?.getItem(this.key);
+    return raw ? JSON.parse(raw) : [];
+  }
+
+  async save(messages: QueuedMessage[]): Promise<void> {
+    globalThis.localStorage?.setItem(this.key, JSON.stringify(messages));
+  }
+}
+
+/** Persists the queue in a browser IndexedDB object store. */
+export class IndexedDBQueueStorage implements QueueStorage {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private dbName: string = 'xians-sdk',
+    private storeName: string = 'outbound-queue',
+    private key: string = DEFAULT_STORAGE_KEY
+  ) {}
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = globalThis.indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  async load(): Promise<QueuedMessage[]> {
+    const db = await this.openDb();
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(this.storeName, 'readonly').objectStore(this.storeName).get(this.key);
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async save(messages: QueuedMessage[]): Promise<void> {
+    const db = await this.openDb();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(this.storeName, 'readwrite');
+      tx.objectStore(this.storeName).put(messages, this.key);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+}
+
+/** Persists the queue as a JSON file – Node.js only. */
+export class FileQueueStorage implements QueueStorage {
+  constructor(private filePath: string) {}
+
+  async load(): Promise<QueuedMessage[]> {
+    const fs = await import('fs/promises');
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  async save(messages: QueuedMessage[]): Promise<void> {
+    const fs = await import('fs/promises');
+    // Write then rename so a crash mid-write never leaves a truncated file
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(messages, null, 2), 'utf8');
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * Buffers outbound messages while the connection is down and flushes them in
+ * order once it is back. Messages are deduplicated by requestId.
+ *
+ * Order is kept only until a message is marked failed: later messages are then
+ * sent past it, so if it is retried it reaches the server after them.
+ */
+export class OutboundQueue<T = any> {
+  private messages: QueuedMessage<T>[] = [];
+  private storage: QueueStorage;
+  private maxSize: number;
+  private maxAttempts: number;
+  private logger?: LoggerFunction;
+  private ready: Promise<void>;
+  private flushing: Promise<void> | null = null;
+  private dispatcher = new EventDispatcher<OutboundQueueEvents>();
+
+  on = this.dispatcher.on.bind(this.dispatcher);
+  off = this.dispatcher.off.bind(this.dispatcher);
+
+  constructor(options: OutboundQueueOptions = {}) {
+    this.storage = options.storage || new MemoryQueueStorage();
+    this.maxSize = options.maxSize ?? 100;
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.logger = options.logger;
+    this.ready = this.storage.load().then(
+      stored => {
+        // Anything caught mid-send by a crash goes back to the queue
+        this.messages = stored.map(m => (m.status === 'sending' ? { ...m, status: 'queued' } : m));
+      },
+      error => this.logger?.('warn', 'Ignoring unreadable outbound queue storage', error)
+    );
+  }
+
+  /**
+   * Adds a message to the queue. If a message with the same requestId is
+   * already waiting, that entry is returned instead of adding a duplicate.
+   */
+  async enqueue(requestId: string, messageType: string, payload: T): Promise<QueuedMessage<T>> {
+    await this.ready;
+
+    const existing = this.messages.find(m => m.requestId === requestId);
+    if (existing && existing.status !== 'failed') {
+      return { ...existing };
+    }
+    if (existing) {
+      this.messages = this.messages.filter(m => m !== existing);
+    }
+
+    if (this.messages.length >= this.maxSize) {
+      throw new Error(`Outbound queue is full (${this.maxSize} messages)`);
+    }
+
+    const message: QueuedMessage<T> = {
+      requestId,
+      messageType,
+      payload,
+      status: 'queued',
+      attempts: 0,
+      enqueuedAt: new Date().toISOString()
+    };
+    this.messages.push(message);
+    await this.persist();
+    this.dispatcher.emit('change', { ...message });
+    return { ...message };
+  }
+
+  /**
+   * Sends queued messages in order using `sender`. Stops at the first failure;
+   * the message is retried first on the next flush until it runs out of attempts
+   * and is marked failed. Failed messages are skipped until `retry` is called.
+   * `filter` limits the flush to matching messages.
+   */
+  async flush(
+    sender: (message: QueuedMessage<T>) => Promise<void>,
+    filter?: (message: QueuedMessage<T>) => boolean
+  ): Promise<void> {
+    await this.ready;
+
+    // Chain onto a running flush rather than sending the same message twice
+    const run = async () => {
+      for (const message of this.messages.filter(m => m.status === 'queued' && (!filter || filter(m)))) {
+        this.update(message, { status: 'sending', attempts: message.attempts + 1 });
+        try {
+          await sender(message);
+        } catch (error) {
+          const lastError = error instanceof Error ? error.message : String(error);
+          const status = message.attempts >= this.maxAttempts ? 'failed' : 'queued';
+          this.update(message, { status, lastError });
+          await this.persist();
+          return;
+        }
+        this.messages = this.messages.filter(m => m !== message);
+        this.update(message, { status: 'sent', lastError: undefined });
+        await this.persist();
+      }
+    };
+
+    const previous = this.flushing || Promise.resolve();
+    const current = previous.then(run);
+    this.flushing = current.finally(() => {
+      if (this.flushing === current) this.flushing = null;
+    });
+    return current;
+  }
+
+  /** Puts a failed message back in the queue for the next flush. */
+  async retry(requestId: string): Promise<boolean> {
+    await this.ready;
+    const message = this.messages.find(m => m.requestId === requestId && m.status === 'failed');
+    if (!message) return false;
+    this.update(message, { status: 'queued', attempts: 0 });
+    await this.persist();
+    return true;
+  }
+
+  /** Drops a message from the queue without sending it. */
+  async remove(requestId: string): Promise<boolean> {
+    await this.ready;
+    const before = this.messages.length;
+    this.messages = this.messages.filter(m => m.requestId !== requestId || m.status === 'sending');
+    if (this.messages.length === before) return false;
+    await this.persist();
+    return true;
+  }
+
+  async clear(): Promise<void> {
+    await this.ready;
+    this.messages = this.messages.filter(m => m.status === 'sending');
+    await this.persist();
+  }
+
+  /**
+   * Whether a message matching `filter` is queued or being sent. Failed messages do not
+   * count. New sends should go through the queue until this is false, or they can
+   * overtake messages queued before them.
+   */
+  async hasPending(filter?: (message: QueuedMessage<T>) => boolean): Promise<boolean> {
+    await this.ready;
+    return this.messages.some(m => m.status !== 'failed' && (!filter || filter(m)));
+  }
+
+  /** Snapshot of every message still waiting (queued, sending or failed). */
+  getMessages(): QueuedMessage<T>[] {
+    return this.messages.map(m => ({ ...m }));
+  }
+
+  getStatus(requestId: string): QueuedMessageStatus | undefined {
+    return this.messages.find(m => m.requestId === requestId)?.status;
+  }
+
+  get size(): number {
+    return this.messages.length;
+  }
+
+  private update(message: QueuedMessage<T>, changes: Partial<QueuedMessage<T>>) {
+    Object.assign(message, changes);
+    this.dispatcher.emit('change', { ...message });
+  }
+
+  private async persist() {
+    try {
+      await this.storage.save(this.messages);
+    } catch (error: unknown) {
+      this.logger?.('warn', 'Failed to persist outbound queue', error);
+    }
+  }
+}
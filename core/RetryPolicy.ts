@@ -0,0 +1,98 @@
+/**
+ * Decides how long to wait before the next retry.
+ * `attempt` starts at 1 for the first retry; return null to stop retrying.
+ */
+export interface RetryPolicy {
+  nextDelay(attempt: number, error?: unknown): number | null;
+}
+
+export interface ExponentialRetryOptions {
+  initialDelay?: number; // delay before the first retry (default: 1000ms)
+  maxDelay?: number;     // upper bound for a single delay (default: 30000ms)
+  factor?: number;       // growth per attempt (default: 2)
+  maxAttempts?: number;  // retries before giving up (default: unlimited)
+}
+
+export interface JitterRetryOptions extends ExponentialRetryOptions {
+  jitter?: number; // share of each delay that is randomised, 0..1 (default: 1 – full jitter)
+}
+
+/** Waits the same delay before every retry. */
+export class FixedRetryPolicy implements RetryPolicy {
+  constructor(private delay: number, private maxAttempts: number = Infinity) {}
+
+  nextDelay(attempt: number): number | null {
+    return attempt > this.maxAttempts ? null : this.delay;
+  }
+}
+
+/** Doubles (or grows by `factor`) the delay after every retry, capped at `maxDelay`. */
+export class ExponentialRetryPolicy implements RetryPolicy {
+  protected initialDelay: number;
+  protected maxDelay: number;
+  protected factor: number;
+  protected maxAttempts: number;
+
+  constructor(options: ExponentialRetryOptions = {}) {
+    this.initialDelay = options.initialDelay ?? 1000;
+    this.maxDelay = options.maxDelay ?? 30000;
+    this.factor = options.factor ?? 2;
+    this.maxAttempts = options.maxAttempts ?? Infinity;
+  }
+
+  nextDelay(attempt: number): number | null {
+    if (attempt > this.maxAttempts) return null;
+    return Math.min(this.initialDelay * Math.pow(this.factor, attempt - 1), this.maxDelay);
+  }
+}
+
+/**
+ * Exponential backoff with a random share taken off each delay, so many
+ * clients dropped at once do not all reconnect at the same moment.
+ */
+export class JitterRetryPolicy extends ExponentialRetryPolicy {
+  private jitter: number;
+
+  constructor(options: JitterRetryOptions = {}) {
+    super(options);
+    this.jitter = Math.min(Math.max(options.jitter ?? 1, 0), 1);
+  }
+
+  nextDelay(attempt: number): number | null {
+    const delay = super.nextDelay(attempt);
+    if (delay === null) return null;
+    return Math.round(delay * (1 - this.jitter * Math.random()));
+  }
+}
+
+/**
+ * Uses a fixed list of delays (one per retry) or a callback.
+ * A list stops retrying once it runs out of entries.
+ */
+export class CustomRetryPolicy implements RetryPolicy {
+  constructor(private delays: number[] | ((attempt: number, error?: unknown) => number | null)) {}
+
+  nextDelay(attempt: number, error?: unknown): number | null {
+    if (typeof this.delays === 'function') {
+      return this.delays(attempt, error);
+    }
+    return this.delays[attempt - 1] ?? null;
+  }
+}
+
+/** HTTP statuses the REST SDK retries by default. */
+export const DEFAULT_RETRY_STATUS_CODES = [429, 502, 503, 504];
+
+/**
+ * Parses a Retry-After header (seconds or HTTP date) into milliseconds.
+ * Returns null when the header is missing or unreadable.
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(seconds, 0) * 1000;
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(date - now, 0);
+}
@@ -0,0 +1,165 @@
+import { XiansAuthError } from './errors';
+import type { LoggerFunction } from '../types';
+
+export interface TokenProviderOptions {
+  /**
+   * Fetches a fresh JWT (usually your app's token endpoint)
+   */
+  getToken: () => Promise<string> | string;
+
+  /**
+   * How long before the `exp` claim a token is refreshed, in milliseconds (default: 60000)
+   */
+  refreshMargin?: number;
+
+  /**
+   * Refresh on a timer ahead of expiry instead of waiting for the next request (default: true)
+   */
+  proactiveRefresh?: boolean;
+
+  /**
+   * Receives failures of the proactive refresh, which has no caller to reject
+   */
+  logger?: LoggerFunction;
+}
+
+const DEFAULT_REFRESH_MARGIN = 60000;
+
+/**
+ * Reads the `exp` claim of a JWT as epoch milliseconds.
+ * Returns null for tokens that are not JWTs or carry no expiry.
+ */
+export function decodeJwtExpiry(token: string): number | null {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(payload.length / 4) * 4, '=');
+    const json = typeof atob === 'function'
+      ? atob(base64)
+      : Buffer.from(base64, 'base64').toString('binary');
+    const exp = JSON.parse(json).exp;
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Caches a JWT until shortly before it expires and refreshes it once for all
+ * concurrent callers. Tokens without an `exp` claim are never cached, so the
+ * callback runs for every request as before.
+ *
+ * One provider can be shared by several SDK instances.
+ */
+export class TokenProvider {
+  private token: string | null = null;
+  private expiresAt: number | null = null;
+  private pending: Promise<string> | null = null;
+  private refreshTimer: (ReturnType<typeof setTimeout> & { unref?: () => void }) | null = null;
+  private refreshMargin: number;
+  private proactiveRefresh: boolean;
+
+  constructor(private options: TokenProviderOptions) {
+    this.refreshMargin = options.refreshMargin ?? DEFAULT_REFRESH_MARGIN;
+    this.proactiveRefresh = options.proactiveRefresh ?? true;
+  }
+
+  /** Returns the cached token, refreshing it first when it is missing or about to expire. */
+  async getToken(): Promise<string> {
+    if (this.token && this.expiresAt !== null && Date.now() < this.expiresAt - this.refreshMargin) {
+      return this.token;
+    }
+    return this.refresh();
+  }
+
+  /** Fetches a new token. Concurrent calls share one request. */
+  refresh(): Promise<string> {
+    if (!this.pending) {
+      this.pending = this.fetchToken().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  /** Drops the cached token so the next getToken fetches a new one. */
+  invalidate(): void {
+    this.token = null;
+    this.expiresAt = null;
+    this.clearRefreshTimer();
+  }
+
+  /** Expiry of the cached token as epoch milliseconds, or null when unknown. */
+  getExpiresAt(): number | null {
+    return this.expiresAt;
+  }
+
+  /** Stops the proactive refresh timer. */
+  dispose(): void {
+    this.clearRefreshTimer();
+  }
+
+  private async fetchToken(): Promise<string> {
+    let token: string;
+    try {
+      token = await this.options.getToken();
+    } catch (error) {
+      this.invalidate();
+      throw new XiansAuthError(`Failed to get JWT token: ${error}`, { cause: error });
+    }
+    if (!token) {
+      this.invalidate();
+      throw new XiansAuthError('getJwtToken returned an empty token');
+    }
+
+    this.token = token;
+    this.expiresAt = decodeJwtExpiry(token);
+    this.scheduleRefresh();
+    return token;
+  }
+
+  private scheduleRefresh(): void {
+    this.clearRefreshTimer();
+    if (!this.proactiveRefresh || this.expiresAt === null) return;
+
+    const delay = this.expiresAt - this.refreshMargin - Date.now();
+    // Tokens that are already inside the margin are refreshed lazily by getToken
+    if (delay <= 0) return;
+
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refresh().catch((error: unknown) => this.options.logger?.('warn', 'Proactive token refresh failed', error));
+    }, delay);
+    // Never keep a Node.js process alive just to refresh a token
+    this.refreshTimer.unref?.();
+  }
+
+  private clearRefreshTimer(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+}
+
+/**
+ * Picks the token provider an SDK should use: the shared one from the options,
+ * or a private one wrapping the getJwtToken callback and reporting to the SDK's logger
+ */
+export function resolveTokenProvider(options: {
+  tokenProvider?: TokenProvider;
+  getJwtToken?: () => Promise<string> | string;
+  tokenRefreshMargin?: number;
+  logger?: LoggerFunction;
+}): TokenProvider | null {
+  if (options.tokenProvider) return options.tokenProvider;
+  if (options.getJwtToken) {
+    return new TokenProvider({
+      getToken: options.getJwtToken,
+      refreshMargin: options.tokenRefreshMargin,
+      logger: options.logger
+    });
+  }
+  return null;
+}
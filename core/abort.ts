@@ -0,0 +1,106 @@
+/*
+ * Helpers for the optional AbortSignal accepted by SDK operations.
+ */
+import { XiansAbortError } from './errors';
+
+/** Creates the error an aborted operation rejects with, keeping the signal's reason as the cause. */
+export function abortError(signal?: AbortSignal): XiansAbortError {
+  return new XiansAbortError('Operation aborted', { cause: signal?.reason });
+}
+
+/** Throws a XiansAbortError when the signal has already been aborted. */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw abortError(signal);
+  }
+}
+
+export interface CombinedSignal {
+  signal: AbortSignal;
+  /** Removes the listeners added to the input signals. Call it once the operation has settled */
+  dispose(): void;
+}
+
+/**
+ * Returns a signal that aborts as soon as any of the given signals does.
+ * Undefined entries are ignored, so optional caller signals can be passed straight in.
+ * The listeners stay on the input signals until one aborts or `dispose` is called, so a
+ * long-lived caller signal must be disposed from once each operation settles.
+ */
+export function combineSignals(...signals: (AbortSignal | undefined)[]): CombinedSignal {
+  const active = signals.filter((signal): signal is AbortSignal => !!signal);
+  if (active.length === 1) {
+    return { signal: active[0], dispose: () => undefined };
+  }
+
+  // Not AbortSignal.any: some runtimes let its result be garbage collected while a
+  // request still waits on it, and older ones do not have it at all
+  const controller = new AbortController();
+  const dispose = () => active.forEach(signal => signal.removeEventListener('abort', onAbort));
+  const abort = (signal: AbortSignal) => {
+    controller.abort(signal.reason);
+    dispose();
+  };
+  const onAbort = (event: Event) => abort(event.target as AbortSignal);
+
+  for (const signal of active) {
+    if (signal.aborted) {
+      abort(signal);
+      break;
+    }
+    signal.addEventListener('abort', onAbort);
+  }
+  return { signal: controller.signal, dispose };
+}
+
+/**
+ * Rejects with a XiansAbortError when the signal aborts before the promise settles.
+ * The underlying work keeps running; only the wait is cancelled.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    // The caller no longer waits, so a later rejection must not go unhandled
+    promise.catch(() => undefined);
+    return Promise.reject(abortError(signal));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      promise.catch(() => undefined);
+      reject(abortError(signal));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/** Waits for the given time, rejecting early with a XiansAbortError when the signal aborts. */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(abortError(signal));
+  }
+
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
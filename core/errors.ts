@@ -0,0 +1,166 @@
+/**
+ * Error classes thrown and reported by every SDK.
+ * Check with `instanceof` or the `code` field instead of parsing message text.
+ * Invalid arguments and options are still reported with a plain Error.
+ */
+
+export type XiansErrorCode =
+  | 'AUTH_FAILED'
+  | 'TIMEOUT'
+  | 'NETWORK_ERROR'
+  | 'NOT_CONNECTED'
+  | 'CONNECTION_FAILED'
+  | 'SERVER_ERROR'
+  | 'PARSE_ERROR'
+  | 'PROTOCOL_ERROR'
+  | 'DISPOSED'
+  | 'ABORTED'
+  | 'MESSAGE_DROPPED'
+  | 'DUPLICATE_REQUEST'
+  | 'VALIDATION_ERROR'
+  | 'UNKNOWN';
+
+export interface XiansErrorOptions {
+  code?: XiansErrorCode;
+  cause?: unknown;
+}
+
+/** Base class for every error the SDK produces. */
+export class XiansError extends Error {
+  readonly code: XiansErrorCode;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: XiansErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.code = options.code || 'UNKNOWN';
+    this.cause = options.cause;
+    // Keep instanceof working if a consumer downlevels classes to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/** Credentials were rejected (401/403) or a JWT token could not be obtained. */
+export class XiansAuthError extends XiansError {
+  readonly statusCode?: number;
+
+  constructor(message: string, options: XiansErrorOptions & { statusCode?: number } = {}) {
+    super(message, { code: 'AUTH_FAILED', ...options });
+    this.statusCode = options.statusCode;
+  }
+}
+
+/** An operation did not finish in time. */
+export class XiansTimeoutError extends XiansError {
+  readonly timeout?: number;
+
+  constructor(message: string, options: XiansErrorOptions & { timeout?: number } = {}) {
+    super(message, { code: 'TIMEOUT', ...options });
+    this.timeout = options.timeout;
+  }
+}
+
+/** The server could not be reached, or the connection is down. */
+export class XiansNetworkError extends XiansError {
+  constructor(message: string, options: XiansErrorOptions = {}) {
+    super(message, { code: 'NETWORK_ERROR', ...options });
+  }
+}
+
+/** The server answered with an error status, or reported an error over the connection. */
+export class XiansServerError extends XiansError {
+  readonly statusCode?: number;
+  readonly data?: unknown;
+
+  constructor(message: string, statusCode?: number, options: XiansErrorOptions & { data?: unknown } = {}) {
+    super(message, { code: 'SERVER_ERROR', ...options });
+    this.statusCode = statusCode;
+    this.data = options.data;
+  }
+}
+
+/** The server sent something the SDK could not understand. */
+export class XiansProtocolError extends XiansError {
+  constructor(message: string, options: XiansErrorOptions = {}) {
+    super(message, { code: 'PROTOCOL_ERROR', ...options });
+  }
+}
+
+/** The caller aborted the operation through its AbortSignal. */
+export class XiansAbortError extends XiansError {
+  constructor(message: string = 'Operation aborted', options: XiansErrorOptions = {}) {
+    super(message, { code: 'ABORTED', ...options });
+  }
+}
+
+/** The SDK was used after dispose(). */
+export class XiansDisposedError extends XiansError {
+  constructor(message: string = 'SDK has been disposed', options: XiansErrorOptions = {}) {
+    super(message, { code: 'DISPOSED', ...options });
+  }
+}
+
+/** A Data message payload did not match the schema registered for its messageType. */
+export class XiansValidationError extends XiansError {
+  readonly messageType?: string;
+  readonly issues: { path: string; message: string }[];
+  readonly data?: unknown;
+
+  constructor(
+    message: string,
+    options: XiansErrorOptions & { messageType?: string; issues?: { path: string; message: string }[]; data?: unknown } = {}
+  ) {
+    super(message, { code: 'VALIDATION_ERROR', ...options });
+    this.messageType = options.messageType;
+    this.issues = options.issues || [];
+    this.data = options.data;
+  }
+}
+
+/**
+ * Maps an HTTP error status to the matching error class
+ */
+export function errorFromStatus(
+  statusCode: number,
+  message: string,
+  options: { data?: unknown; cause?: unknown } = {}
+): XiansError {
+  if (statusCode === 401 || statusCode === 403) {
+    return new XiansAuthError(message, { statusCode, cause: options.cause });
+  }
+  return new XiansServerError(message, statusCode, options);
+}
+
+/**
+ * Wraps anything thrown by fetch, SignalR or user callbacks in a XiansError.
+ * XiansErrors are returned unchanged; errors that match no known kind go through `wrap`.
+ */
+export function toXiansError(
+  error: unknown,
+  wrap: (message: string, cause: unknown) => XiansError = (message, cause) => new XiansError(message, { cause })
+): XiansError {
+  if (error instanceof XiansError) {
+    return error;
+  }
+
+  const message = typeof error === 'string'
+    ? error
+    : typeof (error as any)?.message === 'string' ? (error as any).message : 'Unknown error';
+  const name = (error as any)?.name;
+  const statusCode = (error as any)?.statusCode;
+
+  if (name === 'TimeoutError') {
+    return new XiansTimeoutError(message, { cause: error });
+  }
+  if (name === 'AbortError') {
+    return new XiansAbortError(message, { cause: error });
+  }
+  if (typeof statusCode === 'number') {
+    return errorFromStatus(statusCode, message, { cause: error });
+  }
+  // fetch reports unreachable hosts and dropped connections as TypeError
+  if (error instanceof TypeError) {
+    return new XiansNetworkError(message, { cause: error });
+  }
+  return wrap(message, error);
+}
@@ -0,0 +1,119 @@
+/*
+ * Walks paged conversation history for RestSDK.iterateHistory and SocketSDK.iterateHistory.
+ */
+import type { Message, OperationOptions } from '../types';
+import { throwIfAborted } from './abort';
+
+export type HistoryDirection = 'newest-first' | 'oldest-first';
+
+export interface HistoryIteratorOptions extends OperationOptions {
+  /**
+   * Order messages are yielded in (default: 'newest-first').
+   * 'oldest-first' has to load every page in range before yielding the first message.
+   */
+  direction?: HistoryDirection;
+
+  /**
+   * Only messages created at or after this time
+   */
+  since?: Date | string | number;
+
+  /**
+   * Only messages created before this time
+   */
+  before?: Date | string | number;
+
+  /**
+   * Stop after this many messages
+   */
+  maxCount?: number;
+
+  /**
+   * Messages requested per page (default: 50)
+   */
+  pageSize?: number;
+}
+
+/**
+ * Loads one page of history. `index` counts from 0 for the newest page; loaders map it
+ * to their API's page numbering.
+ */
+export type HistoryPageLoader = (index: number, pageSize: number) => Promise<Message[]>;
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Yields history across pages until the server runs out of messages or a cut-off is reached.
+ * Messages that move to the next page while iterating (because new ones arrived) are yielded once.
+ */
+export async function* iterateHistoryPages(
+  loadPage: HistoryPageLoader,
+  options: HistoryIteratorOptions = {}
+): AsyncGenerator<Message, void, undefined> {
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  const maxCount = options.maxCount ?? Infinity;
+  const since = toTime(options.since);
+  const before = toTime(options.before);
+
+  if (pageSize < 1) {
+    throw new Error('pageSize must be at least 1');
+  }
+  if (maxCount <= 0) {
+    return;
+  }
+
+  const newestFirst = async function* (): AsyncGenerator<Message, void, undefined> {
+    const seen = new Set<string>();
+    for (let index = 0; ; index++) {
+      throwIfAborted(options.signal);
+      const messages = await loadPage(index, pageSize);
+      throwIfAborted(options.signal);
+
+      const sorted = [...messages].sort((a, b) => timeOf(b) - timeOf(a));
+      for (const message of sorted) {
+        if (seen.has(message.id)) continue;
+        seen.add(message.id);
+
+        const time = timeOf(message);
+        if (before !== null && time >= before) continue;
+        // Everything after this point is older still
+        if (since !== null && time < since) return;
+        yield message;
+      }
+
+      if (messages.length < pageSize) return;
+    }
+  };
+
+  let count = 0;
+  if (options.direction === 'oldest-first') {
+    const collected: Message[] = [];
+    for await (const message of newestFirst()) {
+      collected.push(message);
+    }
+    // maxCount keeps the oldest messages in range
+    for (let i = collected.length - 1; i >= 0 && count < maxCount; i--, count++) {
+      yield collected[i];
+    }
+    return;
+  }
+
+  for await (const message of newestFirst()) {
+    yield message;
+    if (++count >= maxCount) return;
+  }
+}
+
+function toTime(value: Date | string | number | undefined): number | null {
+  if (value === undefined) return null;
+  const time = value instanceof Date ? value.getTime() : typeof value === 'number' ? value : Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid history cut-off: ${value}`);
+  }
+  return time;
+}
+
+function timeOf(message: Message): number {
+  const time = Date.parse(message.createdAt);
+  return Number.isNaN(time) ? 0 : time;
+}
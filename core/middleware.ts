@@ -0,0 +1,169 @@
+/*
+ * Middleware that rewrites, drops or stops messages on their way to and from the server.
+ * One MiddlewarePipeline can be shared by several SDKs, so a chain registered once applies to every transport.
+ */
+import type { BaseMessageRequest, Message } from '../types';
+import { XiansError } from './errors';
+
+export type MiddlewareTransport = 'socket' | 'sse' | 'rest';
+
+export interface MiddlewareContext {
+  transport: MiddlewareTransport;
+
+  /**
+   * Chat, Data or Handoff
+   */
+  messageType: string;
+
+  /**
+   * Skips the remaining middleware; the message returned by the current one is used as it is
+   */
+  stop(): void;
+}
+
+export interface OutboundContext extends MiddlewareContext {
+  /**
+   * `converse` for RestSDK.converse and converseStream, `send` for every other send
+   */
+  operation: 'send' | 'converse';
+}
+
+export type InboundContext = MiddlewareContext;
+
+/**
+ * The message to pass on, `undefined` to pass on the message unchanged, or `null` to drop it
+ */
+export type MiddlewareResult<T> = T | null | undefined | void | Promise<T | null | undefined | void>;
+
+export interface Middleware {
+  /**
+   * Runs before a message is sent (SendInboundMessage, rest/send and rest/converse)
+   */
+  outbound?: (request: BaseMessageRequest, context: OutboundContext) => MiddlewareResult<BaseMessageRequest>;
+
+  /**
+   * Runs before an agent message reaches onReceiveChat, onReceiveData or onReceiveHandoff
+   */
+  inbound?: (message: Message, context: InboundContext) => MiddlewareResult<Message>;
+}
+
+/**
+ * Runs registered middleware in order. Without inbound middleware, incoming messages are
+ * delivered synchronously as before; with it, they are still delivered in arrival order
+ */
+export class MiddlewarePipeline {
+  private middleware: Middleware[] = [];
+  private inboundQueue: Promise<void> = Promise.resolve();
+  private pendingInbound = 0;
+
+  constructor(middleware: Middleware[] = []) {
+    middleware.forEach(entry => this.use(entry));
+  }
+
+  /**
+   * Adds middleware to the end of the chain. Returns a function that removes it again
+   */
+  use(middleware: Middleware): () => void {
+    this.middleware.push(middleware);
+    return () => {
+      this.remove(middleware);
+    };
+  }
+
+  remove(middleware: Middleware): boolean {
+    const index = this.middleware.indexOf(middleware);
+    if (index === -1) {
+      return false;
+    }
+    this.middleware.splice(index, 1);
+    return true;
+  }
+
+  get size(): number {
+    return this.middleware.length;
+  }
+
+  /**
+   * Runs the outbound middleware. Resolves with the request to send, or null when it was dropped
+   */
+  runOutbound<T extends BaseMessageRequest>(
+    request: T,
+    context: Omit<OutboundContext, 'stop' | 'messageType'>
+  ): Promise<T | null> {
+    return this.run(request, { ...context, messageType: request.type }, 'outbound') as Promise<T | null>;
+  }
+
+  /**
+   * Runs the inbound middleware. Resolves with the message to deliver, or null when it was dropped
+   */
+  runInbound(message: Message, context: Omit<InboundContext, 'stop'>): Promise<Message | null> {
+    return this.run(message, context, 'inbound');
+  }
+
+  /**
+   * Passes an incoming message through the inbound middleware, then to `deliver`.
+   * A middleware error drops the message; it and errors thrown by `deliver` on the async path go to `onError`
+   */
+  deliverInbound(
+    message: Message,
+    context: Omit<InboundContext, 'stop'>,
+    deliver: (message: Message) => void,
+    onError: (error: unknown) => void
+  ): void {
+    if (this.pendingInbound === 0 && !this.middleware.some(entry => entry.inbound)) {
+      deliver(message);
+      return;
+    }
+
+    this.pendingInbound++;
+    this.inboundQueue = this.inboundQueue
+      .then(() => this.runInbound(message, context))
+      .then(processed => {
+        if (processed) deliver(processed);
+      })
+      .catch(onError)
+      .finally(() => {
+        this.pendingInbound--;
+      });
+  }
+
+  private async run<T>(
+    message: T,
+    context: Omit<OutboundContext, 'stop'> | Omit<InboundContext, 'stop'>,
+    direction: 'outbound' | 'inbound'
+  ): Promise<T | null> {
+    let current = message;
+    let stopped = false;
+    const fullContext = { ...context, stop: () => { stopped = true; } };
+
+    // A copy, so middleware added or removed while this message is in flight does not shift the chain
+    for (const entry of [...this.middleware]) {
+      const step = entry[direction] as ((value: T, context: MiddlewareContext) => MiddlewareResult<T>) | undefined;
+      if (!step) continue;
+
+      const result = await step(current, fullContext);
+      if (result === null) {
+        return null;
+      }
+      if (result !== undefined) {
+        current = result;
+      }
+      if (stopped) break;
+    }
+    return current;
+  }
+}
+
+/**
+ * Error for a send that outbound middleware dropped
+ */
+export function messageDroppedError(): XiansError {
+  return new XiansError('Message dropped by middleware', { code: 'MESSAGE_DROPPED' });
+}
+
+/**
+ * Pipeline for an SDK's `middleware` option. A pipeline passed in is used as it is, so SDKs can share it
+ */
+export function resolveMiddleware(middleware?: Middleware[] | MiddlewarePipeline): MiddlewarePipeline {
+  return middleware instanceof MiddlewarePipeline ? middleware : new MiddlewarePipeline(middleware);
+}
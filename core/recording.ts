@@ -0,0 +1,651 @@
+/*
+ * Recording and replay of the network traffic of RestSDK, SocketSDK and SseSDK. A TrafficRecorder wraps the
+ * real fetch, SignalR connection and EventSource and keeps what went over them; a TrafficReplayer stands in
+ * for all three and plays a recording back through the same SDK code, so a captured session can run as a test.
+ */
+import type { HubConnection } from '@microsoft/signalr';
+
+/**
+ * A REST request as recorded. Credentials (`apikey`, `access_token`, `authorization`) are left out
+ */
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body?: unknown;
+}
+
+export interface RecordedResponse {
+  status: number;
+  contentType: string | null;
+  /**
+   * The complete body, also for streamed responses
+   */
+  body: string;
+}
+
+interface EntryBase {
+  /**
+   * Milliseconds since recording started
+   */
+  at: number;
+}
+
+export interface RestExchangeEntry extends EntryBase {
+  transport: 'rest';
+  kind: 'request';
+  request: RecordedRequest;
+  response: RecordedResponse | null;
+  /**
+   * Why the request failed without a response
+   */
+  error?: string;
+}
+
+export interface SocketInvokeEntry extends EntryBase {
+  transport: 'socket';
+  kind: 'invoke';
+  method: string;
+  args: unknown[];
+  result?: unknown;
+  error?: string;
+}
+
+export interface SocketEventEntry extends EntryBase {
+  transport: 'socket';
+  kind: 'event';
+  event: string;
+  args: unknown[];
+}
+
+export interface SocketLifecycleEntry extends EntryBase {
+  transport: 'socket';
+  /**
+   * `closed` is only recorded for connections that closed with an error
+   */
+  kind: 'reconnecting' | 'reconnected' | 'closed';
+  error?: string;
+  connectionId?: string;
+}
+
+export interface SseOpenEntry extends EntryBase {
+  transport: 'sse';
+  kind: 'open';
+  /**
+   * `workflow|participantId|scope` of the stream
+   */
+  stream: string;
+}
+
+export interface SseEventEntry extends EntryBase {
+  transport: 'sse';
+  kind: 'event';
+  stream: string;
+  event: string;
+  data: string;
+  id?: string;
+}
+
+export interface SseErrorEntry extends EntryBase {
+  transport: 'sse';
+  kind: 'error';
+  stream: string;
+  /**
+   * HTTP status reported by the EventSource, if any
+   */
+  code?: number;
+}
+
+export type TrafficEntry =
+  | RestExchangeEntry
+  | SocketInvokeEntry
+  | SocketEventEntry
+  | SocketLifecycleEntry
+  | SseOpenEntry
+  | SseEventEntry
+  | SseErrorEntry;
+
+/**
+ * Contents of a fixture file
+ */
+export interface TrafficFixture {
+  version: 1;
+  recordedAt: string;
+  entries: TrafficEntry[];
+}
+
+/**
+ * Hooks through which the SDKs create their network connections. Each gets a function that
+ * makes the real one, which it may call or replace
+ */
+export interface TrafficInterceptor {
+  fetch(url: string, init: RequestInit, send: () => Promise<Response>): Promise<Response>;
+  hubConnection(build: () => HubConnection): HubConnection;
+  eventSource(url: string, open: () => EventSource): EventSource;
+}
+
+type NewEntry<T extends TrafficEntry = TrafficEntry> = T extends TrafficEntry ? Omit<T, 'at'> : never;
+
+const SECRET_PARAMS = ['apikey', 'access_token'];
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/**
+ * Records the traffic of every SDK it is passed to as `traffic`
+ */
+export class TrafficRecorder implements TrafficInterceptor {
+  private entries: TrafficEntry[] = [];
+  private startedAt = Date.now();
+
+  async fetch(url: string, init: RequestInit, send: () => Promise<Response>): Promise<Response> {
+    const entry = this.add<RestExchangeEntry>({ transport: 'rest', kind: 'request', request: requestOf(url, init), response: null });
+    try {
+      const response = await send();
+      const recorded: RecordedResponse = { status: response.status, contentType: response.headers.get('content-type'), body: '' };
+      entry.response = recorded;
+      // Read from a copy, so the SDK can still consume or stream the original
+      readBodyInto(response.clone(), recorded);
+      return response;
+    } catch (error) {
+      entry.error = messageOf(error);
+      throw error;
+    }
+  }
+
+  hubConnection(build: () => HubConnection): HubConnection {
+    const connection = build();
+
+    const invoke = connection.invoke.bind(connection);
+    connection.invoke = ((method: string, ...args: any[]) => {
+      const entry = this.add<SocketInvokeEntry>({ transport: 'socket', kind: 'invoke', method, args: args.map(redact) });
+      return invoke(method, ...args).then(
+        result => {
+          if (result !== undefined) entry.result = copy(result);
+          return result;
+        },
+        error => {
+          entry.error = messageOf(error);
+          throw error;
+        }
+      );
+    }) as HubConnection['invoke'];
+
+    // SignalR matches method names case-insensitively, so ReceiveChat and receivechat are one event
+    const recordedEvents = new Set<string>();
+    const on = connection.on.bind(connection);
+    connection.on = (event: string, handler: (...args: any[]) => void) => {
+      if (!recordedEvents.has(event.toLowerCase())) {
+        recordedEvents.add(event.toLowerCase());
+        on(event, (...args: any[]) => {
+          this.add<SocketEventEntry>({ transport: 'socket', kind: 'event', event, args: copy(args) });
+        });
+      }
+      on(event, handler);
+    };
+
+    connection.onreconnecting(error => {
+      this.add<SocketLifecycleEntry>({ transport: 'socket', kind: 'reconnecting', ...(error && { error: error.message }) });
+    });
+    connection.onreconnected(connectionId => {
+      this.add<SocketLifecycleEntry>({ transport: 'socket', kind: 'reconnected', ...(connectionId && { connectionId }) });
+    });
+    connection.onclose(error => {
+      // A clean close comes from the app calling stop(), which the replay does itself
+      if (error) {
+        this.add<SocketLifecycleEntry>({ transport: 'socket', kind: 'closed', error: error.message });
+      }
+    });
+    return connection;
+  }
+
+  eventSource(url: string, open: () => EventSource): EventSource {
+    const source = open();
+    const stream = streamOf(url);
+    const addEventListener = source.addEventListener.bind(source) as (type: string, listener: (event: any) => void, options?: unknown) => void;
+    const recordedTypes = new Set<string>();
+
+    const record = (type: string) => {
+      if (recordedTypes.has(type)) return;
+      recordedTypes.add(type);
+      addEventListener(type, (event: any) => {
+        if (type === 'open') {
+          this.add<SseOpenEntry>({ transport: 'sse', kind: 'open', stream });
+        } else if (type === 'error') {
+          this.add<SseErrorEntry>({ transport: 'sse', kind: 'error', stream, ...(typeof event?.code === 'number' && { code: event.code }) });
+        } else {
+          this.add<SseEventEntry>({ transport: 'sse', kind: 'event', stream, event: type, data: String(event.data), ...(event.lastEventId && { id: event.lastEventId }) });
+        }
+      });
+    };
+    // onopen, onmessage and onerror are set as properties, so these are recorded up front
+    ['open', 'message', 'error'].forEach(record);
+
+    source.addEventListener = ((type: string, listener: (event: any) => void, options?: unknown) => {
+      record(type);
+      addEventListener(type, listener, options);
+    }) as EventSource['addEventListener'];
+    return source;
+  }
+
+  /**
+   * Recorded entries so far, oldest first
+   */
+  getEntries(): TrafficEntry[] {
+    return copy(this.entries);
+  }
+
+  /**
+   * The recording as a fixture for TrafficReplayer
+   */
+  toFixture(): TrafficFixture {
+    return { version: 1, recordedAt: new Date(this.startedAt).toISOString(), entries: this.getEntries() };
+  }
+
+  /**
+   * Lets `JSON.stringify(recorder)` produce the fixture
+   */
+  toJSON(): TrafficFixture {
+    return this.toFixture();
+  }
+
+  /**
+   * Drops everything recorded and starts the clock again
+   */
+  clear(): void {
+    this.entries = [];
+    this.startedAt = Date.now();
+  }
+
+  private add<T extends TrafficEntry>(entry: NewEntry<T>): T {
+    const recorded = { at: Date.now() - this.startedAt, ...entry } as unknown as T;
+    this.entries.push(recorded);
+    return recorded;
+  }
+}
+
+/**
+ * Plays a recording back to the SDKs it is passed to as `traffic`, without a network.
+ *
+ * REST requests and hub calls are answered with the first recorded call of the same kind that
+ * has not been replayed yet. Socket and SSE events are delivered in recorded order, each once the
+ * requests recorded before it have been made and its connection or stream is open
+ */
+export class TrafficReplayer implements TrafficInterceptor {
+  private entries: TrafficEntry[];
+  private replayed: boolean[];
+  private cursor = 0;
+  private socket: ReplayHubConnection | null = null;
+  private streams = new Map<string, ReplayEventSource>();
+  private pumpScheduled = false;
+  private doneWaiters: (() => void)[] = [];
+  private connectionCount = 0;
+
+  constructor(fixture: TrafficFixture | string) {
+    const parsed: TrafficFixture = typeof fixture === 'string' ? JSON.parse(fixture) : fixture;
+    if (parsed?.version !== 1 || !Array.isArray(parsed.entries)) {
+      throw new Error('Unsupported traffic fixture');
+    }
+    this.entries = copy(parsed.entries);
+    this.replayed = this.entries.map(() => false);
+  }
+
+  async fetch(url: string, init: RequestInit): Promise<Response> {
+    const { method, path } = requestOf(url, init);
+    const entry = this.take<RestExchangeEntry>(candidate =>
+      candidate.transport === 'rest' && candidate.request.method === method && candidate.request.path === path
+    );
+    if (!entry) {
+      throw new Error(`No recorded ${method} ${path} left to replay`);
+    }
+    if (!entry.response) {
+      throw new TypeError(entry.error || 'Recorded request has no response');
+    }
+
+    const { status, contentType, body } = entry.response;
+    return new Response(NULL_BODY_STATUSES.includes(status) ? null : body, {
+      status,
+      headers: contentType ? { 'content-type': contentType } : {}
+    });
+  }
+
+  hubConnection(): HubConnection {
+    const connection = new ReplayHubConnection(`replay-${++this.connectionCount}`, {
+      invoke: (method, args) => this.replayInvoke(method, args),
+      attach: attached => {
+        this.socket = attached;
+        this.schedulePump();
+      },
+      detach: detached => {
+        if (this.socket === detached) this.socket = null;
+      }
+    });
+    return connection as unknown as HubConnection;
+  }
+
+  eventSource(url: string): EventSource {
+    const stream = streamOf(url);
+    const source = new ReplayEventSource(url, {
+      detach: () => {
+        if (this.streams.get(stream) === source) this.streams.delete(stream);
+      }
+    });
+    this.streams.set(stream, source);
+    this.schedulePump();
+    return source as unknown as EventSource;
+  }
+
+  /**
+   * Entries not replayed yet, in recorded order
+   */
+  remaining(): TrafficEntry[] {
+    return copy(this.entries.filter((_entry, index) => !this.replayed[index]));
+  }
+
+  get isDone(): boolean {
+    return this.replayed.every(Boolean);
+  }
+
+  /**
+   * Resolves once every entry has been replayed. Rejects after `timeoutMs` naming the entry the replay is stuck on
+   */
+  whenDone(timeoutMs = 5000): Promise<void> {
+    if (this.isDone) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const waiter = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        this.doneWaiters = this.doneWaiters.filter(entry => entry !== waiter);
+        const next = this.remaining()[0];
+        reject(new Error(`Replay not finished after ${timeoutMs}ms, waiting for ${describeEntry(next)}`));
+      }, timeoutMs);
+      this.doneWaiters.push(waiter);
+    });
+  }
+
+  private replayInvoke(method: string, args: unknown[]): Promise<unknown> {
+    const entry = this.take<SocketInvokeEntry>(candidate =>
+      candidate.transport === 'socket' && candidate.kind === 'invoke' && candidate.method.toLowerCase() === method.toLowerCase()
+    );
+    if (!entry) {
+      return Promise.reject(new Error(`No recorded ${method} call left to replay`));
+    }
+    return entry.error !== undefined ? Promise.reject(new Error(entry.error)) : Promise.resolve(copy(entry.result));
+  }
+
+  /**
+   * Marks the first matching entry that has not been replayed as replayed
+   */
+  private take<T extends TrafficEntry>(matches: (entry: TrafficEntry) => boolean): T | null {
+    const index = this.entries.findIndex((entry, i) => !this.replayed[i] && matches(entry));
+    if (index === -1) {
+      return null;
+    }
+    this.replayed[index] = true;
+    this.schedulePump();
+    return this.entries[index] as T;
+  }
+
+  private schedulePump(): void {
+    if (this.pumpScheduled) return;
+    this.pumpScheduled = true;
+    setTimeout(() => {
+      this.pumpScheduled = false;
+      this.pump();
+    }, 0);
+  }
+
+  /**
+   * Delivers events in order until the next entry is a request the SDK has not made yet
+   * or an event whose connection is not open
+   */
+  private pump(): void {
+    while (this.cursor < this.entries.length) {
+      if (this.replayed[this.cursor]) {
+        this.cursor++;
+        continue;
+      }
+      const entry = this.entries[this.cursor];
+      if (isOutbound(entry) || !this.deliver(entry)) {
+        return;
+      }
+      this.replayed[this.cursor] = true;
+      this.cursor++;
+    }
+
+    const waiters = this.doneWaiters;
+    this.doneWaiters = [];
+    waiters.forEach(waiter => waiter());
+  }
+
+  private deliver(entry: TrafficEntry): boolean {
+    if (entry.transport === 'socket' && this.socket) {
+      this.socket.replay(entry as SocketEventEntry | SocketLifecycleEntry);
+      return true;
+    }
+    if (entry.transport === 'sse') {
+      const source = this.streams.get(entry.stream);
+      if (source) {
+        source.replay(entry as SseOpenEntry | SseEventEntry | SseErrorEntry);
+        return true;
+      }
+    }
+    return false;
+  }
+}
+
+type Handler = (...args: any[]) => void;
+
+/**
+ * The part of a SignalR HubConnection that SocketSDK uses, driven by a TrafficReplayer
+ */
+class ReplayHubConnection {
+  state = 'Disconnected';
+  connectionId: string | null = null;
+  private handlers = new Map<string, Handler[]>();
+  private closeHandlers: Handler[] = [];
+  private reconnectingHandlers: Handler[] = [];
+  private reconnectedHandlers: Handler[] = [];
+
+  constructor(
+    private id: string,
+    private link: {
+      invoke(method: string, args: unknown[]): Promise<unknown>;
+      attach(connection: ReplayHubConnection): void;
+      detach(connection: ReplayHubConnection): void;
+    }
+  ) {}
+
+  on(event: string, handler: Handler): void {
+    const key = event.toLowerCase();
+    this.handlers.set(key, [...(this.handlers.get(key) ?? []), handler]);
+  }
+
+  off(event: string, handler?: Handler): void {
+    const key = event.toLowerCase();
+    if (!handler) {
+      this.handlers.delete(key);
+      return;
+    }
+    this.handlers.set(key, (this.handlers.get(key) ?? []).filter(existing => existing !== handler));
+  }
+
+  onclose(handler: Handler): void {
+    this.closeHandlers.push(handler);
+  }
+
+  onreconnecting(handler: Handler): void {
+    this.reconnectingHandlers.push(handler);
+  }
+
+  onreconnected(handler: Handler): void {
+    this.reconnectedHandlers.push(handler);
+  }
+
+  async start(): Promise<void> {
+    this.state = 'Connected';
+    this.connectionId = this.id;
+    this.link.attach(this);
+  }
+
+  async stop(): Promise<void> {
+    if (this.state === 'Disconnected') return;
+    this.state = 'Disconnected';
+    this.link.detach(this);
+    this.closeHandlers.forEach(handler => handler());
+  }
+
+  invoke(method: string, ...args: unknown[]): Promise<unknown> {
+    return this.link.invoke(method, args);
+  }
+
+  async send(method: string, ...args: unknown[]): Promise<void> {
+    await this.link.invoke(method, args);
+  }
+
+  replay(entry: SocketEventEntry | SocketLifecycleEntry): void {
+    switch (entry.kind) {
+      case 'event':
+        (this.handlers.get(entry.event.toLowerCase()) ?? []).forEach(handler => handler(...copy(entry.args)));
+        break;
+      case 'reconnecting':
+        this.state = 'Reconnecting';
+        this.reconnectingHandlers.forEach(handler => handler(entry.error ? new Error(entry.error) : undefined));
+        break;
+      case 'reconnected':
+        this.state = 'Connected';
+        this.reconnectedHandlers.forEach(handler => handler(entry.connectionId ?? this.connectionId));
+        break;
+      case 'closed':
+        this.state = 'Disconnected';
+        this.link.detach(this);
+        this.closeHandlers.forEach(handler => handler(new Error(entry.error)));
+        break;
+    }
+  }
+}
+
+/**
+ * The part of an EventSource that SseSDK uses, driven by a TrafficReplayer
+ */
+class ReplayEventSource {
+  readyState = 0;
+  onopen: Handler | null = null;
+  onmessage: Handler | null = null;
+  onerror: Handler | null = null;
+  private listeners = new Map<string, Handler[]>();
+
+  constructor(readonly url: string, private link: { detach(): void }) {}
+
+  addEventListener(type: string, listener: Handler): void {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+  }
+
+  removeEventListener(type: string, listener: Handler): void {
+    this.listeners.set(type, (this.listeners.get(type) ?? []).filter(existing => existing !== listener));
+  }
+
+  close(): void {
+    this.readyState = 2;
+    this.link.detach();
+  }
+
+  replay(entry: SseOpenEntry | SseEventEntry | SseErrorEntry): void {
+    switch (entry.kind) {
+      case 'open':
+        this.readyState = 1;
+        this.dispatch('open', { type: 'open' });
+        break;
+      case 'event':
+        this.dispatch(entry.event, { type: entry.event, data: entry.data, lastEventId: entry.id ?? '' });
+        break;
+      case 'error':
+        this.readyState = 0;
+        this.dispatch('error', { type: 'error', ...(entry.code !== undefined && { code: entry.code }) });
+        break;
+    }
+  }
+
+  private dispatch(type: string, event: object): void {
+    const property = type === 'open' ? this.onopen : type === 'message' ? this.onmessage : type === 'error' ? this.onerror : null;
+    property?.(event);
+    (this.listeners.get(type) ?? []).forEach(listener => listener(event));
+  }
+}
+
+function isOutbound(entry: TrafficEntry): boolean {
+  return entry.transport === 'rest' || (entry.transport === 'socket' && entry.kind === 'invoke');
+}
+
+function requestOf(url: string, init: RequestInit): RecordedRequest {
+  const parsed = new URL(url);
+  const query: Record<string, string> = {};
+  parsed.searchParams.forEach((value, key) => {
+    if (!SECRET_PARAMS.includes(key)) query[key] = value;
+  });
+
+  const request: RecordedRequest = { method: (init.method || 'GET').toUpperCase(), path: parsed.pathname, query };
+  if (typeof init.body === 'string') {
+    let body: unknown = init.body;
+    try { body = JSON.parse(init.body); } catch { /* plain text body */ }
+    request.body = redact(body);
+  }
+  return request;
+}
+
+/**
+ * `workflow|participantId|scope` of an SSE stream URL
+ */
+/**
+ * Appends the body to `recorded` as it arrives, so a stream the SDK closes early keeps what it carried
+ */
+async function readBodyInto(response: Response, recorded: RecordedResponse): Promise<void> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      recorded.body += decoder.decode(value, { stream: true });
+    }
+    recorded.body += decoder.decode();
+  } catch {
+    // Closed early: keep what was read
+  }
+}
+
+function streamOf(url: string): string {
+  const { searchParams } = new URL(url);
+  return ['workflow', 'participantId', 'scope'].map(key => searchParams.get(key) ?? '').join('|');
+}
+
+// Message requests carry the user's JWT in `authorization`
+function redact(value: unknown): unknown {
+  if (value && typeof value === 'object' && !Array.isArray(value) && 'authorization' in value) {
+    return copy({ ...value, authorization: '[redacted]' });
+  }
+  return copy(value);
+}
+
+function copy<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function describeEntry(entry: TrafficEntry | undefined): string {
+  if (!entry) return 'nothing';
+  switch (entry.transport) {
+    case 'rest':
+      return `${entry.request.method} ${entry.request.path}`;
+    case 'socket':
+      return entry.kind === 'invoke' ? `a ${entry.method} call` : entry.kind === 'event' ? `socket event ${entry.event}` : `socket ${entry.kind}`;
+    case 'sse':
+      return `SSE ${entry.kind === 'event' ? entry.event : entry.kind} on ${entry.stream}`;
+  }
+}
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,250 @@
+/*
+ * Payload schemas for Data messages: a small built-in validator, adapters for zod and compiled
+ * JSON-schema validators, and a registry that looks schemas up by the payload's messageType.
+ */
+import { XiansValidationError } from './errors';
+
+export interface SchemaIssue {
+  /**
+   * Where in the payload the problem is, e.g. `items[0].price`. Empty for the payload itself
+   */
+  path: string;
+  message: string;
+}
+
+export type SchemaResult<T> = { success: true; data: T } | { success: false; issues: SchemaIssue[] };
+
+/**
+ * Checks a payload and narrows it to `T`
+ */
+export interface PayloadSchema<T> {
+  validate(value: unknown): SchemaResult<T>;
+}
+
+export type InferPayload<S> = S extends PayloadSchema<infer T> ? T : never;
+
+interface OptionalSchema<T> extends PayloadSchema<T | undefined> {
+  readonly optional: true;
+}
+
+type OptionalKeys<S> = { [K in keyof S]: S[K] extends OptionalSchema<any> ? K : never }[keyof S];
+
+type ObjectPayload<S extends Record<string, PayloadSchema<any>>> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: InferPayload<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: InferPayload<S[K]>;
+} extends infer O ? { [K in keyof O]: O[K] } : never;
+
+const ok = <T>(data: T): SchemaResult<T> => ({ success: true, data });
+const fail = (message: string, path = ''): SchemaResult<never> => ({ success: false, issues: [{ path, message }] });
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function joinPath(parent: string, child: string): string {
+  if (!child) return parent;
+  if (!parent) return child;
+  return child.startsWith('[') ? `${parent}${child}` : `${parent}.${child}`;
+}
+
+function primitive<T>(type: 'string' | 'number' | 'boolean'): PayloadSchema<T> {
+  return {
+    validate: value => typeof value === type && !(type === 'number' && Number.isNaN(value))
+      ? ok(value as T)
+      : fail(`Expected ${type}, received ${describe(value)}`)
+  };
+}
+
+/**
+ * Built-in validator for simple payloads. Objects keep properties the schema does not mention
+ */
+export const schema = {
+  string: (): PayloadSchema<string> => primitive('string'),
+  number: (): PayloadSchema<number> => primitive('number'),
+  boolean: (): PayloadSchema<boolean> => primitive('boolean'),
+
+  /** Accepts anything */
+  unknown: (): PayloadSchema<unknown> => ({ validate: value => ok(value) }),
+
+  literal: <T extends string | number | boolean>(expected: T): PayloadSchema<T> => ({
+    validate: value => value === expected
+      ? ok(expected)
+      : fail(`Expected ${JSON.stringify(expected)}, received ${JSON.stringify(value) ?? describe(value)}`)
+  }),
+
+  optional: <T>(inner: PayloadSchema<T>): OptionalSchema<T> => ({
+    optional: true,
+    validate: value => value === undefined ? ok(undefined) : inner.validate(value)
+  }),
+
+  array: <T>(item: PayloadSchema<T>): PayloadSchema<T[]> => ({
+    validate: value => {
+      if (!Array.isArray(value)) {
+        return fail(`Expected array, received ${describe(value)}`);
+      }
+      const issues: SchemaIssue[] = [];
+      const data = value.map((entry, index) => {
+        const result = item.validate(entry);
+        if (!result.success) {
+          result.issues.forEach(issue => issues.push({ ...issue, path: joinPath(`[${index}]`, issue.path) }));
+          return entry;
+        }
+        return result.data;
+      });
+      return issues.length > 0 ? { success: false, issues } : ok(data as T[]);
+    }
+  }),
+
+  object: <S extends Record<string, PayloadSchema<any>>>(shape: S): PayloadSchema<ObjectPayload<S>> => ({
+    validate: value => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return fail(`Expected object, received ${describe(value)}`);
+      }
+      const issues: SchemaIssue[] = [];
+      const data: Record<string, unknown> = { ...value };
+      Object.entries(shape).forEach(([key, property]) => {
+        const result = property.validate((value as Record<string, unknown>)[key]);
+        if (!result.success) {
+          result.issues.forEach(issue => issues.push({ ...issue, path: joinPath(key, issue.path) }));
+        } else if (result.data !== undefined) {
+          data[key] = result.data;
+        }
+      });
+      return issues.length > 0 ? { success: false, issues } : ok(data as ObjectPayload<S>);
+    }
+  }),
+
+  /** Passes when any of the schemas passes; reports the issues of the first one otherwise */
+  union: <S extends PayloadSchema<any>[]>(...options: S): PayloadSchema<InferPayload<S[number]>> => ({
+    validate: value => {
+      let first: SchemaResult<unknown> | null = null;
+      for (const option of options) {
+        const result = option.validate(value);
+        if (result.success) return result;
+        first ??= result;
+      }
+      return (first ?? fail('No schema to match')) as SchemaResult<InferPayload<S[number]>>;
+    }
+  })
+};
+
+/**
+ * The parts of a zod schema that fromZod uses
+ */
+export interface ZodLikeSchema<T> {
+  safeParse(value: unknown):
+    | { success: true; data: T }
+    | { success: false; error: { issues: { path: (string | number)[]; message: string }[] } };
+}
+
+/**
+ * Uses a zod schema (or anything with the same safeParse) as a payload schema
+ */
+export function fromZod<T>(zodSchema: ZodLikeSchema<T>): PayloadSchema<T> {
+  return {
+    validate: value => {
+      const result = zodSchema.safeParse(value);
+      if (result.success) {
+        return ok(result.data);
+      }
+      return {
+        success: false,
+        issues: result.error.issues.map(issue => ({
+          path: issue.path.reduce<string>((path, key) => joinPath(path, typeof key === 'number' ? `[${key}]` : key), ''),
+          message: issue.message
+        }))
+      };
+    }
+  };
+}
+
+/**
+ * A compiled JSON-schema validator, such as the function returned by Ajv's `compile`
+ */
+export interface JsonSchemaValidator {
+  (value: unknown): boolean;
+  errors?: { instancePath?: string; message?: string }[] | null;
+}
+
+/**
+ * Uses a compiled JSON-schema validator as a payload schema. `T` is the type the JSON schema describes
+ */
+export function fromJsonSchema<T>(validator: JsonSchemaValidator): PayloadSchema<T> {
+  return {
+    validate: value => {
+      if (validator(value)) {
+        return ok(value as T);
+      }
+      const errors = validator.errors?.length ? validator.errors : [{ message: 'Does not match the schema' }];
+      return {
+        success: false,
+        issues: errors.map(error => ({
+          // JSON pointer (/items/0/price) to the path style used elsewhere (items.0.price)
+          path: (error.instancePath || '').replace(/^\//, '').split('/').filter(Boolean).join('.'),
+          message: error.message || 'Is invalid'
+        }))
+      };
+    }
+  };
+}
+
+/**
+ * Error for a payload that failed its schema, with the issues in the message
+ */
+export function invalidPayloadError(messageType: string, issues: SchemaIssue[], data?: unknown): XiansValidationError {
+  const details = issues.map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join('; ');
+  return new XiansValidationError(`Invalid ${messageType} payload: ${details}`, { messageType, issues, data });
+}
+
+/**
+ * Payload schemas by Data message type
+ */
+export class SchemaRegistry {
+  private schemas = new Map<string, PayloadSchema<unknown>>();
+
+  /**
+   * Registers the schema for a message type, replacing any earlier one. Returns a function that removes it
+   */
+  register<T>(messageType: string, payloadSchema: PayloadSchema<T>): () => void {
+    this.schemas.set(messageType, payloadSchema);
+    return () => {
+      if (this.schemas.get(messageType) === payloadSchema) {
+        this.schemas.delete(messageType);
+      }
+    };
+  }
+
+  unregister(messageType: string): boolean {
+    return this.schemas.delete(messageType);
+  }
+
+  has(messageType: string): boolean {
+    return this.schemas.has(messageType);
+  }
+
+  get size(): number {
+    return this.schemas.size;
+  }
+
+  /**
+   * Validates a payload against the schema of its message type. Payloads of types without a schema pass as they are
+   */
+  validate(messageType: string, payload: unknown): SchemaResult<unknown> {
+    const payloadSchema = this.schemas.get(messageType);
+    return payloadSchema ? payloadSchema.validate(payload) : ok(payload);
+  }
+
+  /**
+   * Like validate, but throws XiansValidationError for an invalid payload
+   */
+  parse<T = unknown>(messageType: string, payload: unknown): T {
+    const result = this.validate(messageType, payload);
+    if (!result.success) {
+      throw invalidPayloadError(messageType, result.issues, payload);
+    }
+    return result.data as T;
+  }
+}
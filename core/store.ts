@@ -0,0 +1,206 @@
+/*
+ * Observable state of the SDKs for UI frameworks. A store listens to one SDK and keeps an immutable
+ * snapshot of its connection state, messages per workflow and pending sends. It offers the
+ * subscribe/getSnapshot pair of React's useSyncExternalStore, and is an interop Observable
+ * (`Symbol.observable`) for RxJS and other libraries that accept one.
+ */
+import type { AgentSDK, ChatMessageData } from '../AgentSDK';
+import type SocketSDK from '../SocketSDK';
+import type { MessageRequest } from '../SocketSDK';
+import type { ConnectionState, Message } from '../types';
+import type { ConnectionState as AgentConnectionState } from './types';
+import type { QueuedMessage } from './OutboundQueue';
+
+export interface StoreObserver<T> {
+  next?(value: T): void;
+  error?(error: unknown): void;
+  complete?(): void;
+}
+
+export interface StoreSubscription {
+  unsubscribe(): void;
+  readonly closed: boolean;
+}
+
+/**
+ * The Observable interop shape returned by `store[Symbol.observable]()`
+ */
+export interface StoreObservable<T> {
+  subscribe(observer: StoreObserver<T> | ((value: T) => void)): StoreSubscription;
+}
+
+export interface AgentStoreSnapshot {
+  /**
+   * Connection state per workflow type, for agents that have started connecting
+   */
+  connections: Readonly<Record<string, Readonly<AgentConnectionState>>>;
+  /**
+   * Chat messages per workflow type in the order they arrived, history included
+   */
+  messages: Readonly<Record<string, readonly ChatMessageData[]>>;
+  /**
+   * Messages in the offline queue: queued, sending or failed (requires `offlineQueue`)
+   */
+  pendingSends: readonly QueuedMessage[];
+}
+
+export interface SocketStoreSnapshot {
+  connectionState: ConnectionState;
+  /**
+   * Chat, Data and Handoff messages per workflow type, history included, sorted by `createdAt`
+   */
+  messages: Readonly<Record<string, readonly Message[]>>;
+  /**
+   * Messages in the offline queue: queued, sending or failed (requires `offlineQueue`)
+   */
+  pendingSends: readonly QueuedMessage<MessageRequest>[];
+}
+
+// Symbol.observable only exists where a library (RxJS, a polyfill) defines it; '@@observable' is the fallback key
+const observableKey: symbol | undefined = typeof Symbol === 'function' ? (Symbol as any).observable : undefined;
+
+/**
+ * Holds a snapshot and tells listeners when it is replaced. Snapshots are frozen and never changed,
+ * so comparing them by reference shows whether anything changed
+ */
+export abstract class SdkStore<S extends object> {
+  private snapshot: S;
+  private listeners = new Set<(snapshot: S) => void>();
+  private disposers: (() => void)[] = [];
+
+  protected constructor(initial: S) {
+    this.snapshot = Object.freeze(initial);
+    if (observableKey) {
+      (this as any)[observableKey] = this['@@observable'];
+    }
+  }
+
+  /**
+   * Calls `listener` with the new snapshot after every change. Returns a function that stops it
+   */
+  subscribe = (listener: (snapshot: S) => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): S => this.snapshot;
+
+  /**
+   * Observable interop: observers get the current snapshot at once and then every change
+   */
+  '@@observable' = (): StoreObservable<S> & { '@@observable'(): StoreObservable<S> } => {
+    const observable = {
+      subscribe: (observer: StoreObserver<S> | ((value: S) => void)): StoreSubscription => {
+        const next = typeof observer === 'function' ? observer : (value: S) => observer.next?.(value);
+        next(this.snapshot);
+        const stop = this.subscribe(next);
+        let closed = false;
+        return {
+          unsubscribe: () => {
+            closed = true;
+            stop();
+          },
+          get closed() {
+            return closed;
+          }
+        };
+      },
+      '@@observable': () => observable
+    };
+    if (observableKey) {
+      (observable as any)[observableKey] = () => observable;
+    }
+    return observable;
+  };
+
+  /**
+   * Stops listening to the SDK. The last snapshot stays readable
+   */
+  dispose(): void {
+    this.disposers.forEach(dispose => dispose());
+    this.disposers = [];
+    this.listeners.clear();
+  }
+
+  protected listen(dispose: () => void): void {
+    this.disposers.push(dispose);
+  }
+
+  protected update(changes: Partial<S>): void {
+    this.snapshot = Object.freeze({ ...this.snapshot, ...changes });
+    this.listeners.forEach(listener => listener(this.snapshot));
+  }
+}
+
+/**
+ * Store for an AgentSDK. It sees the events from its creation on, so create it before connecting
+ */
+export class AgentStore extends SdkStore<AgentStoreSnapshot> {
+  constructor(private sdk: AgentSDK) {
+    super({ connections: {}, messages: {}, pendingSends: Object.freeze(sdk.getQueuedMessages()) });
+
+    this.listen(sdk.on('connection_change', ({ workflowId, data }: { workflowId: string; data: AgentConnectionState }) => {
+      const { connections } = this.getSnapshot();
+      this.update({ connections: Object.freeze({ ...connections, [workflowId]: Object.freeze({ ...data }) }) });
+    }));
+    this.listen(sdk.subscribeToChatMessages(message => {
+      const { messages } = this.getSnapshot();
+      const list = messages[message.workflowId] ?? [];
+      this.update({ messages: Object.freeze({ ...messages, [message.workflowId]: Object.freeze([...list, Object.freeze(message)]) }) });
+    }));
+    this.listen(sdk.on('queue_change', () => {
+      this.update({ pendingSends: Object.freeze(this.sdk.getQueuedMessages()) });
+    }));
+  }
+}
+
+/**
+ * Store for a SocketSDK. It sees the events from its creation on, so create it before connecting
+ */
+export class SocketStore extends SdkStore<SocketStoreSnapshot> {
+  constructor(private sdk: SocketSDK) {
+    super({ connectionState: sdk.getConnectionState(), messages: {}, pendingSends: Object.freeze(sdk.getQueuedMessages()) });
+
+    this.listen(sdk.on('connection_change', ({ newState }) => {
+      this.update({ connectionState: newState });
+    }));
+    for (const event of ['chat', 'data', 'handoff'] as const) {
+      this.listen(sdk.on(event, message => this.addMessages([message])));
+    }
+    this.listen(sdk.on('thread_history', messages => this.addMessages(messages)));
+    this.listen(sdk.on('queue_change', () => {
+      this.update({ pendingSends: Object.freeze(this.sdk.getQueuedMessages()) });
+    }));
+  }
+
+  /**
+   * Merges messages into their workflows' lists, keeping each id once
+   */
+  private addMessages(incoming: Message[]): void {
+    const messages = { ...this.getSnapshot().messages };
+    let changed = false;
+    const byWorkflow = new Map<string, Message[]>();
+    incoming.forEach(message => {
+      const list = byWorkflow.get(message.workflowType) ?? [];
+      byWorkflow.set(message.workflowType, [...list, message]);
+    });
+
+    byWorkflow.forEach((added, workflowType) => {
+      const existing = messages[workflowType] ?? [];
+      const ids = new Set(existing.map(message => message.id));
+      const fresh = added.filter(message => !message.id || !ids.has(message.id));
+      if (fresh.length === 0) {
+        return;
+      }
+      const merged = [...existing, ...fresh.map(message => Object.freeze({ ...message }))]
+        .sort((a, b) => (Date.parse(a.createdAt) || 0) - (Date.parse(b.createdAt) || 0));
+      messages[workflowType] = Object.freeze(merged);
+      changed = true;
+    });
+    if (changed) {
+      this.update({ messages: Object.freeze(messages) });
+    }
+  }
+}
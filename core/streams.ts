@@ -0,0 +1,68 @@
+/*
+ * Readers for streamed HTTP response bodies (NDJSON and text/event-stream).
+ */
+
+export interface ServerSentEvent {
+  type: string;
+  data: string;
+  id?: string;
+}
+
+/** Yields the body line by line, without line endings. */
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string, void, undefined> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        yield buffer.slice(0, newline).replace(/\r$/, '');
+        buffer = buffer.slice(newline + 1);
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer) yield buffer.replace(/\r$/, '');
+  } finally {
+    // Stops the download when the consumer leaves early
+    reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+}
+
+/** Parses a text/event-stream body into events. Comments and retry hints are skipped. */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent, void, undefined> {
+  let type = '';
+  let id: string | undefined;
+  let data: string[] = [];
+
+  for await (const line of readLines(body)) {
+    if (line === '') {
+      if (data.length > 0) {
+        yield { type: type || 'message', data: data.join('\n'), id };
+      }
+      type = '';
+      data = [];
+      continue;
+    }
+    if (line.startsWith(':')) continue;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+    if (field === 'event') type = value;
+    else if (field === 'data') data.push(value);
+    else if (field === 'id') id = value;
+  }
+
+  if (data.length > 0) {
+    yield { type: type || 'message', data: data.join('\n'), id };
+  }
+}
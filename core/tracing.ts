@@ -0,0 +1,200 @@
+/*
+ * Optional tracing for SDK operations. The interfaces follow the OpenTelemetry API, so a tracer
+ * from `trace.getTracer(...)` can be passed as `tracer` without this package depending on it.
+ */
+import type { BaseMessageRequest } from '../types';
+
+export type SpanAttributeValue = string | number | boolean;
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/** Same values as SpanKind in @opentelemetry/api. */
+export enum SpanKind {
+  INTERNAL = 0,
+  SERVER = 1,
+  CLIENT = 2,
+  PRODUCER = 3,
+  CONSUMER = 4
+}
+
+/** Same values as SpanStatusCode in @opentelemetry/api. */
+export enum SpanStatusCode {
+  UNSET = 0,
+  OK = 1,
+  ERROR = 2
+}
+
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+}
+
+export interface SpanStatus {
+  code: SpanStatusCode;
+  message?: string;
+}
+
+export interface SpanOptions {
+  kind?: SpanKind;
+  attributes?: SpanAttributes;
+}
+
+export interface Span {
+  spanContext(): SpanContext;
+  setAttribute(key: string, value: SpanAttributeValue): unknown;
+  setStatus(status: SpanStatus): unknown;
+  addEvent(name: string, attributes?: SpanAttributes): unknown;
+  recordException(exception: Error | string): void;
+  end(): void;
+}
+
+export interface Tracer {
+  startSpan(name: string, options?: SpanOptions): Span;
+}
+
+const INVALID_TRACE_ID = '00000000000000000000000000000000';
+
+/**
+ * W3C `traceparent` value for a span, or undefined for spans without a valid trace id
+ * (such as the non-recording spans OpenTelemetry hands out when tracing is off)
+ */
+export function traceparentOf(span: Span | undefined): string | undefined {
+  if (!span) return undefined;
+  const { traceId, spanId, traceFlags } = span.spanContext();
+  if (!traceId || traceId === INVALID_TRACE_ID) return undefined;
+  return `00-${traceId}-${spanId}-${(traceFlags & 0xff).toString(16).padStart(2, '0')}`;
+}
+
+/** Headers that carry the span to the server. Empty when there is nothing to propagate. */
+export function traceHeaders(span: Span | undefined): Record<string, string> {
+  const traceparent = traceparentOf(span);
+  return traceparent ? { traceparent } : {};
+}
+
+/** Span attributes describing an outgoing message. */
+export function messageAttributes(request: Partial<BaseMessageRequest>): SpanAttributes {
+  return {
+    'xians.workflow': request.workflow,
+    'xians.participant_id': request.participantId,
+    'xians.message_type': request.type,
+    'xians.request_id': request.requestId,
+    'xians.scope': request.scope
+  };
+}
+
+/** Marks a span as failed with the given error. */
+export function failSpan(span: Span | undefined, error: unknown): void {
+  if (!span) return;
+  const message = error instanceof Error ? error.message : String(error);
+  span.recordException(error instanceof Error ? error : message);
+  span.setStatus({ code: SpanStatusCode.ERROR, message });
+}
+
+/**
+ * Runs `run` inside a span that ends when it settles; a thrown error marks the span failed.
+ * Without a tracer, `run` gets no span and nothing is recorded.
+ */
+export async function traced<T>(
+  tracer: Tracer | undefined,
+  name: string,
+  options: SpanOptions,
+  run: (span: Span | undefined) => Promise<T>
+): Promise<T> {
+  if (!tracer) {
+    return run(undefined);
+  }
+
+  const span = tracer.startSpan(name, options);
+  try {
+    return await run(span);
+  } catch (error) {
+    failSpan(span, error);
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+/**
+ * A span as kept by InMemoryTracer
+ */
+export interface RecordedSpan {
+  name: string;
+  kind: SpanKind;
+  traceId: string;
+  spanId: string;
+  attributes: Record<string, SpanAttributeValue>;
+  events: { name: string; attributes?: SpanAttributes; time: number }[];
+  exceptions: (Error | string)[];
+  status: SpanStatus;
+  startTime: number;
+  endTime: number | null;
+}
+
+/**
+ * Tracer that keeps spans in memory, for tests and debugging
+ */
+export class InMemoryTracer implements Tracer {
+  private spans: RecordedSpan[] = [];
+
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    const record: RecordedSpan = {
+      name,
+      kind: options.kind ?? SpanKind.INTERNAL,
+      traceId: randomHex(16),
+      spanId: randomHex(8),
+      attributes: {},
+      events: [],
+      exceptions: [],
+      status: { code: SpanStatusCode.UNSET },
+      startTime: Date.now(),
+      endTime: null
+    };
+    this.spans.push(record);
+
+    const span: Span = {
+      spanContext: () => ({ traceId: record.traceId, spanId: record.spanId, traceFlags: 1 }),
+      setAttribute: (key, value) => {
+        record.attributes[key] = value;
+        return span;
+      },
+      setStatus: status => {
+        record.status = { ...status };
+        return span;
+      },
+      addEvent: (eventName, attributes) => {
+        record.events.push({ name: eventName, attributes, time: Date.now() });
+        return span;
+      },
+      recordException: exception => {
+        record.exceptions.push(exception);
+      },
+      end: () => {
+        record.endTime ??= Date.now();
+      }
+    };
+    Object.entries(options.attributes ?? {}).forEach(([key, value]) => {
+      if (value !== undefined) span.setAttribute(key, value);
+    });
+    return span;
+  }
+
+  /** Spans that have ended, in start order. */
+  getFinishedSpans(): RecordedSpan[] {
+    return this.spans.filter(span => span.endTime !== null);
+  }
+
+  /** Every span started, including open ones. */
+  getSpans(): RecordedSpan[] {
+    return [...this.spans];
+  }
+
+  reset(): void {
+    this.spans = [];
+  }
+}
+
+function randomHex(bytes: number): string {
+  const values = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(values, value => value.toString(16).padStart(2, '0')).join('');
+}
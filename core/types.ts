@@ -2,13 +2,22 @@
  * SDK-internal type declarations – intentionally minimal and UI-agnostic.
  */
 
+import type { OutboundQueueOptions } from './OutboundQueue';
+import type { RetryPolicy } from './RetryPolicy';
+import type { TokenProvider } from './TokenProvider';
+import type { LoggerFunction } from '../types';
+
 // Connection / authentication settings expected by the backend SignalR hub
 export interface Settings {
   agentWebsocketUrl: string; // full hub URL (without querystring)
-  Authorization: string;      // bearer token or similar
+  Authorization?: string;     // bearer token or similar (required unless tokenProvider is set)
+  tokenProvider?: TokenProvider; // refreshed JWTs for the hub; replaces Authorization
   tenantId: string;
   participantId: string;
   getDefaultData?: () => string | undefined; // optional function to get contextual data for each chat
+  offlineQueue?: boolean | OutboundQueueOptions; // queue sends while an agent is disconnected, flush on reconnect
+  retryPolicy?: RetryPolicy; // reconnect delays per agent (default: 0, 2s, 10s, 30s then give up)
+  logger?: LoggerFunction; // offline queue reports (default: console) and token refresh retries
 }
 
 // Definition of a single backend agent (bot)
@@ -0,0 +1,469 @@
+import RestSDK from '../RestSDK';
+import SseSDK from '../SseSDK';
+import SocketSDK from '../SocketSDK';
+import { Conversation } from '../core/Conversation';
+import type { ConversationKey, ConversationMessage } from '../core/Conversation';
+import { ConnectionState, MessageType } from '../types';
+import type { BaseEventHandlers, BaseMessageRequest, BaseSDKOptions, Message } from '../types';
+
+export type XiansChatStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+/**
+ * Detail of the `message` and `handoff` events
+ */
+export interface XiansChatMessageEventDetail {
+  message: Message;
+}
+
+/**
+ * Detail of the `error` event
+ */
+export interface XiansChatErrorEventDetail {
+  error: Error;
+}
+
+/**
+ * The calls the element makes, over SSE + REST or over the socket
+ */
+interface ChatTransport {
+  connect(): Promise<void>;
+  history(pageSize: number): Promise<Message[]>;
+  send(request: BaseMessageRequest): Promise<void>;
+  dispose(): void;
+}
+
+interface ChatSession {
+  conversation: Conversation;
+  transport: ChatTransport;
+}
+
+// Changing any of these reconnects
+const CONNECTION_ATTRIBUTES = ['server-url', 'tenant', 'workflow', 'participant', 'scope', 'api-key', 'transport', 'history-size'];
+
+const DEFAULT_HISTORY_SIZE = 50;
+
+const STATUS_LABELS: Record<XiansChatStatus, string> = {
+  idle: '',
+  connecting: 'Connecting…',
+  connected: 'Connected',
+  reconnecting: 'Reconnecting…',
+  disconnected: 'Disconnected'
+};
+
+const STYLES = `
+:host {
+  display: flex;
+  flex-direction: column;
+  height: var(--xians-chat-height, 480px);
+  font: var(--xians-chat-font, 14px/1.4 system-ui, sans-serif);
+  color: var(--xians-chat-color, #1f2328);
+  background: var(--xians-chat-background, #fff);
+  border: var(--xians-chat-border, 1px solid #d0d7de);
+  border-radius: var(--xians-chat-radius, 8px);
+  overflow: hidden;
+}
+:host([hidden]) { display: none; }
+[part="header"] {
+  padding: 8px 12px;
+  border-bottom: var(--xians-chat-border, 1px solid #d0d7de);
+  font-size: 12px;
+  color: var(--xians-chat-muted-color, #656d76);
+}
+[part="status"]::before {
+  content: '';
+  display: inline-block;
+  width: 8px;
+  height: 8px;
+  margin-right: 6px;
+  border-radius: 50%;
+  background: var(--xians-chat-status-color, #8c959f);
+}
+:host([status="connected"]) [part="status"]::before { background: var(--xians-chat-connected-color, #1a7f37); }
+[part="messages"] {
+  flex: 1;
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  padding: 12px;
+  overflow-y: auto;
+}
+[part~="message"] {
+  max-width: 80%;
+  padding: 8px 12px;
+  border-radius: var(--xians-chat-bubble-radius, 12px);
+  white-space: pre-wrap;
+  overflow-wrap: anywhere;
+}
+[part~="message-agent"] {
+  align-self: flex-start;
+  background: var(--xians-chat-agent-background, #f6f8fa);
+  color: var(--xians-chat-agent-color, inherit);
+}
+[part~="message-user"] {
+  align-self: flex-end;
+  background: var(--xians-chat-user-background, #0969da);
+  color: var(--xians-chat-user-color, #fff);
+}
+[part~="pending"] { opacity: 0.6; }
+[part~="failed"] { outline: 2px solid var(--xians-chat-error-color, #cf222e); }
+[part="handoff"] {
+  align-self: center;
+  font-size: 12px;
+  color: var(--xians-chat-muted-color, #656d76);
+}
+[part="composer"] {
+  display: flex;
+  gap: 8px;
+  padding: 8px;
+  border-top: var(--xians-chat-border, 1px solid #d0d7de);
+}
+[part="input"] {
+  flex: 1;
+  min-width: 0;
+  padding: 6px 10px;
+  font: inherit;
+  border: var(--xians-chat-border, 1px solid #d0d7de);
+  border-radius: 6px;
+}
+[part="send-button"] {
+  padding: 6px 14px;
+  font: inherit;
+  color: var(--xians-chat-accent-color, #fff);
+  background: var(--xians-chat-accent, #0969da);
+  border: 0;
+  border-radius: 6px;
+  cursor: pointer;
+}
+[part="send-button"]:disabled { opacity: 0.5; cursor: default; }
+`;
+
+// Lets the module load where there is no DOM, e.g. during server-side rendering
+const ElementBase: typeof HTMLElement = typeof HTMLElement === 'undefined' ? (class {} as typeof HTMLElement) : HTMLElement;
+
+/**
+ * `<xians-chat>`: a chat with one agent thread. Uses SseSDK for live messages and RestSDK for
+ * history and sends, or SocketSDK for everything with `transport="socket"`.
+ *
+ * Emits `message` (Chat and Data from the agent), `handoff` and `error` events, which bubble
+ * out of the shadow root
+ */
+export class XiansChatElement extends ElementBase {
+  static get observedAttributes(): string[] {
+    return [...CONNECTION_ATTRIBUTES, 'placeholder'];
+  }
+
+  /**
+   * Returns a JWT for the user, used instead of `api-key`. Set before the element is added to the page
+   */
+  getJwtToken?: () => Promise<string> | string;
+
+  /**
+   * More SDK options, such as `logger` or `retryPolicy`. Set before the element is added to the page
+   */
+  sdkOptions: Partial<BaseSDKOptions> = {};
+
+  private session: ChatSession | null = null;
+  private restartQueued = false;
+  private currentStatus: XiansChatStatus = 'idle';
+  private readonly statusEl: HTMLElement;
+  private readonly messagesEl: HTMLElement;
+  private readonly inputEl: HTMLInputElement;
+  private readonly sendButton: HTMLButtonElement;
+
+  constructor() {
+    super();
+    const root = this.attachShadow({ mode: 'open' });
+    root.innerHTML = `
+      <style>${STYLES}</style>
+      <div part="header"><span part="status"></span></div>
+      <div part="messages" role="log" aria-live="polite"></div>
+      <form part="composer">
+        <input part="input" type="text" autocomplete="off" aria-label="Message">
+        <button part="send-button" type="submit" disabled>Send</button>
+      </form>
+    `;
+    this.statusEl = root.querySelector('[part="status"]')!;
+    this.messagesEl = root.querySelector('[part="messages"]')!;
+    this.inputEl = root.querySelector('[part="input"]')!;
+    this.sendButton = root.querySelector('[part="send-button"]')!;
+    this.inputEl.placeholder = this.getAttribute('placeholder') ?? 'Type a message';
+
+    root.querySelector('form')!.addEventListener('submit', event => {
+      event.preventDefault();
+      const text = this.inputEl.value.trim();
+      if (!text) {
+        return;
+      }
+      this.inputEl.value = '';
+      this.send(text).catch(() => undefined);
+    });
+  }
+
+  get status(): XiansChatStatus {
+    return this.currentStatus;
+  }
+
+  /**
+   * Messages of the thread, oldest first
+   */
+  get messages(): ConversationMessage[] {
+    return this.session?.conversation.getMessages() ?? [];
+  }
+
+  connectedCallback(): void {
+    this.queueRestart();
+  }
+
+  disconnectedCallback(): void {
+    this.stop();
+  }
+
+  attributeChangedCallback(name: string, oldValue: string | null, value: string | null): void {
+    if (name === 'placeholder') {
+      this.inputEl.placeholder = value ?? 'Type a message';
+    } else if (oldValue !== value && this.isConnected) {
+      this.queueRestart();
+    }
+  }
+
+  /**
+   * Sends a chat message to the agent. It shows as pending until sent; a failed send is
+   * marked failed, emitted as `error` and rethrown
+   */
+  async send(text: string, data?: unknown): Promise<void> {
+    const session = this.session;
+    if (!session) {
+      throw new Error('xians-chat is not connected: set server-url, tenant, workflow and participant');
+    }
+    try {
+      await session.conversation.send({ type: 'Chat', text, data }, async outgoing => {
+        await session.transport.send(outgoing);
+        confirmSent(session.conversation, outgoing.requestId);
+      });
+    } catch (error) {
+      if (this.session === session) {
+        this.emitError(error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Reconnects once after a burst of attribute changes
+   */
+  private queueRestart(): void {
+    if (this.restartQueued) {
+      return;
+    }
+    this.restartQueued = true;
+    queueMicrotask(() => {
+      this.restartQueued = false;
+      if (this.isConnected) {
+        this.stop();
+        this.start();
+      }
+    });
+  }
+
+  private start(): void {
+    const serverUrl = this.getAttribute('server-url');
+    const tenantId = this.getAttribute('tenant');
+    const workflow = this.getAttribute('workflow');
+    const participantId = this.getAttribute('participant');
+    if (!serverUrl || !tenantId || !workflow || !participantId) {
+      return;
+    }
+
+    const key: ConversationKey = { workflow, participantId, scope: this.getAttribute('scope') || undefined };
+    const conversation = new Conversation(key);
+    const options: BaseSDKOptions = {
+      serverUrl,
+      tenantId,
+      apiKey: this.getAttribute('api-key') || undefined,
+      getJwtToken: this.getJwtToken,
+      ...this.sdkOptions
+    };
+    const handlers: BaseEventHandlers = {
+      onReceiveChat: message => this.receive(session, message, 'message'),
+      onReceiveData: message => this.receive(session, message, 'message'),
+      onReceiveHandoff: message => this.receive(session, message, 'handoff'),
+      onReconnecting: () => this.setStatus(session, 'reconnecting'),
+      onError: (message, details) => this.emitError(details ?? new Error(message))
+    };
+    const transport = this.getAttribute('transport') === 'socket'
+      ? socketTransport(options, key, handlers, status => this.setStatus(session, status))
+      : sseTransport(options, key, handlers, status => this.setStatus(session, status));
+    const session: ChatSession = { conversation, transport };
+
+    this.session = session;
+    conversation.on('change', () => this.renderMessages(conversation));
+    this.renderMessages(conversation);
+    this.sendButton.disabled = false;
+    this.setStatus(session, 'connecting');
+
+    const historySize = Number(this.getAttribute('history-size')) || DEFAULT_HISTORY_SIZE;
+    transport.connect()
+      .then(() => transport.history(historySize))
+      .then(history => conversation.addHistory(history))
+      .catch(error => {
+        if (this.session === session) {
+          this.setStatus(session, 'disconnected');
+          this.emitError(error);
+        }
+      });
+  }
+
+  private stop(): void {
+    const session = this.session;
+    if (!session) {
+      return;
+    }
+    this.session = null;
+    session.transport.dispose();
+    this.sendButton.disabled = true;
+    this.currentStatus = 'idle';
+    this.removeAttribute('status');
+    this.statusEl.textContent = '';
+  }
+
+  /**
+   * Adds a live message of this thread and emits it. Data messages are emitted only
+   */
+  private receive(session: ChatSession, message: Message, event: 'message' | 'handoff'): void {
+    if (this.session !== session || !session.conversation.matches(message)) {
+      return;
+    }
+    if (message.messageType !== 'Data') {
+      session.conversation.receive(message);
+    }
+    this.dispatchEvent(new CustomEvent<XiansChatMessageEventDetail>(event, { detail: { message }, bubbles: true, composed: true }));
+  }
+
+  private setStatus(session: ChatSession, status: XiansChatStatus): void {
+    if (this.session !== session || this.currentStatus === status) {
+      return;
+    }
+    this.currentStatus = status;
+    this.setAttribute('status', status);
+    this.statusEl.textContent = STATUS_LABELS[status];
+  }
+
+  private emitError(error: unknown): void {
+    const detail = { error: error instanceof Error ? error : new Error(String(error)) };
+    this.dispatchEvent(new CustomEvent<XiansChatErrorEventDetail>('error', { detail, bubbles: true, composed: true }));
+  }
+
+  private renderMessages(conversation: Conversation): void {
+    const atBottom = this.messagesEl.scrollHeight - this.messagesEl.scrollTop - this.messagesEl.clientHeight < 24;
+    const items = conversation.getMessages()
+      .filter(message => message.messageType !== 'Data')
+      .map(renderMessage);
+    this.messagesEl.replaceChildren(...items);
+    // Follow new messages unless the user has scrolled up to read
+    if (atBottom) {
+      this.messagesEl.scrollTop = this.messagesEl.scrollHeight;
+    }
+  }
+}
+
+function renderMessage(message: ConversationMessage): HTMLElement {
+  const item = document.createElement('div');
+  item.textContent = message.text ?? '';
+  if (message.messageType === 'Handoff') {
+    item.setAttribute('part', 'handoff');
+    return item;
+  }
+
+  const parts = ['message', message.direction === 'Incoming' ? 'message-user' : 'message-agent'];
+  if (message.status !== 'delivered') {
+    parts.push(message.status);
+  }
+  item.setAttribute('part', parts.join(' '));
+  if (message.error) {
+    item.title = message.error;
+  }
+  return item;
+}
+
+/**
+ * Replaces the pending message of a send the server accepted. Neither transport echoes
+ * user messages back, so without this it would stay pending
+ */
+function confirmSent(conversation: Conversation, requestId: string): void {
+  const pending = conversation.getMessages().find(message => message.requestId === requestId && message.status === 'pending');
+  if (pending) {
+    const { status: _status, error: _error, ...message } = pending;
+    conversation.receive({ ...message, id: requestId });
+  }
+}
+
+function sseTransport(
+  options: BaseSDKOptions,
+  key: ConversationKey,
+  handlers: BaseEventHandlers,
+  onStatus: (status: XiansChatStatus) => void
+): ChatTransport {
+  const rest = new RestSDK(options);
+  const sse = new SseSDK({
+    ...options,
+    eventHandlers: {
+      ...handlers,
+      onConnected: () => onStatus('connected'),
+      onDisconnected: () => onStatus('disconnected')
+    }
+  });
+
+  return {
+    connect: () => sse.connect(key),
+    history: async pageSize => {
+      const result = await rest.getHistory({ ...key, page: 1, pageSize });
+      if (!result.success) {
+        throw result.exception ?? new Error(result.error);
+      }
+      return result.data ?? [];
+    },
+    send: async request => {
+      const result = await rest.send(request);
+      if (!result.success) {
+        throw result.exception ?? new Error(result.error);
+      }
+    },
+    dispose: () => {
+      sse.dispose();
+      rest.dispose();
+    }
+  };
+}
+
+function socketTransport(
+  options: BaseSDKOptions,
+  key: ConversationKey,
+  handlers: BaseEventHandlers,
+  onStatus: (status: XiansChatStatus) => void
+): ChatTransport {
+  const socket = new SocketSDK({
+    ...options,
+    eventHandlers: {
+      ...handlers,
+      onConnectionStateChanged: (_oldState, newState) => {
+        if (newState === ConnectionState.Connected) onStatus('connected');
+        else if (newState === ConnectionState.Reconnecting) onStatus('reconnecting');
+        else if (newState === ConnectionState.Disconnected || newState === ConnectionState.Failed) onStatus('disconnected');
+      }
+    }
+  });
+
+  return {
+    connect: async () => {
+      await socket.connect();
+      await socket.subscribeToAgent(key.workflow, key.participantId, { scope: key.scope });
+    },
+    history: pageSize => socket.getThreadHistory(key.workflow, key.participantId, 0, pageSize, key.scope),
+    send: async request => {
+      await socket.sendInboundMessage(request, MessageType.Chat);
+    },
+    dispose: () => {
+      socket.dispose().catch(() => undefined);
+    }
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * `<xians-chat>` Web Component for the XiansAi SDK
+ * Import from `@99xio/xians-sdk-typescript/element`; importing defines the element
+ */
+import { XiansChatElement } from './XiansChatElement';
+
+// Export element
+export { XiansChatElement } from './XiansChatElement';
+export type { XiansChatStatus, XiansChatMessageEventDetail, XiansChatErrorEventDetail } from './XiansChatElement';
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'xians-chat': XiansChatElement;
+  }
+}
+
+/**
+ * Registers the element under `tagName`, unless that name is taken already
+ */
+export function defineXiansChat(tagName = 'xians-chat'): void {
+  if (typeof customElements !== 'undefined' && !customElements.get(tagName)) {
+    customElements.define(tagName, class extends XiansChatElement {});
+  }
+}
+
+defineXiansChat();
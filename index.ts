@@ -12,7 +12,8 @@ export type {
   LoggerFunction,
   AuthType,
   BaseEventHandlers,
-  BaseConnectionParams
+  BaseConnectionParams,
+  OperationOptions
 } from './types';
 
 // Export unified interfaces and enums (as values)
@@ -22,6 +23,13 @@ export { MessageType, ConnectionState, SDK_DEFAULTS } from './types';
 export type {
   MessageRequest,
   EventHandlers,
+  SocketRequestOptions,
+  ThreadHistoryOptions,
+  SubscribeOptions,
+  UnsubscribeOptions,
+  SubscriptionHandlers,
+  AgentSubscription,
+  SocketEventMap,
   SocketSDKOptions
 } from './SocketSDK';
 
@@ -30,7 +38,8 @@ export type {
   RestMessageRequest,
   RestResponse,
   HistoryRequest,
-  RestSDKOptions
+  RestSDKOptions,
+  ConverseStreamOptions
 } from './RestSDK';
 
 // Export SseSDK types
@@ -41,18 +50,173 @@ export type {
   SseMessageEvent,
   SseErrorEvent,
   SseConnectionEvent,
+  SseStaleEvent,
+  SseHeartbeatStats,
   SseAnyEvent,
   SseEventHandler,
   SseEventHandlers,
+  SseEventMap,
   SseConnectionParams,
+  SseStreamOptions,
+  SseStreamInfo,
   SseSDKOptions
 } from './SseSDK';
 
+// Export XiansClient types
+export type {
+  XiansTransport,
+  ClientMessageRequest,
+  ClientHistoryRequest,
+  XiansClientEvents,
+  XiansClientOptions
+} from './XiansClient';
+
+// Export offline queue types
+export type {
+  QueuedMessage,
+  QueuedMessageStatus,
+  QueueStorage,
+  OutboundQueueOptions
+} from './core/OutboundQueue';
+
+// Export retry policy types
+export type {
+  RetryPolicy,
+  ExponentialRetryOptions,
+  JitterRetryOptions
+} from './core/RetryPolicy';
+
 // Export SDK classes
 export { default as SocketSDK } from './SocketSDK';
 export { default as RestSDK } from './RestSDK';
 export { default as SseSDK } from './SseSDK';
 export { default as AgentSDK } from './AgentSDK';
+export { default as XiansClient } from './XiansClient';
+
+// Export offline queue and storage backends
+export {
+  OutboundQueue,
+  MemoryQueueStorage,
+  LocalStorageQueueStorage,
+  IndexedDBQueueStorage,
+  FileQueueStorage
+} from './core/OutboundQueue';
+
+// Export error classes
+export {
+  XiansError,
+  XiansAuthError,
+  XiansTimeoutError,
+  XiansNetworkError,
+  XiansServerError,
+  XiansProtocolError,
+  XiansAbortError,
+  XiansDisposedError,
+  XiansValidationError
+} from './core/errors';
+export type { XiansErrorCode, XiansErrorOptions } from './core/errors';
+
+// Export conversation model
+export { Conversation } from './core/Conversation';
+export type {
+  ConversationKey,
+  ConversationMessage,
+  ConversationMessageStatus,
+  ConversationChange,
+  ConversationEvents,
+  ConversationSendRequest
+} from './core/Conversation';
+
+// Export event emitter types
+export type { EventCallback, EventDisposer, EventSubscription } from './core/EventDispatcher';
+
+// Export connection metrics types
+export type {
+  ConnectionMetricsSnapshot,
+  LatencySummary,
+  InvokeMetrics,
+  ReconnectMetrics,
+  ThroughputMetrics
+} from './core/ConnectionMetrics';
+
+// Export tracing
+export { InMemoryTracer, SpanKind, SpanStatusCode, traceparentOf } from './core/tracing';
+export type {
+  Tracer,
+  Span,
+  SpanContext,
+  SpanOptions,
+  SpanStatus,
+  SpanAttributes,
+  SpanAttributeValue,
+  RecordedSpan
+} from './core/tracing';
+
+// Export Data payload schemas (checked by AgentSDK)
+export { schema, fromZod, fromJsonSchema, SchemaRegistry } from './core/schema';
+export type {
+  PayloadSchema,
+  SchemaResult,
+  SchemaIssue,
+  InferPayload,
+  ZodLikeSchema,
+  JsonSchemaValidator
+} from './core/schema';
+
+// Export middleware
+export { MiddlewarePipeline } from './core/middleware';
+export type {
+  Middleware,
+  MiddlewareContext,
+  MiddlewareResult,
+  MiddlewareTransport,
+  OutboundContext,
+  InboundContext
+} from './core/middleware';
+
+// Export observable SDK state
+export { AgentStore, SocketStore } from './core/store';
+export type {
+  SdkStore,
+  AgentStoreSnapshot,
+  SocketStoreSnapshot,
+  StoreObservable,
+  StoreObserver,
+  StoreSubscription
+} from './core/store';
+
+// Export traffic recording and replay
+export { TrafficRecorder, TrafficReplayer } from './core/recording';
+export type {
+  TrafficInterceptor,
+  TrafficFixture,
+  TrafficEntry,
+  RecordedRequest,
+  RecordedResponse,
+  RestExchangeEntry,
+  SocketInvokeEntry,
+  SocketEventEntry,
+  SocketLifecycleEntry,
+  SseOpenEntry,
+  SseEventEntry,
+  SseErrorEntry
+} from './core/recording';
+
+// Export history iteration
+export type { HistoryIteratorOptions, HistoryDirection } from './core/history';
+
+// Export token management
+export { TokenProvider, decodeJwtExpiry } from './core/TokenProvider';
+export type { TokenProviderOptions } from './core/TokenProvider';
+
+// Export retry policies
+export {
+  FixedRetryPolicy,
+  ExponentialRetryPolicy,
+  JitterRetryPolicy,
+  CustomRetryPolicy,
+  DEFAULT_RETRY_STATUS_CODES
+} from './core/RetryPolicy';
 
 /**
  * Example usage of both SDKs:
@@ -0,0 +1,86 @@
+import { createContext, createElement, useContext, useEffect, useRef } from 'react';
+import type { ReactNode } from 'react';
+import type { AgentSDK } from '../AgentSDK';
+import type { Agent } from '../core/types';
+import { AgentStore } from '../core/store';
+
+export interface XiansProviderProps {
+  sdk: AgentSDK;
+  /**
+   * Agents to connect when the provider mounts. Read once; without them the app connects the SDK itself
+   */
+  agents?: Agent[];
+  /**
+   * Called when connecting or disconnecting fails
+   */
+  onError?: (error: unknown) => void;
+  children?: ReactNode;
+}
+
+const AgentSDKContext = createContext<AgentSDK | null>(null);
+
+// One store per SDK, kept for as long as the SDK lives so messages that arrive while nothing is mounted are kept
+const stores = new WeakMap<AgentSDK, AgentStore>();
+
+// Providers using each SDK, so a remount (StrictMode, route changes) keeps the connection
+const users = new WeakMap<AgentSDK, { count: number; disconnectTimer?: ReturnType<typeof setTimeout> }>();
+
+/**
+ * Makes `sdk` available to the hooks below it. With `agents`, connects on mount and
+ * disconnects once the last provider using the SDK has unmounted
+ */
+export function XiansProvider({ sdk, agents, onError, children }: XiansProviderProps) {
+  const onErrorRef = useRef(onError);
+  useEffect(() => {
+    onErrorRef.current = onError;
+  });
+
+  useEffect(() => {
+    if (!agents) {
+      return;
+    }
+
+    const entry = users.get(sdk) ?? { count: 0 };
+    clearTimeout(entry.disconnectTimer);
+    entry.count++;
+    users.set(sdk, entry);
+    sdk.connect(agents).catch(error => onErrorRef.current?.(error));
+
+    return () => {
+      entry.count--;
+      if (entry.count > 0) {
+        return;
+      }
+      // Deferred, so an unmount that is followed straight away by a mount does not reconnect
+      entry.disconnectTimer = setTimeout(() => {
+        users.delete(sdk);
+        sdk.disconnect().catch(error => onErrorRef.current?.(error));
+      }, 0);
+    };
+  }, [sdk]);
+
+  return createElement(AgentSDKContext.Provider, { value: sdk }, children);
+}
+
+/**
+ * The AgentSDK of the nearest XiansProvider
+ */
+export function useAgentSDK(): AgentSDK {
+  const sdk = useContext(AgentSDKContext);
+  if (!sdk) {
+    throw new Error('useAgentSDK must be used inside a XiansProvider');
+  }
+  return sdk;
+}
+
+/**
+ * The AgentStore the hooks read from for `sdk`, created on first use
+ */
+export function storeFor(sdk: AgentSDK): AgentStore {
+  let store = stores.get(sdk);
+  if (!store) {
+    store = new AgentStore(sdk);
+    stores.set(sdk, store);
+  }
+  return store;
+}
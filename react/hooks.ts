@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import type { ChatMessageData } from '../AgentSDK';
+import type { ConnectionState } from '../core/types';
+import { storeFor, useAgentSDK } from './XiansProvider';
+
+export interface SendChatResult {
+  /**
+   * Sends `text` to the agent. Resolves false when sending failed; the error is in `error`
+   */
+  send: (text: string, data?: any) => Promise<boolean>;
+  sending: boolean;
+  error: unknown;
+}
+
+const DISCONNECTED: ConnectionState = Object.freeze({ status: 'disconnected' });
+const NO_MESSAGES: readonly ChatMessageData[] = Object.freeze([]);
+
+let dataSubscriberCount = 0;
+
+/**
+ * Connection state of the agent for `workflowType`; `disconnected` until it starts connecting
+ */
+export function useAgentConnection(workflowType: string): ConnectionState {
+  const store = storeFor(useAgentSDK());
+  const getSnapshot = () => store.getSnapshot().connections[workflowType] ?? DISCONNECTED;
+  return useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot);
+}
+
+/**
+ * Chat messages of `workflowType`, history first, oldest first. The array is replaced when a message arrives
+ */
+export function useChatMessages(workflowType: string): readonly ChatMessageData[] {
+  const store = storeFor(useAgentSDK());
+  const getSnapshot = () => store.getSnapshot().messages[workflowType] ?? NO_MESSAGES;
+  return useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot);
+}
+
+/**
+ * The latest Data payload of any of `types`, or undefined until one arrives.
+ * `onData` is called for every payload, also ones that do not change what is rendered
+ */
+export function useDataSubscription<T = any>(types: string[], onData?: (payload: T) => void): T | undefined {
+  const sdk = useAgentSDK();
+  const typesKey = JSON.stringify(types);
+  const onDataRef = useRef(onData);
+  useEffect(() => {
+    onDataRef.current = onData;
+  });
+
+  const source = useMemo(() => {
+    let latest: T | undefined;
+    return {
+      subscribe: (listener: () => void) =>
+        sdk.subscribeToData(`react-data-${++dataSubscriberCount}`, JSON.parse(typesKey), (payload: T) => {
+          latest = payload;
+          onDataRef.current?.(payload);
+          listener();
+        }),
+      getSnapshot: () => latest
+    };
+  }, [sdk, typesKey]);
+
+  return useSyncExternalStore(source.subscribe, source.getSnapshot, source.getSnapshot);
+}
+
+/**
+ * Sends chat messages to the agent for `workflowType`, tracking whether a send is in flight
+ */
+export function useSendChat(workflowType: string): SendChatResult {
+  const sdk = useAgentSDK();
+  const [pending, setPending] = useState(0);
+  const [error, setError] = useState<unknown>(null);
+
+  const send = useCallback(async (text: string, data?: any) => {
+    setPending(count => count + 1);
+    setError(null);
+    try {
+      await sdk.sendChat(workflowType, text, data);
+      return true;
+    } catch (sendError) {
+      setError(sendError);
+      return false;
+    } finally {
+      setPending(count => count - 1);
+    }
+  }, [sdk, workflowType]);
+
+  return { send, sending: pending > 0, error };
+}
@@ -0,0 +1,12 @@
+/**
+ * React bindings for the XiansAi SDK
+ * Import from `@99xio/xians-sdk-typescript/react`
+ */
+
+// Export provider
+export { XiansProvider, useAgentSDK } from './XiansProvider';
+export type { XiansProviderProps } from './XiansProvider';
+
+// Export hooks
+export { useAgentConnection, useChatMessages, useDataSubscription, useSendChat } from './hooks';
+export type { SendChatResult } from './hooks';
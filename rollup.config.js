@@ -49,4 +49,96 @@ export default [
       }),
     ],
   },
-]; 
\ No newline at end of file
+  // Mock server for tests, Node only (`@99xio/xians-sdk-typescript/testing`)
+  {
+    input: 'testing/index.ts',
+    output: [
+      {
+        file: 'dist/testing.esm.js',
+        format: 'es',
+        sourcemap: true,
+      },
+      {
+        file: 'dist/testing.js',
+        format: 'cjs',
+        sourcemap: true,
+        exports: 'named',
+      },
+    ],
+    external: [...external, /^node:/],
+    plugins: [
+      typescript({
+        declaration: false, // Declarations come from the ES Modules build
+        declarationMap: false,
+        rootDir: '.',
+      }),
+    ],
+  },
+  // React bindings (`@99xio/xians-sdk-typescript/react`)
+  {
+    input: 'react/index.ts',
+    output: [
+      {
+        file: 'dist/react.esm.js',
+        format: 'es',
+        sourcemap: true,
+      },
+      {
+        file: 'dist/react.js',
+        format: 'cjs',
+        sourcemap: true,
+        exports: 'named',
+      },
+    ],
+    external: [...external, 'react'],
+    plugins: [
+      typescript({
+        declaration: false, // Declarations come from the ES Modules build
+        declarationMap: false,
+        rootDir: '.',
+      }),
+    ],
+  },
+  // <xians-chat> Web Component (`@99xio/xians-sdk-typescript/element`)
+  {
+    input: 'element/index.ts',
+    output: {
+      file: 'dist/element.esm.js',
+      format: 'es',
+      sourcemap: true,
+    },
+    external,
+    plugins: [
+      resolve({
+        browser: true,
+      }),
+      commonjs(),
+      typescript({
+        declaration: false, // Declarations come from the ES Modules build
+        declarationMap: false,
+        rootDir: '.',
+      }),
+    ],
+  },
+  // <xians-chat> with everything bundled, for a plain <script> tag
+  {
+    input: 'element/index.ts',
+    output: {
+      file: 'dist/xians-chat.js',
+      format: 'iife',
+      name: 'XiansChat',
+      sourcemap: true,
+    },
+    plugins: [
+      resolve({
+        browser: true,
+      }),
+      commonjs(),
+      typescript({
+        declaration: false,
+        declarationMap: false,
+        rootDir: '.',
+      }),
+    ],
+  },
+];
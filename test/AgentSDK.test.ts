@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AgentSDK, AgentSDKOptions } from '../AgentSDK';
+import { QueueStorage } from '../core/OutboundQueue';
+
+// Minimal stand-in for a SignalR HubConnection so the Hub can be exercised without a server
+class FakeHubConnection {
+  static instances: FakeHubConnection[] = [];
+
+  state = 'Disconnected';
+  invocations: { method: string; args: any[] }[] = [];
+  invokeHandler: (method: string, ...args: any[]) => any = () => undefined;
+  private reconnectingHandlers: ((error?: Error) => void)[] = [];
+  private reconnectedHandlers: ((connectionId?: string) => void)[] = [];
+
+  constructor() {
+    FakeHubConnection.instances.push(this);
+  }
+
+  on() {}
+  onclose() {}
+  onreconnecting(callback: (error?: Error) => void) { this.reconnectingHandlers.push(callback); }
+  onreconnected(callback: (connectionId?: string) => void) { this.reconnectedHandlers.push(callback); }
+
+  async start() { this.state = 'Connected'; }
+  async stop() { this.state = 'Disconnected'; }
+
+  async invoke(method: string, ...args: any[]) {
+    this.invocations.push({ method, args });
+    return this.invokeHandler(method, ...args);
+  }
+
+  sent() {
+    return this.invocations.filter(i => i.method === 'SendInboundMessage').map(i => i.args[0].text);
+  }
+
+  simulateReconnecting() {
+    this.state = 'Reconnecting';
+    this.reconnectingHandlers.forEach(cb => cb());
+  }
+
+  simulateReconnected() {
+    this.state = 'Connected';
+    this.reconnectedHandlers.forEach(cb => cb('reconnected-id'));
+  }
+}
+
+vi.mock('@microsoft/signalr', () => {
+  class HubConnectionBuilder {
+    withUrl() { return this; }
+    withAutomaticReconnect() { return this; }
+    configureLogging() { return this; }
+    build() { return new FakeHubConnection(); }
+  }
+  return { HubConnectionBuilder, LogLevel: { Information: 2 } };
+});
+
+const agents = [{ id: 'support', workflowType: 'support' }];
+
+// Lets the flush started by a reconnect finish
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('AgentSDK offline queue', () => {
+  let sdk: AgentSDK;
+  let connection: FakeHubConnection;
+
+  const connect = async (options: Partial<AgentSDKOptions> = {}) => {
+    sdk = new AgentSDK({
+      agentWebsocketUrl: 'http://localhost:5000/hub',
+      Authorization: 'sk-test',
+      tenantId: 'tenant',
+      participantId: 'user-1',
+      offlineQueue: true,
+      ...options
+    });
+    await sdk.connect(agents);
+    connection = FakeHubConnection.instances[0];
+  };
+
+  beforeEach(() => {
+    FakeHubConnection.instances = [];
+    // Every AgentSDK shares one Hub; start each test with a fresh one
+    (AgentSDK as any)._hub = null;
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await sdk?.disconnect();
+    vi.restoreAllMocks();
+  });
+
+  it('should queue sends while the agent is reconnecting and flush them in order afterwards', async () => {
+    await connect();
+    const changes: string[] = [];
+    sdk.on('queue_change', ({ workflowId, data }) => changes.push(`${workflowId}:${data.status}`));
+
+    connection.simulateReconnecting();
+    await sdk.sendChat('support', 'first');
+    await sdk.sendData('support', { value: 2 });
+    await sdk.sendChat('support', 'third');
+
+    expect(connection.sent()).toEqual([]);
+    const requestIds = sdk.getQueuedMessages().map(m => m.requestId);
+    expect(sdk.getQueuedMessages().map(m => [m.messageType, m.status])).toEqual([
+      ['Chat', 'queued'],
+      ['Data', 'queued'],
+      ['Chat', 'queued']
+    ]);
+
+    connection.simulateReconnected();
+    await settle();
+
+    const sends = connection.invocations.filter(i => i.method === 'SendInboundMessage');
+    expect(sends.map(i => i.args[1])).toEqual(['Chat', 'Data', 'Chat']);
+    expect(sends.map(i => i.args[0].requestId)).toEqual(requestIds);
+    expect(connection.sent()).toEqual(['first', undefined, 'third']);
+    expect(sdk.getQueuedMessages()).toEqual([]);
+    expect(changes.filter(c => c.endsWith(':sent'))).toHaveLength(3);
+    expect(changes.every(c => c.startsWith('support:'))).toBe(true);
+  });
+
+  it('should queue new sends behind a flush that is still running', async () => {
+    await connect();
+    connection.simulateReconnecting();
+    await sdk.sendChat('support', 'queued');
+
+    // Hold the first replayed send so the flush is still running when the next message comes in
+    let release!: () => void;
+    connection.invokeHandler = () => new Promise<void>(resolve => { release = resolve; });
+    connection.simulateReconnected();
+    await settle();
+    connection.invokeHandler = () => undefined;
+
+    await sdk.sendChat('support', 'new');
+    expect(connection.sent()).toEqual(['queued']);
+
+    release();
+    await settle();
+    expect(connection.sent()).toEqual(['queued', 'new']);
+    expect(sdk.getQueuedMessages()).toEqual([]);
+
+    await sdk.sendChat('support', 'direct');
+    expect(connection.sent()).toEqual(['queued', 'new', 'direct']);
+  });
+
+  it('should report queued messages to the logger', async () => {
+    const logger = vi.fn();
+    await connect({ logger });
+    connection.simulateReconnecting();
+    await sdk.sendChat('support', 'hello');
+
+    expect(logger).toHaveBeenCalledWith('info', expect.stringMatching(/^Queueing Chat message .+ for support$/), undefined);
+  });
+
+  it('should let a failed message be retried on the next reconnect', async () => {
+    await connect({ offlineQueue: { maxAttempts: 1 } });
+    connection.simulateReconnecting();
+    await sdk.sendChat('support', 'hello');
+    const [queued] = sdk.getQueuedMessages();
+
+    connection.invokeHandler = method => {
+      if (method === 'SendInboundMessage') throw new Error('rejected');
+    };
+    connection.simulateReconnected();
+    await settle();
+
+    expect(sdk.getQueuedMessages()).toEqual([
+      expect.objectContaining({ requestId: queued.requestId, status: 'failed', lastError: 'rejected', attempts: 1 })
+    ]);
+
+    connection.invokeHandler = () => undefined;
+    expect(await sdk.retryQueuedMessage(queued.requestId)).toBe(true);
+    expect(sdk.getQueuedMessages()[0].status).toBe('queued');
+    expect(await sdk.retryQueuedMessage('unknown')).toBe(false);
+
+    connection.simulateReconnecting();
+    connection.simulateReconnected();
+    await settle();
+
+    expect(connection.sent()).toEqual(['hello', 'hello']);
+    expect(sdk.getQueuedMessages()).toEqual([]);
+  });
+
+  it('should report unreadable queue storage to the logger', async () => {
+    const logger = vi.fn();
+    const storage: QueueStorage = {
+      load: () => Promise.reject(new Error('corrupt')),
+      save: async () => undefined
+    };
+    await connect({ logger, offlineQueue: { storage } });
+    connection.simulateReconnecting();
+    await sdk.sendChat('support', 'hello');
+
+    expect(logger).toHaveBeenCalledWith('warn', 'Ignoring unreadable outbound queue storage', expect.any(Error));
+    expect(sdk.getQueuedMessages()).toHaveLength(1);
+  });
+
+  it('should send Data payloads as their schema returns them', async () => {
+    await connect();
+    // Keeps only the known property and normalises it, dropping messageType like a strict zod object
+    sdk.registerDataSchema('OrderUpdate', {
+      validate: (value: any) => typeof value?.orderId === 'number'
+        ? { success: true, data: { orderId: String(value.orderId) } }
+        : { success: false, issues: [{ path: 'orderId', message: 'Expected number' }] }
+    });
+
+    await sdk.sendData('support', { messageType: 'OrderUpdate', orderId: 42, draft: true });
+    await expect(sdk.sendData('support', { messageType: 'OrderUpdate', orderId: 'x' }))
+      .rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+
+    const sends = connection.invocations.filter(i => i.method === 'SendInboundMessage');
+    expect(sends.map(i => i.args[0].data)).toEqual([{ orderId: '42', messageType: 'OrderUpdate' }]);
+  });
+
+  it('should throw rather than queue without offlineQueue', async () => {
+    await connect({ offlineQueue: undefined });
+    connection.simulateReconnecting();
+
+    await expect(sdk.sendChat('support', 'hello')).rejects.toMatchObject({ code: 'NOT_CONNECTED' });
+    expect(sdk.getQueuedMessages()).toEqual([]);
+    expect(await sdk.retryQueuedMessage('any')).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { ConnectionMetrics } from '../core/ConnectionMetrics';
+
+const clock = () => {
+  let now = 1_000_000;
+  return { now: () => now, advance: (ms: number) => { now += ms; } };
+};
+
+describe('ConnectionMetrics', () => {
+  it('should time hub calls per method, counting failures', async () => {
+    const time = clock();
+    const metrics = new ConnectionMetrics(time.now);
+
+    await metrics.time('GetThreadHistory', async () => time.advance(40));
+    await metrics.time('GetThreadHistory', async () => time.advance(20));
+    await expect(metrics.time('SubscribeToAgent', async () => {
+      time.advance(5);
+      throw new Error('rejected');
+    })).rejects.toThrow('rejected');
+
+    const { invokes } = metrics.snapshot();
+    expect(invokes.GetThreadHistory).toMatchObject({ count: 2, lastMs: 20, minMs: 20, maxMs: 40, avgMs: 30, failures: 0 });
+    expect(invokes.SubscribeToAgent).toMatchObject({ count: 1, failures: 1 });
+  });
+
+  it('should measure the time to the first reply and the throughput window', () => {
+    const time = clock();
+    const metrics = new ConnectionMetrics(time.now);
+
+    metrics.messageSent('req-1');
+    time.advance(300);
+    metrics.messageReceived('req-1');
+    metrics.messageReceived('req-1');
+    time.advance(60000);
+    metrics.messageSent();
+
+    const snapshot = metrics.snapshot();
+    expect(snapshot.firstReply).toMatchObject({ count: 1, lastMs: 300 });
+    expect(snapshot.throughput).toEqual({ sent: 2, received: 2, sentLastMinute: 1, receivedLastMinute: 0 });
+  });
+
+  it('should count reconnects and their downtime', () => {
+    const time = clock();
+    const metrics = new ConnectionMetrics(time.now);
+
+    metrics.connectionRestored();
+    metrics.connectionLost();
+    time.advance(1000);
+    metrics.connectionLost();
+    time.advance(500);
+    metrics.connectionRestored();
+    metrics.connectionLost();
+    time.advance(200);
+
+    const { reconnects } = metrics.snapshot();
+    expect(reconnects.count).toBe(1);
+    expect(reconnects.lastDowntimeMs).toBe(1500);
+    expect(reconnects.totalDowntimeMs).toBe(1500);
+    expect(reconnects.downSince).toBe(new Date(1_000_000 + 1500).toISOString());
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Conversation, ConversationChange } from '../core/Conversation';
+import { Message } from '../types';
+
+const message = (overrides: Partial<Message> = {}): Message => ({
+  id: `msg-${Math.random().toString(36).slice(2)}`,
+  createdAt: '2024-01-01T10:00:00.000Z',
+  direction: 'Outgoing',
+  messageType: 'Chat',
+  text: 'reply',
+  participantId: 'user-1',
+  workflowId: 'tenant:support',
+  workflowType: 'support',
+  ...overrides
+});
+
+describe('Conversation', () => {
+  it('should merge history and live messages sorted by createdAt without duplicates', () => {
+    const conversation = new Conversation({ workflow: 'support', participantId: 'user-1' });
+    const first = message({ id: 'a', createdAt: '2024-01-01T10:00:00.000Z' });
+    const second = message({ id: 'b', createdAt: '2024-01-01T10:01:00.000Z' });
+    const third = message({ id: 'c', createdAt: '2024-01-01T10:02:00.000Z' });
+
+    conversation.receive(third);
+    conversation.addHistory([second, first]);
+    conversation.addHistory([third, second]);
+
+    expect(conversation.getMessages().map(m => m.id)).toEqual(['a', 'b', 'c']);
+    expect(conversation.getMessages().every(m => m.status === 'delivered')).toBe(true);
+  });
+
+  it('should ignore messages from other threads', () => {
+    const conversation = new Conversation({ workflow: 'support', participantId: 'user-1', scope: 'billing' });
+
+    expect(conversation.receive(message({ scope: 'billing' }))).toBe(true);
+    expect(conversation.receive(message({ scope: 'billing', participantId: 'user-2' }))).toBe(false);
+    expect(conversation.receive(message())).toBe(false);
+    expect(conversation.receive(message({ scope: 'billing', workflowId: 'tenant:sales', workflowType: 'sales' }))).toBe(false);
+    expect(conversation.size).toBe(1);
+  });
+
+  it('should replace an optimistic message with the server echo', () => {
+    const conversation = new Conversation({ workflow: 'support', participantId: 'user-1' });
+    const changes: ConversationChange[] = [];
+    conversation.on('change', (change: ConversationChange) => changes.push(change));
+
+    const request = conversation.addOptimistic({ type: 'Chat', text: 'hello' });
+    expect(conversation.getMessages()[0]).toMatchObject({ status: 'pending', text: 'hello', direction: 'Incoming' });
+
+    conversation.receive(message({ id: 'server-1', direction: 'Incoming', text: 'hello', requestId: request.requestId }));
+    conversation.receive(message({ id: 'server-2', requestId: request.requestId, createdAt: '2999-01-01T00:00:00.000Z' }));
+
+    expect(conversation.getMessages().map(m => [m.id, m.status])).toEqual([
+      ['server-1', 'delivered'],
+      ['server-2', 'delivered']
+    ]);
+    expect(changes.map(c => [c.added.length, c.updated.length])).toEqual([[1, 0], [0, 1], [1, 0]]);
+  });
+
+  it('should mark optimistic messages failed when sending fails', async () => {
+    const conversation = new Conversation({ workflow: 'support', participantId: 'user-1' });
+    const sender = vi.fn(async () => { throw new Error('offline'); });
+
+    await expect(conversation.send({ type: 'Chat', text: 'hi', requestId: 'req-1' }, sender)).rejects.toThrow('offline');
+
+    expect(sender).toHaveBeenCalledWith(expect.objectContaining({ workflow: 'support', participantId: 'user-1', requestId: 'req-1' }));
+    expect(conversation.getMessages()[0]).toMatchObject({ status: 'failed', error: 'offline' });
+    expect(conversation.removeOptimistic('req-1')).toBe(true);
+    expect(conversation.size).toBe(0);
+  });
+});
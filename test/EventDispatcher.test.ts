@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventDispatcher } from '../core/EventDispatcher';
+import { XiansDisposedError, XiansTimeoutError } from '../core/errors';
+
+interface TestEvents {
+  tick: number;
+  name: string;
+}
+
+describe('EventDispatcher', () => {
+  it('should remove a listener through the returned disposer', () => {
+    const dispatcher = new EventDispatcher<TestEvents>();
+    const first = vi.fn();
+    const second = vi.fn();
+
+    const dispose = dispatcher.on('tick', first);
+    dispatcher.on('tick', second).unsubscribe();
+    dispatcher.emit('tick', 1);
+    dispose();
+    dispatcher.emit('tick', 2);
+
+    expect(first.mock.calls).toEqual([[1]]);
+    expect(second).not.toHaveBeenCalled();
+    expect(dispatcher.listenerCount('tick')).toBe(0);
+  });
+
+  it('should resolve once() with the next event', async () => {
+    const dispatcher = new EventDispatcher<TestEvents>();
+
+    const next = dispatcher.once('name');
+    dispatcher.emit('name', 'first');
+    dispatcher.emit('name', 'second');
+
+    await expect(next).resolves.toBe('first');
+    expect(dispatcher.listenerCount('name')).toBe(0);
+  });
+
+  it('should wait for an event matching the predicate', async () => {
+    const dispatcher = new EventDispatcher<TestEvents>();
+
+    const even = dispatcher.waitFor('tick', n => n % 2 === 0, 1000);
+    [1, 3, 4, 6].forEach(n => dispatcher.emit('tick', n));
+
+    await expect(even).resolves.toBe(4);
+    expect(dispatcher.listenerCount('tick')).toBe(0);
+  });
+
+  it('should reject waitFor() after the timeout', async () => {
+    vi.useFakeTimers();
+    try {
+      const dispatcher = new EventDispatcher<TestEvents>();
+      const pending = dispatcher.waitFor('tick', undefined, 50);
+      const assertion = expect(pending).rejects.toBeInstanceOf(XiansTimeoutError);
+
+      await vi.advanceTimersByTimeAsync(50);
+      await assertion;
+      expect(dispatcher.listenerCount('tick')).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should reject pending waiters of the cleared events', async () => {
+    const dispatcher = new EventDispatcher<TestEvents>();
+    const tick = dispatcher.once('tick');
+    const name = dispatcher.waitFor('name');
+
+    dispatcher.clear('tick');
+    await expect(tick).rejects.toBeInstanceOf(XiansDisposedError);
+
+    const reason = new XiansDisposedError();
+    dispatcher.clear(undefined, reason);
+    await expect(name).rejects.toBe(reason);
+    expect(dispatcher.getStats().totalListeners).toBe(0);
+  });
+
+  it('should report listener errors and keep calling the others', () => {
+    const onListenerError = vi.fn();
+    const dispatcher = new EventDispatcher<TestEvents>(onListenerError);
+    const after = vi.fn();
+
+    dispatcher.on('tick', () => { throw new Error('boom'); });
+    dispatcher.on('tick', after);
+    dispatcher.emit('tick', 1);
+
+    expect(onListenerError).toHaveBeenCalledWith('tick', expect.any(Error));
+    expect(after).toHaveBeenCalledWith(1);
+  });
+});
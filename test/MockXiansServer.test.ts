@@ -0,0 +1,249 @@
+import { describe, it, expect, beforeEach, afterEach, beforeAll, vi } from 'vitest';
+import { EventSource } from 'eventsource';
+import RestSDK from '../RestSDK';
+import SocketSDK from '../SocketSDK';
+import { AgentSDK } from '../AgentSDK';
+import { ConnectionState, Message, MessageType } from '../types';
+import { MockXiansServer } from '../testing';
+
+// SseSDK picks its EventSource when it is loaded, and Node has none built in
+let SseSDK: typeof import('../SseSDK').default;
+beforeAll(async () => {
+  (globalThis as any).EventSource = EventSource;
+  SseSDK = (await import('../SseSDK')).default;
+});
+
+const thread = { workflow: 'support', participantId: 'user-1' };
+
+describe('MockXiansServer', () => {
+  let server: MockXiansServer;
+  let serverUrl: string;
+
+  beforeEach(async () => {
+    server = new MockXiansServer({ tenantId: 'tenant', apiKey: 'key' });
+    serverUrl = await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  describe('REST', () => {
+    const createSdk = (options: Partial<ConstructorParameters<typeof RestSDK>[0]> = {}) =>
+      new RestSDK({ serverUrl, tenantId: 'tenant', apiKey: 'key', ...options });
+
+    it('returns the scripted replies from converse', async () => {
+      server.onMessage((message, agent) => {
+        agent.reply(`echo: ${message.text}`);
+        agent.sendData({ step: 2 });
+      });
+
+      const result = await createSdk().converse({ ...thread, type: 'Chat', text: 'hi', requestId: 'r1' });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.map(m => [m.messageType, m.text ?? m.data])).toEqual([['Chat', 'echo: hi'], ['Data', { step: 2 }]]);
+      expect(result.data?.every(m => m.requestId === 'r1')).toBe(true);
+      expect(server.messages[0]).toMatchObject({ transport: 'rest', operation: 'converse', text: 'hi', tenantId: 'tenant' });
+    });
+
+    it('streams the replies to converseStream over the SSE stream', async () => {
+      server.onMessage((_message, agent) => {
+        agent.reply('one');
+        server.agent(thread).reply('not a reply to this request');
+        agent.reply('two');
+      });
+
+      const texts: string[] = [];
+      for await (const message of createSdk().converseStream({ ...thread, type: 'Chat', text: 'hi' }, { idleTimeout: 50 })) {
+        texts.push(message.text!);
+      }
+
+      expect(texts).toEqual(['one', 'two']);
+      expect(server.messages[0]).toMatchObject({ transport: 'rest', operation: 'send', text: 'hi' });
+      await vi.waitFor(() => expect(server.connections.sse).toBe(0));
+    });
+
+    it('pages history newest first', async () => {
+      server.onMessage((_message, agent) => {
+        agent.reply('answer');
+      });
+      const sdk = createSdk();
+      await sdk.send({ ...thread, type: 'Chat', text: 'question' });
+
+      const result = await sdk.getHistory({ ...thread, page: 1, pageSize: 10 });
+
+      expect(result.data?.map(m => [m.direction, m.text])).toEqual([['Outgoing', 'answer'], ['Incoming', 'question']]);
+    });
+
+    it('fails scripted operations and rejects bad credentials', async () => {
+      server.failNext('send', { status: 400, message: 'workflow is paused' });
+
+      const failed = await createSdk().send({ ...thread, type: 'Chat', text: 'hi' });
+      const retried = await createSdk().send({ ...thread, type: 'Chat', text: 'hi' });
+      const unauthorized = await createSdk({ apiKey: 'wrong' }).send({ ...thread, type: 'Chat', text: 'hi' });
+
+      expect(failed).toMatchObject({ success: false, statusCode: 400, error: 'workflow is paused' });
+      expect(retried.success).toBe(true);
+      expect(unauthorized.statusCode).toBe(401);
+    });
+
+    it('turns a throwing script into a server error', async () => {
+      server.onMessage(() => {
+        throw new Error('agent crashed');
+      });
+
+      const result = await createSdk().converse({ ...thread, type: 'Chat', text: 'hi' });
+
+      expect(result).toMatchObject({ success: false, statusCode: 500, error: 'agent crashed' });
+    });
+  });
+
+  describe('SignalR hub', () => {
+    let sdk: SocketSDK;
+
+    afterEach(async () => {
+      await sdk?.dispose();
+    });
+
+    it('delivers replies and handoffs to the sending socket', async () => {
+      const chats: Message[] = [];
+      const handoffs: Message[] = [];
+      sdk = new SocketSDK({
+        serverUrl,
+        tenantId: 'tenant',
+        apiKey: 'key',
+        eventHandlers: {
+          onReceiveChat: message => chats.push(message),
+          onReceiveHandoff: message => handoffs.push(message)
+        }
+      });
+      server.onMessage((message, agent) => {
+        agent.reply(`echo: ${message.text}`);
+        agent.handoff('passing you on', { data: { to: 'billing' } });
+      });
+
+      await sdk.connect();
+      await sdk.sendInboundMessage({ ...thread, type: 'Chat', text: 'hello', requestId: 'r1' }, MessageType.Chat);
+
+      await vi.waitFor(() => expect(handoffs).toHaveLength(1));
+      expect(chats.map(m => m.text)).toEqual(['echo: hello']);
+      expect(handoffs[0]).toMatchObject({ requestId: 'r1', data: { to: 'billing' } });
+      expect(server.messages[0]).toMatchObject({ transport: 'socket', type: 'Chat', requestId: 'r1' });
+    });
+
+    it('pushes agent messages to subscribers and answers history requests', async () => {
+      const data: Message[] = [];
+      sdk = new SocketSDK({ serverUrl, tenantId: 'tenant', apiKey: 'key', eventHandlers: { onReceiveData: message => data.push(message) } });
+      await sdk.connect();
+      await sdk.subscribeToAgent(thread.workflow, thread.participantId);
+
+      server.agent(thread).sendData({ progress: 50 });
+      await vi.waitFor(() => expect(data).toHaveLength(1));
+
+      const history = await sdk.getThreadHistory(thread.workflow, thread.participantId, 0, 10);
+      expect(history).toHaveLength(1);
+      expect(history[0].data).toEqual({ progress: 50 });
+    });
+
+    it('rejects failed hub calls and reports hub errors', async () => {
+      const errors: string[] = [];
+      sdk = new SocketSDK({ serverUrl, tenantId: 'tenant', apiKey: 'key', eventHandlers: { onError: error => errors.push(error) } });
+      await sdk.connect();
+      server.failNext('SendInboundMessage', { message: 'workflow not found' });
+
+      await expect(sdk.sendInboundMessage({ ...thread, type: 'Chat', text: 'hi' }, MessageType.Chat))
+        .rejects.toThrow('workflow not found');
+
+      server.sendHubError('something broke');
+      await vi.waitFor(() => expect(errors).toEqual(['something broke']));
+    });
+
+    it('reconnects after the server drops the connection', async () => {
+      const onReconnected = vi.fn();
+      sdk = new SocketSDK({ serverUrl, tenantId: 'tenant', apiKey: 'key', reconnectDelay: 10, eventHandlers: { onReconnected } });
+      await sdk.connect();
+
+      server.disconnect('socket');
+
+      await vi.waitFor(() => expect(onReconnected).toHaveBeenCalledTimes(1));
+      expect(sdk.getConnectionState()).toBe(ConnectionState.Connected);
+      expect(server.connections.socket).toBe(1);
+    });
+  });
+
+  describe('SSE', () => {
+    it('streams agent messages and resumes after a dropped stream', async () => {
+      const received: Message[] = [];
+      const sdk = new SseSDK({
+        serverUrl,
+        tenantId: 'tenant',
+        apiKey: 'key',
+        reconnectDelay: 10,
+        eventHandlers: { onReceiveChat: message => received.push(message) }
+      });
+
+      try {
+        await sdk.connect(thread);
+        await vi.waitFor(() => expect(sdk.isConnected()).toBe(true));
+        server.agent(thread).reply('first');
+        await vi.waitFor(() => expect(received).toHaveLength(1));
+
+        server.disconnect('sse');
+        server.agent(thread).reply('while away');
+        await vi.waitFor(() => expect(received.map(m => m.text)).toEqual(['first', 'while away']), { timeout: 5000 });
+      } finally {
+        sdk.dispose();
+      }
+    });
+
+    it('sends heartbeats at the requested interval', async () => {
+      const heartbeats: number[] = [];
+      const sdk = new SseSDK({
+        serverUrl,
+        tenantId: 'tenant',
+        apiKey: 'key',
+        eventHandlers: { onHeartbeat: data => heartbeats.push(data.subscriberCount) }
+      });
+
+      try {
+        await sdk.connect({ ...thread, heartbeatSeconds: 0.05 });
+        await vi.waitFor(() => expect(heartbeats.length).toBeGreaterThan(0));
+        expect(heartbeats[0]).toBe(1);
+      } finally {
+        sdk.dispose();
+      }
+    });
+  });
+
+  describe('AgentSDK', () => {
+    it('connects through the hub and receives chat replies', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => undefined);
+      const agentSdk = new AgentSDK({
+        agentWebsocketUrl: server.hubUrl,
+        Authorization: 'key',
+        tenantId: 'tenant',
+        participantId: thread.participantId
+      });
+      server.onMessage((message, agent) => {
+        agent.reply(`echo: ${message.text}`);
+      });
+
+      const texts: string[] = [];
+      agentSdk.subscribeToChatMessages(chat => {
+        if (chat.direction === 'Outgoing') texts.push(chat.text);
+      });
+
+      try {
+        await agentSdk.connect([{ id: 'support', workflowType: thread.workflow }]);
+        await vi.waitFor(() => expect(agentSdk.getConnectionStates().get(0)?.status).toBe('connected'));
+        await agentSdk.sendChat(thread.workflow, 'hello');
+
+        await vi.waitFor(() => expect(texts).toEqual(['echo: hello']));
+        expect(server.messages[0]).toMatchObject({ workflow: thread.workflow, participantId: thread.participantId });
+      } finally {
+        await agentSdk.disconnect();
+        vi.restoreAllMocks();
+      }
+    });
+  });
+});
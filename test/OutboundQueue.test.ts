@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { OutboundQueue, FileQueueStorage, MemoryQueueStorage, QueuedMessage } from '../core/OutboundQueue';
+
+describe('OutboundQueue', () => {
+  it('should flush queued messages in order and report status changes', async () => {
+    const queue = new OutboundQueue<{ text: string }>();
+    const statuses: string[] = [];
+    queue.on('change', (m: QueuedMessage) => statuses.push(`${m.requestId}:${m.status}`));
+
+    await queue.enqueue('a', 'Chat', { text: 'first' });
+    await queue.enqueue('b', 'Chat', { text: 'second' });
+    expect(queue.getMessages().map(m => m.status)).toEqual(['queued', 'queued']);
+
+    const sent: string[] = [];
+    await queue.flush(async m => { sent.push(m.payload.text); });
+
+    expect(sent).toEqual(['first', 'second']);
+    expect(queue.size).toBe(0);
+    expect(statuses).toEqual([
+      'a:queued', 'b:queued',
+      'a:sending', 'a:sent',
+      'b:sending', 'b:sent'
+    ]);
+  });
+
+  it('should deduplicate messages by requestId', async () => {
+    const queue = new OutboundQueue();
+    await queue.enqueue('same', 'Chat', { text: 'one' });
+    await queue.enqueue('same', 'Chat', { text: 'two' });
+
+    expect(queue.getMessages()).toHaveLength(1);
+    expect(queue.getMessages()[0].payload).toEqual({ text: 'one' });
+  });
+
+  it('should stop at the first failure and mark messages failed after maxAttempts', async () => {
+    const queue = new OutboundQueue({ maxAttempts: 2 });
+    await queue.enqueue('a', 'Chat', { text: 'first' });
+    await queue.enqueue('b', 'Chat', { text: 'second' });
+
+    const sender = vi.fn().mockRejectedValue(new Error('offline'));
+    await queue.flush(sender);
+    expect(sender).toHaveBeenCalledTimes(1);
+    expect(queue.getStatus('a')).toBe('queued');
+
+    await queue.flush(sender);
+    expect(queue.getStatus('a')).toBe('failed');
+    expect(queue.getMessages()[0].lastError).toBe('offline');
+
+    // The failed message no longer blocks the rest of the queue
+    sender.mockResolvedValue(undefined);
+    await queue.flush(sender);
+    expect(queue.getMessages().map(m => m.requestId)).toEqual(['a']);
+
+    expect(await queue.retry('a')).toBe(true);
+    await queue.flush(sender);
+    expect(queue.size).toBe(0);
+  });
+
+  it('should report pending messages until they are sent, ignoring failed ones', async () => {
+    const queue = new OutboundQueue<{ agent: string }>({ maxAttempts: 1 });
+    expect(await queue.hasPending()).toBe(false);
+
+    await queue.enqueue('a', 'Chat', { agent: 'support' });
+    expect(await queue.hasPending()).toBe(true);
+    expect(await queue.hasPending(m => m.payload.agent === 'sales')).toBe(false);
+
+    await queue.flush(() => Promise.reject(new Error('offline')));
+    expect(queue.getStatus('a')).toBe('failed');
+    expect(await queue.hasPending()).toBe(false);
+  });
+
+  it('should reload queued messages from storage', async () => {
+    const storage = new MemoryQueueStorage();
+    const first = new OutboundQueue({ storage });
+    await first.enqueue('a', 'Data', { value: 1 });
+
+    const second = new OutboundQueue({ storage });
+    await second.flush(async () => {}, m => m.messageType === 'Chat');
+    expect(second.getMessages().map(m => m.requestId)).toEqual(['a']);
+  });
+
+  it('should report storage failures to the logger', async () => {
+    const logger = vi.fn();
+    const storage = new MemoryQueueStorage();
+    vi.spyOn(storage, 'save').mockRejectedValue(new Error('quota exceeded'));
+    const queue = new OutboundQueue({ storage, logger });
+
+    await queue.enqueue('a', 'Chat', { text: 'kept in memory' });
+
+    expect(logger).toHaveBeenCalledWith('warn', 'Failed to persist outbound queue', expect.any(Error));
+    expect(queue.size).toBe(1);
+  });
+
+  describe('FileQueueStorage', () => {
+    let dir: string | undefined;
+
+    afterEach(() => {
+      if (dir) rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should persist the queue as a JSON file', async () => {
+      dir = mkdtempSync(join(tmpdir(), 'xians-queue-'));
+      const filePath = join(dir, 'queue.json');
+      const queue = new OutboundQueue({ storage: new FileQueueStorage(filePath) });
+
+      await queue.enqueue('a', 'Chat', { text: 'persisted' });
+
+      const stored = JSON.parse(readFileSync(filePath, 'utf8'));
+      expect(stored).toHaveLength(1);
+      expect(stored[0]).toMatchObject({ requestId: 'a', status: 'queued', payload: { text: 'persisted' } });
+
+      const reloaded = new OutboundQueue({ storage: new FileQueueStorage(filePath) });
+      await reloaded.flush(async () => {}, () => false);
+      expect(reloaded.getMessages()).toHaveLength(1);
+    });
+
+    it('should start empty when the file is missing or unreadable', async () => {
+      dir = mkdtempSync(join(tmpdir(), 'xians-queue-'));
+      const filePath = join(dir, 'queue.json');
+      const logger = vi.fn();
+
+      const missing = new OutboundQueue({ storage: new FileQueueStorage(filePath), logger });
+      await missing.flush(async () => {});
+      expect(missing.size).toBe(0);
+      expect(logger).not.toHaveBeenCalled();
+
+      writeFileSync(filePath, '{ not json', 'utf8');
+      const unreadable = new OutboundQueue({ storage: new FileQueueStorage(filePath), logger });
+      await unreadable.flush(async () => {});
+      expect(unreadable.size).toBe(0);
+      expect(logger).toHaveBeenCalledWith('warn', 'Ignoring unreadable outbound queue storage', expect.any(SyntaxError));
+    });
+  });
+});
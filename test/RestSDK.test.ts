@@ -0,0 +1,305 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import RestSDK from '../RestSDK';
+import { XiansServerError, XiansAbortError, XiansTimeoutError, XiansProtocolError } from '../core/errors';
+import { InMemoryTracer, SpanStatusCode } from '../core/tracing';
+
+const request = { workflow: 'support', type: 'Chat' as const, participantId: 'user-1', text: 'hi' };
+
+const createSDK = () => new RestSDK({
+  tenantId: 'tenant',
+  apiKey: 'sk-test',
+  serverUrl: 'http://localhost:5000',
+  logger: vi.fn(),
+  retryOnStatus: []
+});
+
+// Body that sends the given chunks, then stays open until cancelled
+const openStream = (chunks: string[], onCancel?: () => void) => {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+    },
+    cancel: onCancel
+  });
+};
+
+// Answers converseStream's two requests: the SSE stream gets `stream`, rest/send succeeds
+const conversationFetch = (stream: () => Response) => vi.fn(async (url: string, _init?: RequestInit) => {
+  if (String(url).includes('/api/user/sse/events')) {
+    return stream();
+  }
+  return new Response(JSON.stringify({}), { headers: { 'content-type': 'application/json' } });
+});
+
+const eventStream = (chunks: string[], onCancel?: () => void) => new Response(openStream(chunks, onCancel), {
+  headers: { 'content-type': 'text/event-stream' }
+});
+
+const chatEvent = (message: object, type = 'Chat') => `event: ${type}\ndata: ${JSON.stringify(message)}\n\n`;
+
+describe('RestSDK.converseStream', () => {
+  const streamed = { ...request, requestId: 'req-1' };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should send after the stream opens and yield the replies to its requestId until idle', async () => {
+    const fetchMock = conversationFetch(() => eventStream([
+      'event: connected\ndata: {}\n\n',
+      ': keep-alive\n\n',
+      chatEvent({ requestId: 'req-1', text: 'one' }),
+      chatEvent({ requestId: 'other', text: 'not ours' }),
+      chatEvent({ requestId: 'req-1', data: { step: 2 } }, 'Data')
+    ]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const messages = [];
+    for await (const message of createSDK().converseStream(streamed, { idleTimeout: 10 })) {
+      messages.push(message);
+    }
+
+    expect(messages).toEqual([{ requestId: 'req-1', text: 'one' }, { requestId: 'req-1', data: { step: 2 } }]);
+    const urls = fetchMock.mock.calls.map(([url]) => new URL(url));
+    expect(urls.map(url => url.pathname)).toEqual(['/api/user/sse/events', '/api/user/rest/send']);
+    expect(urls[0].searchParams.get('workflow')).toBe('support');
+    expect(urls[1].searchParams.get('requestId')).toBe('req-1');
+  });
+
+  it('should generate a requestId when none is given', async () => {
+    const fetchMock = conversationFetch(() => eventStream([]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const stream = createSDK().converseStream({ ...request, timeoutSeconds: 0.05 });
+
+    await expect(stream.next()).rejects.toBeInstanceOf(XiansTimeoutError);
+    expect(new URL(fetchMock.mock.calls[1][0]).searchParams.get('requestId')).toBeTruthy();
+  });
+
+  it('should fail fast when the server does not stream events', async () => {
+    const fetchMock = conversationFetch(() => new Response(JSON.stringify([]), {
+      headers: { 'content-type': 'application/json' }
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const stream = createSDK().converseStream(streamed);
+
+    await expect(stream.next()).rejects.toBeInstanceOf(XiansProtocolError);
+    // Nothing was sent
+    expect(fetchMock.mock.calls.every(([url]) => String(url).includes('/sse/events'))).toBe(true);
+  });
+
+  it('should close the stream when the loop exits early', async () => {
+    const onCancel = vi.fn();
+    let signal: AbortSignal | undefined;
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit) => {
+      if (!url.includes('/sse/events')) {
+        return new Response('{}', { headers: { 'content-type': 'application/json' } });
+      }
+      signal = init.signal ?? undefined;
+      return eventStream([chatEvent({ requestId: 'req-1', text: 'first' })], onCancel);
+    }));
+
+    for await (const message of createSDK().converseStream(streamed)) {
+      expect(message.text).toBe('first');
+      break;
+    }
+
+    expect(onCancel).toHaveBeenCalled();
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('should throw typed errors for failed responses', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ message: 'down' }), {
+      status: 503,
+      headers: { 'content-type': 'application/json' }
+    })));
+
+    const stream = createSDK().converseStream(streamed);
+    await expect(stream.next()).rejects.toBeInstanceOf(XiansServerError);
+  });
+});
+
+describe('RestSDK cancellation', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // fetch that only settles when its signal aborts, like a server that never answers
+  const hangingFetch = vi.fn((_url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+    init.signal!.addEventListener('abort', () => reject(init.signal!.reason));
+  }));
+
+  it('should reject with an abort error when the caller aborts', async () => {
+    vi.stubGlobal('fetch', hangingFetch);
+    const controller = new AbortController();
+
+    const pending = createSDK().converse(request, { signal: controller.signal });
+    await Promise.resolve();
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(XiansAbortError);
+  });
+
+  it('should still report the internal timeout as a failed response', async () => {
+    vi.stubGlobal('fetch', hangingFetch);
+    const sdk = new RestSDK({
+      tenantId: 'tenant',
+      apiKey: 'sk-test',
+      serverUrl: 'http://localhost:5000',
+      logger: vi.fn(),
+      requestTimeout: 20
+    });
+
+    const result = await sdk.getHistory({ workflow: 'support', participantId: 'user-1' }, { signal: new AbortController().signal });
+
+    expect(result.success).toBe(false);
+    expect(result.exception).toBeInstanceOf(XiansTimeoutError);
+  });
+
+  it('should remove its listeners from the caller\'s signal once a request settles', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify([]), {
+      headers: { 'content-type': 'application/json' }
+    })));
+    const { signal } = new AbortController();
+    const added = vi.spyOn(signal, 'addEventListener');
+    const removed = vi.spyOn(signal, 'removeEventListener');
+    const sdk = createSDK();
+
+    for (let i = 0; i < 3; i++) {
+      await sdk.getHistory({ workflow: 'support', participantId: 'user-1' }, { signal });
+    }
+
+    expect(added).toHaveBeenCalled();
+    expect(removed).toHaveBeenCalledTimes(added.mock.calls.length);
+  });
+});
+
+describe('RestSDK.iterateHistory', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should request pages until a short page comes back', async () => {
+    const history = (ids: number[]) => ids.map(i => ({
+      id: `m${i}`,
+      createdAt: new Date(Date.UTC(2024, 0, 1, 10, 59 - i)).toISOString(),
+      direction: 'Outgoing',
+      participantId: 'user-1',
+      workflowId: 'tenant:support',
+      workflowType: 'support'
+    }));
+    const fetchMock = vi.fn(async (url: string) => {
+      const page = Number(new URL(url).searchParams.get('page'));
+      const body = page === 1 ? history([0, 1]) : page === 2 ? history([2]) : [];
+      return new Response(JSON.stringify(body), { headers: { 'content-type': 'application/json' } });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const ids: string[] = [];
+    for await (const message of createSDK().iterateHistory({ workflow: 'support', participantId: 'user-1' }, { pageSize: 2 })) {
+      ids.push(message.id);
+    }
+
+    expect(ids).toEqual(['m0', 'm1', 'm2']);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(new URL(fetchMock.mock.calls[1][0]).searchParams.get('pageSize')).toBe('2');
+  });
+});
+
+describe('RestSDK tracing', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const createTracedSDK = (tracer: InMemoryTracer) => new RestSDK({
+    tenantId: 'tenant',
+    apiKey: 'sk-test',
+    serverUrl: 'http://localhost:5000',
+    logger: vi.fn(),
+    retryOnStatus: [],
+    tracer
+  });
+
+  it('should send the span as the traceparent header', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify([{ text: 'reply' }]), {
+      headers: { 'content-type': 'application/json' }
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+    const tracer = new InMemoryTracer();
+
+    await createTracedSDK(tracer).converse(request);
+
+    const [span] = tracer.getFinishedSpans();
+    expect(span.name).toBe('xians.rest.converse');
+    expect(span.attributes).toMatchObject({
+      'xians.workflow': 'support',
+      'xians.participant_id': 'user-1',
+      'http.response.status_code': 200,
+      'xians.message_count': 1
+    });
+    const headers = (fetchMock.mock.calls[0] as any[])[1].headers;
+    expect(headers.traceparent).toBe(`00-${span.traceId}-${span.spanId}-01`);
+  });
+
+  it('should mark the span failed for an unsuccessful response', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ message: 'down' }), {
+      status: 503,
+      headers: { 'content-type': 'application/json' }
+    })));
+    const tracer = new InMemoryTracer();
+
+    const result = await createTracedSDK(tracer).send(request);
+
+    expect(result.success).toBe(false);
+    const [span] = tracer.getFinishedSpans();
+    expect(span.status).toEqual({ code: SpanStatusCode.ERROR, message: 'down' });
+    expect(span.exceptions[0]).toBeInstanceOf(XiansServerError);
+  });
+
+  it('should end the converseStream span when the loop exits early', async () => {
+    vi.stubGlobal('fetch', conversationFetch(() => eventStream([chatEvent({ requestId: 'req-1', text: 'first' })])));
+    const tracer = new InMemoryTracer();
+
+    for await (const _message of createTracedSDK(tracer).converseStream({ ...request, requestId: 'req-1' })) {
+      break;
+    }
+
+    const [span] = tracer.getFinishedSpans();
+    expect(span.name).toBe('xians.rest.converse_stream');
+    expect(span.attributes['xians.message_count']).toBe(1);
+    expect(span.status.code).toBe(SpanStatusCode.UNSET);
+  });
+});
+
+describe('RestSDK middleware', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should send the request returned by outbound middleware', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify([]), { headers: { 'content-type': 'application/json' } }));
+    vi.stubGlobal('fetch', fetchMock);
+    const sdk = createSDK();
+    sdk.use({ outbound: (req, context) => ({ ...req, text: `${context.operation}: ${req.text}` }) });
+
+    await sdk.converse(request);
+
+    const body = JSON.parse((fetchMock.mock.calls[0] as any[])[1].body);
+    expect(body.text).toBe('converse: hi');
+  });
+
+  it('should report dropped messages as failed responses without a request', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    const sdk = createSDK();
+    sdk.use({ outbound: () => null });
+
+    const result = await sdk.send(request);
+
+    expect(result.success).toBe(false);
+    expect(result.exception?.code).toBe('MESSAGE_DROPPED');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  FixedRetryPolicy,
+  ExponentialRetryPolicy,
+  JitterRetryPolicy,
+  CustomRetryPolicy,
+  parseRetryAfter
+} from '../core/RetryPolicy';
+import RestSDK from '../RestSDK';
+
+describe('RetryPolicy', () => {
+  it('should return a fixed delay until attempts run out', () => {
+    const policy = new FixedRetryPolicy(500, 2);
+    expect([1, 2, 3].map(a => policy.nextDelay(a))).toEqual([500, 500, null]);
+  });
+
+  it('should grow exponentially up to the maximum delay', () => {
+    const policy = new ExponentialRetryPolicy({ initialDelay: 100, maxDelay: 500, maxAttempts: 5 });
+    expect([1, 2, 3, 4, 5, 6].map(a => policy.nextDelay(a))).toEqual([100, 200, 400, 500, 500, null]);
+  });
+
+  it('should keep jittered delays within the exponential bound', () => {
+    const random = vi.spyOn(Math, 'random');
+    try {
+      const policy = new JitterRetryPolicy({ initialDelay: 1000, jitter: 0.5 });
+      random.mockReturnValue(0);
+      expect(policy.nextDelay(2)).toBe(2000);
+      random.mockReturnValue(1);
+      expect(policy.nextDelay(2)).toBe(1000);
+    } finally {
+      random.mockRestore();
+    }
+  });
+
+  it('should use a delay list or callback', () => {
+    const list = new CustomRetryPolicy([0, 2000]);
+    expect([1, 2, 3].map(a => list.nextDelay(a))).toEqual([0, 2000, null]);
+
+    const callback = new CustomRetryPolicy((attempt, error) => (error === 'fatal' ? null : attempt * 10));
+    expect(callback.nextDelay(3)).toBe(30);
+    expect(callback.nextDelay(1, 'fatal')).toBeNull();
+  });
+
+  it('should parse Retry-After seconds and dates', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('soon')).toBeNull();
+    expect(parseRetryAfter(null)).toBeNull();
+  });
+});
+
+describe('RestSDK retries', () => {
+  const fetchMock = vi.fn();
+
+  const jsonResponse = (status: number, body: any, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'content-type': 'application/json', ...headers }
+    });
+
+  const createSDK = (options = {}) => new RestSDK({
+    tenantId: 'tenant',
+    apiKey: 'sk-test',
+    serverUrl: 'http://localhost:5000',
+    logger: vi.fn(),
+    retryPolicy: new FixedRetryPolicy(1, 2),
+    ...options
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  it('should retry retryable statuses and honour Retry-After', async () => {
+    vi.stubGlobal('fetch', fetchMock);
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(503, { message: 'busy' }, { 'retry-after': '0' }))
+      .mockResolvedValueOnce(jsonResponse(200, []));
+
+    const result = await createSDK().getHistory({ workflow: 'support', participantId: 'user-1' });
+
+    expect(result.success).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up when the policy runs out of attempts', async () => {
+    vi.stubGlobal('fetch', fetchMock);
+    fetchMock.mockImplementation(async () => jsonResponse(429, { message: 'slow down' }));
+
+    const result = await createSDK().getHistory({ workflow: 'support', participantId: 'user-1' });
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(429);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry without a retry policy', async () => {
+    vi.stubGlobal('fetch', fetchMock);
+    fetchMock.mockImplementation(async () => jsonResponse(503, { message: 'busy' }));
+
+    const result = await createSDK({ retryPolicy: undefined }).getHistory({ workflow: 'support', participantId: 'user-1' });
+
+    expect(result.statusCode).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry sends on 429 only', async () => {
+    vi.stubGlobal('fetch', fetchMock);
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(429, { message: 'slow down' }))
+      .mockResolvedValueOnce(jsonResponse(502, { message: 'bad gateway' }));
+    const request = { workflow: 'support', participantId: 'user-1', type: 'Chat', text: 'hi' };
+
+    const result = await createSDK().send(request);
+
+    expect(result.statusCode).toBe(502);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should cap the wait taken from Retry-After', async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal('fetch', fetchMock);
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(503, { message: 'busy' }, { 'retry-after': '3600' }))
+      .mockResolvedValueOnce(jsonResponse(200, []));
+
+    try {
+      const pending = createSDK({ maxRetryAfter: 1000 }).getHistory({ workflow: 'support', participantId: 'user-1' });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect((await pending).success).toBe(true);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should not retry statuses outside retryOnStatus', async () => {
+    vi.stubGlobal('fetch', fetchMock);
+    fetchMock.mockImplementation(async () => jsonResponse(500, { message: 'boom' }));
+
+    const result = await createSDK().getHistory({ workflow: 'support', participantId: 'user-1' });
+
+    expect(result.statusCode).toBe(500);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,659 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import SocketSDK from '../SocketSDK';
+import { Message, MessageType } from '../types';
+import { XiansTimeoutError, XiansAbortError, XiansAuthError } from '../core/errors';
+import { InMemoryTracer, SpanKind, SpanStatusCode } from '../core/tracing';
+import { FixedRetryPolicy } from '../core/RetryPolicy';
+
+// Minimal stand-in for a SignalR HubConnection so SocketSDK can be exercised without a server
+class FakeHubConnection {
+  static instances: FakeHubConnection[] = [];
+
+  state = 'Disconnected';
+  reconnectPolicy: { nextRetryDelayInMilliseconds(context: any): number | null } | null = null;
+  invocations: { method: string; args: any[] }[] = [];
+  invokeHandler: (method: string, ...args: any[]) => any = () => undefined;
+  private handlers = new Map<string, ((...args: any[]) => void)[]>();
+  private closeHandlers: ((error?: Error) => void)[] = [];
+  private reconnectingHandlers: ((error?: Error) => void)[] = [];
+  private reconnectedHandlers: ((connectionId?: string) => void)[] = [];
+
+  constructor() {
+    FakeHubConnection.instances.push(this);
+  }
+
+  on(method: string, callback: (...args: any[]) => void) {
+    const list = this.handlers.get(method) || [];
+    list.push(callback);
+    this.handlers.set(method, list);
+  }
+
+  off(method: string) {
+    this.handlers.delete(method);
+  }
+
+  onclose(callback: (error?: Error) => void) { this.closeHandlers.push(callback); }
+  onreconnecting(callback: (error?: Error) => void) { this.reconnectingHandlers.push(callback); }
+  onreconnected(callback: (connectionId?: string) => void) { this.reconnectedHandlers.push(callback); }
+
+  async start() { this.state = 'Connected'; }
+  async stop() { this.state = 'Disconnected'; }
+
+  async invoke(method: string, ...args: any[]) {
+    this.invocations.push({ method, args });
+    return this.invokeHandler(method, ...args);
+  }
+
+  emit(method: string, ...args: any[]) {
+    (this.handlers.get(method) || []).forEach(cb => cb(...args));
+  }
+
+  simulateClose(error?: Error) {
+    this.state = 'Disconnected';
+    this.closeHandlers.forEach(cb => cb(error));
+  }
+
+  simulateReconnecting(error?: Error) {
+    this.state = 'Reconnecting';
+    this.reconnectingHandlers.forEach(cb => cb(error));
+  }
+
+  simulateReconnected(connectionId = 'reconnected-id') {
+    this.state = 'Connected';
+    this.reconnectedHandlers.forEach(cb => cb(connectionId));
+  }
+}
+
+vi.mock('@microsoft/signalr', () => {
+  class HubConnectionBuilder {
+    private reconnectPolicy: FakeHubConnection['reconnectPolicy'] = null;
+    withUrl() { return this; }
+    withAutomaticReconnect(policy: FakeHubConnection['reconnectPolicy']) {
+      this.reconnectPolicy = policy;
+      return this;
+    }
+    configureLogging() { return this; }
+    build() {
+      const connection = new FakeHubConnection();
+      connection.reconnectPolicy = this.reconnectPolicy;
+      return connection;
+    }
+  }
+  return {
+    HubConnectionBuilder,
+    HttpTransportType: { WebSockets: 1 },
+    LogLevel: { Information: 2 }
+  };
+});
+
+const agentMessage = (overrides: Partial<Message> = {}): Message => ({
+  id: `msg-${Math.random().toString(36).slice(2)}`,
+  createdAt: new Date().toISOString(),
+  direction: 'Outgoing',
+  messageType: 'Chat',
+  text: 'reply',
+  participantId: 'user-1',
+  workflowId: 'tenant:support',
+  workflowType: 'support',
+  ...overrides
+});
+
+describe('SocketSDK', () => {
+  let socketSDK: SocketSDK;
+  let connection: FakeHubConnection;
+
+  beforeEach(async () => {
+    FakeHubConnection.instances = [];
+    socketSDK = new SocketSDK({
+      tenantId: 'tenant',
+      apiKey: 'sk-test',
+      serverUrl: 'http://localhost:5000',
+      logger: vi.fn()
+    });
+    await socketSDK.connect();
+    connection = FakeHubConnection.instances[0];
+  });
+
+  afterEach(async () => {
+    await socketSDK.dispose();
+  });
+
+  describe('request()', () => {
+    const chatRequest = {
+      participantId: 'user-1',
+      workflow: 'support',
+      type: 'Chat',
+      text: 'hello'
+    };
+
+    it('should reject a second request with a pending requestId', async () => {
+      const pending = socketSDK.request({ ...chatRequest, requestId: 'req-dup' }, MessageType.Chat);
+
+      await expect(socketSDK.request({ ...chatRequest, requestId: 'req-dup' }, MessageType.Chat))
+        .rejects.toMatchObject({ name: 'XiansError', code: 'DUPLICATE_REQUEST' });
+
+      connection.emit('ReceiveChat', agentMessage({ requestId: 'req-dup' }));
+      await pending;
+    });
+
+    it('should resolve with the first reply carrying the same requestId', async () => {
+      const onReceiveChat = vi.fn();
+      socketSDK.updateEventHandlers({ onReceiveChat });
+
+      const pending = socketSDK.request({ ...chatRequest, requestId: 'req-1' }, MessageType.Chat);
+      await Promise.resolve();
+
+      connection.emit('ReceiveChat', agentMessage({ requestId: 'other' }));
+      connection.emit('ReceiveChat', agentMessage({ requestId: 'req-1', text: 'answer' }));
+
+      const replies = await pending;
+      expect(replies.map(m => m.text)).toEqual(['answer']);
+      expect(onReceiveChat).toHaveBeenCalledTimes(2);
+      expect(connection.invocations[0].args[0].requestId).toBe('req-1');
+    });
+
+    it('should generate a requestId when none is given', async () => {
+      const pending = socketSDK.request(chatRequest);
+      await Promise.resolve();
+
+      const requestId = connection.invocations[0].args[0].requestId;
+      expect(requestId).toBeTruthy();
+
+      connection.emit('ReceiveChat', agentMessage({ requestId }));
+      await expect(pending).resolves.toHaveLength(1);
+    });
+
+    it('should collect replies until idle', async () => {
+      vi.useFakeTimers();
+      try {
+        const pending = socketSDK.request(
+          { ...chatRequest, requestId: 'req-2' },
+          MessageType.Chat,
+          { collectUntilIdle: true, idleTimeout: 100 }
+        );
+        await vi.advanceTimersByTimeAsync(0);
+
+        connection.emit('ReceiveChat', agentMessage({ requestId: 'req-2', text: 'one' }));
+        await vi.advanceTimersByTimeAsync(50);
+        connection.emit('ReceiveData', agentMessage({ requestId: 'req-2', messageType: 'Data', text: 'two' }));
+        await vi.advanceTimersByTimeAsync(100);
+
+        const replies = await pending;
+        expect(replies.map(m => m.text)).toEqual(['one', 'two']);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should reject when no reply arrives before the timeout', async () => {
+      vi.useFakeTimers();
+      try {
+        const pending = socketSDK.request(chatRequest, MessageType.Chat, { timeout: 500 });
+        const assertion = expect(pending).rejects.toBeInstanceOf(XiansTimeoutError);
+        await vi.advanceTimersByTimeAsync(500);
+        await assertion;
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should reject when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const pending = socketSDK.request(chatRequest, MessageType.Chat, { signal: controller.signal });
+      await Promise.resolve();
+
+      controller.abort();
+      await expect(pending).rejects.toThrow('aborted');
+      await expect(pending).rejects.toBeInstanceOf(XiansAbortError);
+    });
+  });
+
+  describe('subscriptions', () => {
+    it('should track subscriptions and join their groups again after a reconnect', async () => {
+      await socketSDK.subscribeToAgent('support', 'user-1');
+      await socketSDK.subscribeToAgent('support', 'user-1', { scope: 'billing' });
+      await socketSDK.subscribeToAgent('sales', 'user-1');
+      expect(socketSDK.getSubscriptions()).toHaveLength(3);
+
+      connection.invocations = [];
+      connection.simulateReconnecting();
+      connection.simulateReconnected();
+
+      expect(connection.invocations.map(i => i.method)).toEqual(['SubscribeToAgent', 'SubscribeToAgent']);
+      expect(connection.invocations.map(i => i.args[0])).toEqual(['support', 'sales']);
+    });
+
+    it('should route messages to the matching subscription handlers', async () => {
+      const support = vi.fn();
+      const billing = vi.fn();
+      const sales = vi.fn();
+      await socketSDK.subscribeToAgent('support', 'user-1', { onReceiveChat: support });
+      await socketSDK.subscribeToAgent('support', 'user-1', { scope: 'billing', onReceiveChat: billing });
+      await socketSDK.subscribeToAgent('sales', 'user-1', { onReceiveChat: sales });
+
+      connection.emit('ReceiveChat', agentMessage());
+      connection.emit('ReceiveChat', agentMessage({ scope: 'billing' }));
+
+      expect(support).toHaveBeenCalledTimes(2);
+      expect(billing).toHaveBeenCalledTimes(1);
+      expect(sales).not.toHaveBeenCalled();
+    });
+
+    it('should leave the group only when no scope is left', async () => {
+      await socketSDK.subscribeToAgent('support', 'user-1');
+      await socketSDK.subscribeToAgent('support', 'user-1', { scope: 'billing' });
+      connection.invocations = [];
+
+      await socketSDK.unsubscribeFromAgent('support', 'user-1', { scope: 'billing' });
+      expect(connection.invocations).toHaveLength(0);
+
+      await socketSDK.unsubscribeFromAgent('support', 'user-1');
+      expect(connection.invocations.map(i => i.method)).toEqual(['UnsubscribeFromAgent']);
+      expect(socketSDK.getSubscriptions()).toEqual([]);
+    });
+
+    it('should drop a subscription while disconnected without rejoining it later', async () => {
+      await socketSDK.subscribeToAgent('support', 'user-1');
+      await socketSDK.subscribeToAgent('sales', 'user-1');
+      connection.simulateReconnecting();
+      connection.invocations = [];
+
+      await expect(socketSDK.unsubscribeFromAgent('support', 'user-1')).resolves.toBeUndefined();
+      expect(connection.invocations).toHaveLength(0);
+      expect(socketSDK.getSubscriptions().map(s => s.workflow)).toEqual(['sales']);
+
+      connection.simulateReconnected();
+      expect(connection.invocations.map(i => i.args[0])).toEqual(['sales']);
+    });
+  });
+
+  describe('events', () => {
+    it('should call every listener next to the eventHandlers callback', async () => {
+      const onReceiveChat = vi.fn();
+      const first = vi.fn();
+      const second = vi.fn();
+      socketSDK.updateEventHandlers({ onReceiveChat });
+      socketSDK.on('chat', first);
+      const dispose = socketSDK.on('chat', second);
+
+      connection.emit('ReceiveChat', agentMessage({ text: 'one' }));
+      dispose();
+      connection.emit('ReceiveChat', agentMessage({ text: 'two' }));
+
+      expect(onReceiveChat).toHaveBeenCalledTimes(2);
+      expect(first.mock.calls.map(([m]) => m.text)).toEqual(['one', 'two']);
+      expect(second.mock.calls.map(([m]) => m.text)).toEqual(['one']);
+    });
+
+    it('should reject pending waiters on dispose', async () => {
+      const handoff = socketSDK.once('handoff');
+      const reply = socketSDK.waitFor('chat', message => message.requestId === 'never');
+
+      await socketSDK.dispose();
+
+      await expect(handoff).rejects.toMatchObject({ code: 'DISPOSED' });
+      await expect(reply).rejects.toMatchObject({ code: 'DISPOSED', message: 'SDK has been disposed' });
+    });
+
+    it('should wait for a matching event', async () => {
+      const handoff = socketSDK.once('handoff');
+      const reply = socketSDK.waitFor('chat', message => message.requestId === 'req-2', 1000);
+
+      connection.emit('ReceiveChat', agentMessage({ requestId: 'req-1' }));
+      connection.emit('ReceiveData', agentMessage({ messageType: 'Handoff', text: 'to billing' }));
+      connection.emit('ReceiveChat', agentMessage({ requestId: 'req-2', text: 'answer' }));
+
+      expect((await handoff).text).toBe('to billing');
+      expect((await reply).text).toBe('answer');
+    });
+  });
+
+  describe('reconnect', () => {
+    const retryContext = (previousRetryCount: number) => ({ previousRetryCount, elapsedMilliseconds: 0, retryReason: new Error('lost') });
+
+    it('should let SignalR retry at reconnectDelay without giving up by default', () => {
+      expect(connection.reconnectPolicy!.nextRetryDelayInMilliseconds(retryContext(0))).toBe(5000);
+      expect(connection.reconnectPolicy!.nextRetryDelayInMilliseconds(retryContext(50))).toBe(5000);
+    });
+
+    it('should use the retry policy when one is set', async () => {
+      const custom = new SocketSDK({
+        tenantId: 'tenant',
+        apiKey: 'sk-test',
+        serverUrl: 'http://localhost:5000',
+        logger: vi.fn(),
+        retryPolicy: new FixedRetryPolicy(100, 2)
+      });
+      await custom.connect();
+      const customConnection = FakeHubConnection.instances[FakeHubConnection.instances.length - 1];
+
+      expect(customConnection.reconnectPolicy!.nextRetryDelayInMilliseconds(retryContext(1))).toBe(100);
+      expect(customConnection.reconnectPolicy!.nextRetryDelayInMilliseconds(retryContext(2))).toBeNull();
+      await custom.dispose();
+    });
+  });
+
+  describe('token refresh', () => {
+    const rejected = (statusCode: number) => Object.assign(new Error(`Status ${statusCode}`), { statusCode });
+
+    const createJwtSDK = (getJwtToken: () => string) => new SocketSDK({
+      tenantId: 'tenant',
+      getJwtToken,
+      serverUrl: 'http://localhost:5000',
+      logger: vi.fn()
+    });
+
+    it('should refresh the token once and retry when the hub rejects it with 401', async () => {
+      const getJwtToken = vi.fn(() => 'token');
+      const jwtSDK = createJwtSDK(getJwtToken);
+      const start = vi.spyOn(FakeHubConnection.prototype, 'start').mockRejectedValueOnce(rejected(401));
+
+      await jwtSDK.connect();
+
+      expect(start).toHaveBeenCalledTimes(2);
+      expect(getJwtToken).toHaveBeenCalledTimes(1);
+      expect(jwtSDK.isConnected()).toBe(true);
+      start.mockRestore();
+      await jwtSDK.dispose();
+    });
+
+    it('should not retry other rejections', async () => {
+      const getJwtToken = vi.fn(() => 'token');
+      const jwtSDK = createJwtSDK(getJwtToken);
+      const start = vi.spyOn(FakeHubConnection.prototype, 'start').mockRejectedValueOnce(rejected(403));
+
+      await expect(jwtSDK.connect()).rejects.toBeInstanceOf(XiansAuthError);
+
+      expect(start).toHaveBeenCalledTimes(1);
+      expect(getJwtToken).not.toHaveBeenCalled();
+      start.mockRestore();
+      await jwtSDK.dispose();
+    });
+  });
+
+  describe('metrics', () => {
+    it('should record hub calls, first replies and reconnects', async () => {
+      await socketSDK.subscribeToAgent('support', 'user-1');
+      await socketSDK.sendInboundMessage({ participantId: 'user-1', workflow: 'support', type: 'Chat', text: 'hi', requestId: 'req-1' }, MessageType.Chat);
+      connection.emit('ReceiveChat', agentMessage({ requestId: 'req-1' }));
+      connection.simulateReconnecting();
+      connection.simulateReconnected();
+      // The resubscribe call finishes asynchronously
+      await vi.waitFor(() => expect(socketSDK.getMetrics().invokes.SubscribeToAgent.count).toBe(2));
+
+      const metrics = socketSDK.getMetrics();
+      expect(metrics.invokes.SendInboundMessage.count).toBe(1);
+      expect(metrics.firstReply.count).toBe(1);
+      expect(metrics.reconnects.count).toBe(1);
+      expect(metrics.throughput).toMatchObject({ sent: 1, received: 1 });
+    });
+  });
+
+  describe('tracing', () => {
+    it('should trace connects, sends and reconnects and pass the send span to the hub', async () => {
+      const tracer = new InMemoryTracer();
+      const tracedSDK = new SocketSDK({
+        tenantId: 'tenant',
+        apiKey: 'sk-test',
+        serverUrl: 'http://localhost:5000',
+        logger: vi.fn(),
+        tracer
+      });
+      await tracedSDK.connect();
+      const tracedConnection = FakeHubConnection.instances[1];
+
+      await tracedSDK.sendInboundMessage({ participantId: 'user-1', workflow: 'support', type: 'Chat', text: 'hi', requestId: 'req-1' }, MessageType.Chat);
+      tracedConnection.simulateReconnecting(new Error('network down'));
+      tracedConnection.simulateReconnected();
+      await tracedSDK.dispose();
+
+      const spans = tracer.getFinishedSpans();
+      expect(spans.map(span => span.name)).toEqual(['xians.socket.connect', 'xians.socket.send', 'xians.socket.reconnect']);
+
+      const send = spans[1];
+      expect(send.kind).toBe(SpanKind.PRODUCER);
+      expect(send.attributes).toMatchObject({ 'xians.workflow': 'support', 'xians.request_id': 'req-1' });
+      const sent = tracedConnection.invocations.find(call => call.method === 'SendInboundMessage')!;
+      expect(sent.args[0].traceparent).toBe(`00-${send.traceId}-${send.spanId}-01`);
+
+      expect(spans[2].status.code).toBe(SpanStatusCode.OK);
+    });
+
+    it('should not add a traceparent without a tracer', async () => {
+      await socketSDK.sendInboundMessage({ participantId: 'user-1', workflow: 'support', type: 'Chat', text: 'hi' }, MessageType.Chat);
+
+      expect(connection.invocations[0].args[0]).not.toHaveProperty('traceparent');
+    });
+  });
+
+  describe('middleware', () => {
+    it('should send the request returned by outbound middleware', async () => {
+      socketSDK.use({ outbound: async request => ({ ...request, data: { locale: 'en' } }) });
+
+      await socketSDK.sendInboundMessage({ participantId: 'user-1', workflow: 'support', type: 'Chat', text: 'hi' }, MessageType.Chat);
+
+      expect(connection.invocations[0].args[0]).toMatchObject({ text: 'hi', data: { locale: 'en' } });
+    });
+
+    it('should reject sends that outbound middleware drops', async () => {
+      socketSDK.use({ outbound: () => null });
+
+      await expect(socketSDK.sendInboundMessage({ participantId: 'user-1', workflow: 'support', type: 'Chat', text: 'hi' }, MessageType.Chat))
+        .rejects.toMatchObject({ code: 'MESSAGE_DROPPED' });
+      expect(connection.invocations).toHaveLength(0);
+    });
+
+    it('should pass agent messages through inbound middleware before the handlers', async () => {
+      const onChat = vi.fn();
+      socketSDK.on('chat', onChat);
+      socketSDK.use({
+        inbound: async (message, context) => context.messageType === 'Chat' && message.text === 'secret'
+          ? null
+          : { ...message, text: `${message.text}!` }
+      });
+
+      connection.emit('ReceiveChat', agentMessage({ text: 'secret' }));
+      connection.emit('ReceiveChat', agentMessage({ text: 'hello' }));
+
+      await vi.waitFor(() => expect(onChat).toHaveBeenCalledTimes(1));
+      expect(onChat.mock.calls[0][0].text).toBe('hello!');
+    });
+  });
+
+  describe('getThreadHistory()', () => {
+    const historyFor = (workflow: string) => [agentMessage({ workflowId: `tenant:${workflow}`, workflowType: workflow })];
+
+    it('should resolve concurrent requests with their own pages', async () => {
+      connection.invokeHandler = (method, workflow) => {
+        if (method === 'GetThreadHistory') {
+          setTimeout(() => connection.emit('ThreadHistory', historyFor(workflow)));
+        }
+      };
+
+      const [support, sales] = await Promise.all([
+        socketSDK.getThreadHistory('support', 'user-1'),
+        socketSDK.getThreadHistory('sales', 'user-1')
+      ]);
+
+      expect(support[0].workflowType).toBe('support');
+      expect(sales[0].workflowType).toBe('sales');
+    });
+
+    it('should take an empty page only while its own hub call is running', async () => {
+      // The server sends the page before it completes the call
+      connection.invokeHandler = method => {
+        if (method === 'GetThreadHistory') connection.emit('ThreadHistory', []);
+      };
+      await expect(socketSDK.getThreadHistory('support', 'user-1')).resolves.toEqual([]);
+
+      connection.invokeHandler = () => undefined;
+      const pending = socketSDK.getThreadHistory('support', 'user-1');
+      await vi.waitFor(() => expect(connection.invocations).toHaveLength(2));
+      await Promise.resolve();
+
+      // An unrelated empty push after the call has completed is not this request's page
+      connection.emit('ThreadHistory', []);
+      connection.emit('ThreadHistory', historyFor('support'));
+      await expect(pending).resolves.toHaveLength(1);
+    });
+
+    it('should leave pages of another scope alone', async () => {
+      const pending = socketSDK.getThreadHistory('support', 'user-1', 0, 50, 'billing');
+      await vi.waitFor(() => expect(connection.invocations).toHaveLength(1));
+
+      connection.emit('ThreadHistory', [agentMessage({ scope: 'orders' })]);
+      connection.emit('ThreadHistory', [agentMessage({ scope: 'billing', text: 'invoice' })]);
+
+      expect((await pending).map(m => m.text)).toEqual(['invoice']);
+    });
+
+    it('should reject when the connection closes before the history arrives', async () => {
+      const pending = socketSDK.getThreadHistory('support', 'user-1', 0, 50, undefined, { timeout: 60000 });
+      await Promise.resolve();
+
+      connection.simulateClose();
+      await expect(pending).rejects.toMatchObject({ code: 'NOT_CONNECTED' });
+    });
+  });
+
+  describe('iterateHistory()', () => {
+    // p0 is the newest message
+    const page = (ids: string[], overrides: Partial<Message> = {}) => ids.map(id => agentMessage({
+      id,
+      createdAt: new Date(Date.UTC(2024, 0, 1, 10, 59 - Number(id.slice(1)))).toISOString(),
+      ...overrides
+    }));
+
+    it('should match each ThreadHistory event to its page request', async () => {
+      const onThreadHistory = vi.fn();
+      socketSDK.updateEventHandlers({ onThreadHistory });
+      const pages: Record<number, Message[]> = { 0: page(['p0', 'p1']), 1: page(['p2']) };
+      connection.invokeHandler = (method, _workflow, _participantId, pageNumber) => {
+        if (method === 'GetThreadHistory') {
+          // An unrelated thread's history is pushed first and must be ignored
+          setTimeout(() => {
+            connection.emit('ThreadHistory', page(['x0'], { participantId: 'someone-else' }));
+            connection.emit('ThreadHistory', pages[pageNumber] || []);
+          });
+        }
+      };
+
+      const ids: string[] = [];
+      for await (const message of socketSDK.iterateHistory('support', 'user-1', undefined, { pageSize: 2 })) {
+        ids.push(message.id);
+      }
+
+      expect(ids).toEqual(['p0', 'p1', 'p2']);
+      expect(connection.invocations.map(i => i.args[2])).toEqual([0, 1]);
+      expect(onThreadHistory).toHaveBeenCalledTimes(4);
+    });
+
+    it('should time out when no ThreadHistory event arrives', async () => {
+      vi.useFakeTimers();
+      try {
+        const iterator = socketSDK.iterateHistory('support', 'user-1');
+        const next = iterator.next();
+        const assertion = expect(next).rejects.toBeInstanceOf(XiansTimeoutError);
+        await vi.advanceTimersByTimeAsync(30000);
+        await assertion;
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should stop waiting for a hub call when the signal is aborted', async () => {
+      connection.invokeHandler = () => new Promise(() => {});
+      const controller = new AbortController();
+
+      const pending = socketSDK.getThreadHistory('support', 'user-1', 0, 50, undefined, { signal: controller.signal });
+      await vi.waitFor(() => expect(connection.invocations[0]?.method).toBe('GetThreadHistory'));
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(XiansAbortError);
+    });
+
+    it('should not invoke the hub when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(socketSDK.subscribeToAgent('support', 'user-1', { signal: controller.signal }))
+        .rejects.toMatchObject({ code: 'ABORTED' });
+      expect(connection.invocations).toHaveLength(0);
+    });
+  });
+
+  describe('offline queue', () => {
+    let queuedSDK: SocketSDK;
+    let queuedConnection: FakeHubConnection;
+
+    beforeEach(async () => {
+      queuedSDK = new SocketSDK({
+        tenantId: 'tenant',
+        apiKey: 'sk-test',
+        serverUrl: 'http://localhost:5000',
+        logger: vi.fn(),
+        offlineQueue: true
+      });
+      await queuedSDK.connect();
+      queuedConnection = FakeHubConnection.instances[FakeHubConnection.instances.length - 1];
+    });
+
+    afterEach(async () => {
+      await queuedSDK.dispose();
+    });
+
+    it('should queue messages while reconnecting and flush them in order afterwards', async () => {
+      const onQueueChanged = vi.fn();
+      queuedSDK.updateEventHandlers({ onQueueChanged });
+      queuedConnection.simulateReconnecting();
+
+      await queuedSDK.sendInboundMessage({ participantId: 'user-1', workflow: 'support', type: 'Chat', text: 'one' }, MessageType.Chat);
+      await queuedSDK.sendInboundMessage({ participantId: 'user-1', workflow: 'support', type: 'Chat', text: 'two', requestId: 'req-2' }, MessageType.Chat);
+      await queuedSDK.sendInboundMessage({ participantId: 'user-1', workflow: 'support', type: 'Chat', text: 'two', requestId: 'req-2' }, MessageType.Chat);
+
+      expect(queuedConnection.invocations).toHaveLength(0);
+      expect(queuedSDK.getQueuedMessages().map(m => m.status)).toEqual(['queued', 'queued']);
+
+      queuedConnection.simulateReconnected();
+      await vi.waitFor(() => expect(queuedSDK.getQueuedMessages()).toHaveLength(0));
+
+      const sent = queuedConnection.invocations.filter(i => i.method === 'SendInboundMessage');
+      expect(sent.map(i => i.args[0].text)).toEqual(['one', 'two']);
+      expect(sent[1].args[0].requestId).toBe('req-2');
+      expect(onQueueChanged).toHaveBeenCalledWith(expect.objectContaining({ requestId: 'req-2', status: 'sent' }));
+    });
+
+    it('should queue new messages behind a flush that is still running', async () => {
+      const chat = (text: string) => ({ participantId: 'user-1', workflow: 'support', type: 'Chat', text });
+      queuedConnection.simulateReconnecting();
+      await queuedSDK.sendInboundMessage(chat('queued'), MessageType.Chat);
+
+      // Hold the first replayed send so the flush is still running when the next message comes in
+      let release!: () => void;
+      queuedConnection.invokeHandler = () => new Promise<void>(resolve => { release = resolve; });
+      queuedConnection.simulateReconnected();
+      await vi.waitFor(() => expect(queuedConnection.invocations).toHaveLength(1));
+      queuedConnection.invokeHandler = () => undefined;
+
+      await queuedSDK.sendInboundMessage(chat('new'), MessageType.Chat);
+      expect(queuedConnection.invocations).toHaveLength(1);
+
+      release();
+      await vi.waitFor(() => expect(queuedSDK.getQueuedMessages()).toHaveLength(0));
+      expect(queuedConnection.invocations.map(i => i.args[0].text)).toEqual(['queued', 'new']);
+
+      // Once drained, messages go straight to the hub again
+      await queuedSDK.sendInboundMessage(chat('direct'), MessageType.Chat);
+      expect(queuedConnection.invocations.map(i => i.args[0].text)).toEqual(['queued', 'new', 'direct']);
+    });
+
+    it('should still throw when the queue is disabled', async () => {
+      connection.simulateReconnecting();
+      await expect(
+        socketSDK.sendInboundMessage({ participantId: 'user-1', workflow: 'support', type: 'Chat', text: 'x' }, MessageType.Chat)
+      ).rejects.toMatchObject({ message: 'Connection is not established', code: 'NOT_CONNECTED' });
+    });
+  });
+});
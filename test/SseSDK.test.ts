@@ -0,0 +1,374 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+// Stand-in EventSource installed before SseSDK is loaded so the SDK picks it up
+const { FakeEventSource } = vi.hoisted(() => {
+  class FakeEventSource {
+    static instances: FakeEventSource[] = [];
+
+    url: string;
+    init: any;
+    closed = false;
+    onopen: (() => void) | null = null;
+    onmessage: ((event: any) => void) | null = null;
+    onerror: (() => void) | null = null;
+    private listeners = new Map<string, ((event: any) => void)[]>();
+
+    constructor(url: string, init?: any) {
+      this.url = url;
+      this.init = init;
+      FakeEventSource.instances.push(this);
+    }
+
+    addEventListener(type: string, listener: (event: any) => void) {
+      const list = this.listeners.get(type) || [];
+      list.push(listener);
+      this.listeners.set(type, list);
+    }
+
+    close() {
+      this.closed = true;
+    }
+
+    open() {
+      this.onopen?.();
+    }
+
+    dispatch(type: string, data: any, lastEventId = '') {
+      const event = { data: JSON.stringify(data), lastEventId };
+      (this.listeners.get(type) || []).forEach(listener => listener(event));
+    }
+
+    fail() {
+      this.onerror?.();
+    }
+  }
+  (globalThis as any).EventSource = FakeEventSource;
+  return { FakeEventSource };
+});
+
+import SseSDK from '../SseSDK';
+import { Message } from '../types';
+
+const agentMessage = (id: string, text = 'reply'): Message => ({
+  id,
+  createdAt: new Date().toISOString(),
+  direction: 'Outgoing',
+  messageType: 'Chat',
+  text,
+  participantId: 'user-1',
+  workflowId: 'tenant:support',
+  workflowType: 'support'
+});
+
+const latestSource = () => FakeEventSource.instances[FakeEventSource.instances.length - 1];
+
+describe('SseSDK', () => {
+  let sseSDK: SseSDK;
+
+  beforeEach(() => {
+    FakeEventSource.instances = [];
+  });
+
+  afterEach(() => {
+    sseSDK?.dispose();
+  });
+
+  describe('resume after reconnect', () => {
+    it('should send the last event id on reconnect and drop replayed messages', async () => {
+      const onReceiveChat = vi.fn();
+      sseSDK = new SseSDK({
+        tenantId: 'tenant',
+        apiKey: 'sk-test',
+        serverUrl: 'http://localhost:5000',
+        reconnectDelay: 5,
+        logger: vi.fn(),
+        eventHandlers: { onReceiveChat }
+      });
+
+      await sseSDK.connect({ workflow: 'support', participantId: 'user-1' });
+      const first = latestSource();
+      first.open();
+      first.dispatch('Chat', agentMessage('m1', 'first'), 'evt-1');
+      expect(new URL(first.url).searchParams.get('lastEventId')).toBeNull();
+
+      first.fail();
+      await vi.waitFor(() => expect(FakeEventSource.instances).toHaveLength(2));
+
+      const second = latestSource();
+      expect(new URL(second.url).searchParams.get('lastEventId')).toBe('evt-1');
+      expect(second.init?.headers?.['Last-Event-ID']).toBe('evt-1');
+
+      second.open();
+      second.dispatch('Chat', agentMessage('m1', 'first'), 'evt-1');
+      second.dispatch('Chat', agentMessage('m2', 'second'), 'evt-2');
+
+      expect(onReceiveChat.mock.calls.map(([m]) => m.text)).toEqual(['first', 'second']);
+      expect(sseSDK.getLastEventId()).toBe('evt-2');
+    });
+
+    it('should start fresh when connecting to a different stream', async () => {
+      sseSDK = new SseSDK({
+        tenantId: 'tenant',
+        apiKey: 'sk-test',
+        serverUrl: 'http://localhost:5000',
+        logger: vi.fn()
+      });
+
+      await sseSDK.connect({ workflow: 'support', participantId: 'user-1' });
+      latestSource().open();
+      latestSource().dispatch('Chat', agentMessage('m1'), 'evt-1');
+      sseSDK.disconnect();
+
+      await sseSDK.connect({ workflow: 'billing', participantId: 'user-1' });
+      expect(new URL(latestSource().url).searchParams.get('lastEventId')).toBeNull();
+      expect(sseSDK.getLastEventId()).toBeNull();
+    });
+  });
+
+  describe('token refresh', () => {
+    const makeJwt = (exp: number) => {
+      const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+      return `${encode({ alg: 'none' })}.${encode({ exp })}.sig`;
+    };
+
+    it('should report a failed proactive refresh of an updated JWT callback to the logger', async () => {
+      vi.useFakeTimers();
+      try {
+        const logger = vi.fn();
+        sseSDK = new SseSDK({
+          tenantId: 'tenant',
+          apiKey: 'sk-test',
+          serverUrl: 'http://localhost:5000',
+          logger
+        });
+        const getJwtToken = vi.fn()
+          .mockReturnValueOnce(makeJwt(Math.floor(Date.now() / 1000) + 120))
+          .mockRejectedValueOnce(new Error('offline'));
+        sseSDK.updateJwtTokenCallback(getJwtToken);
+
+        await sseSDK.connect({ workflow: 'support', participantId: 'user-1' });
+        expect(getJwtToken).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(61000);
+
+        expect(logger).toHaveBeenCalledWith('warn', 'Proactive token refresh failed', expect.anything());
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('events', () => {
+    it('should reject pending waiters on dispose', async () => {
+      sseSDK = new SseSDK({
+        tenantId: 'tenant',
+        apiKey: 'sk-test',
+        serverUrl: 'http://localhost:5000',
+        logger: vi.fn()
+      });
+      const connected = sseSDK.once('connected');
+      const reply = sseSDK.waitFor('message', event => event.data.requestId === 'never');
+
+      sseSDK.dispose();
+
+      await expect(connected).rejects.toMatchObject({ code: 'DISPOSED' });
+      await expect(reply).rejects.toMatchObject({ code: 'DISPOSED', message: 'SDK has been disposed' });
+    });
+
+    it('should resolve once() and waitFor() with typed events', async () => {
+      sseSDK = new SseSDK({
+        tenantId: 'tenant',
+        apiKey: 'sk-test',
+        serverUrl: 'http://localhost:5000',
+        logger: vi.fn()
+      });
+
+      const connected = sseSDK.once('connected');
+      const reply = sseSDK.waitFor('message', event => event.data.text === 'second', 1000);
+      await sseSDK.connect({ workflow: 'support', participantId: 'user-1' });
+      latestSource().open();
+      latestSource().dispatch('Chat', agentMessage('m1', 'first'));
+      latestSource().dispatch('Chat', agentMessage('m2', 'second'));
+
+      expect((await connected).stream).toBe('default');
+      expect((await reply).data.id).toBe('m2');
+    });
+  });
+
+  describe('heartbeat watchdog', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should reconnect a stream that misses too many heartbeats', async () => {
+      const onStale = vi.fn();
+      sseSDK = new SseSDK({
+        tenantId: 'tenant',
+        apiKey: 'sk-test',
+        serverUrl: 'http://localhost:5000',
+        reconnectDelay: 10,
+        maxMissedHeartbeats: 2,
+        logger: vi.fn(),
+        eventHandlers: { onStale }
+      });
+      const stale = vi.fn();
+      sseSDK.on('stale', stale);
+
+      await sseSDK.connect({ workflow: 'support', participantId: 'user-1', heartbeatSeconds: 1 });
+      latestSource().open();
+      await vi.advanceTimersByTimeAsync(1500);
+      latestSource().dispatch('heartbeat', { timestamp: new Date().toISOString(), subscriberCount: 1 });
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(stale).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(onStale).toHaveBeenCalledWith(2);
+      expect(stale.mock.calls[0][0].data.missedHeartbeats).toBe(2);
+      expect(FakeEventSource.instances[0].closed).toBe(true);
+      expect(sseSDK.getConnectionState()).toBe('Reconnecting');
+
+      await vi.advanceTimersByTimeAsync(10);
+      expect(FakeEventSource.instances).toHaveLength(2);
+      expect(sseSDK.getHeartbeatStats()?.staleCount).toBe(1);
+    });
+
+    it('should expose heartbeat statistics', async () => {
+      sseSDK = new SseSDK({
+        tenantId: 'tenant',
+        apiKey: 'sk-test',
+        serverUrl: 'http://localhost:5000',
+        logger: vi.fn()
+      });
+
+      await sseSDK.connect({ workflow: 'support', participantId: 'user-1' });
+      latestSource().open();
+      const sentAt = Date.now();
+      latestSource().dispatch('heartbeat', { timestamp: new Date(sentAt - 20).toISOString(), subscriberCount: 1 });
+      await vi.advanceTimersByTimeAsync(1000);
+      latestSource().dispatch('heartbeat', { timestamp: new Date(sentAt + 1000 - 50).toISOString(), subscriberCount: 3 });
+
+      const stats = sseSDK.getHeartbeatStats()!;
+      expect(stats.count).toBe(2);
+      expect(stats.latencyMs).toBe(50);
+      expect(stats.latencyDriftMs).toBe(30);
+      expect(stats.subscriberCounts.map(entry => entry.subscriberCount)).toEqual([1, 3]);
+      expect(stats.lastSeenAt?.getTime()).toBe(sentAt + 1000);
+    });
+  });
+
+  describe('multiple streams', () => {
+    const sourceFor = (workflow: string) =>
+      FakeEventSource.instances.filter(source => new URL(source.url).searchParams.get('workflow') === workflow).pop()!;
+
+    it('should route events to each stream and tag aggregate events with the stream key', async () => {
+      const onReceiveChat = vi.fn();
+      const supportChat = vi.fn();
+      sseSDK = new SseSDK({
+        tenantId: 'tenant',
+        apiKey: 'sk-test',
+        serverUrl: 'http://localhost:5000',
+        logger: vi.fn(),
+        eventHandlers: { onReceiveChat }
+      });
+      const tagged: string[] = [];
+      sseSDK.on('message', event => tagged.push(`${event.stream}:${event.data.text}`));
+
+      const supportKey = await sseSDK.openStream({ workflow: 'support', participantId: 'user-1' }, {
+        handlers: { onReceiveChat: supportChat }
+      });
+      await sseSDK.openStream({ workflow: 'billing', participantId: 'user-1' }, { name: 'billing' });
+      sourceFor('support').open();
+      sourceFor('billing').open();
+
+      sourceFor('support').dispatch('Chat', agentMessage('m1', 'help'), 'evt-1');
+      sourceFor('billing').dispatch('Chat', agentMessage('m1', 'invoice'), 'evt-9');
+
+      expect(supportKey).toBe('support|user-1|');
+      expect(supportChat.mock.calls.map(([m]) => m.text)).toEqual(['help']);
+      expect(onReceiveChat.mock.calls.map(([m]) => m.text)).toEqual(['help', 'invoice']);
+      expect(tagged).toEqual(['support|user-1|:help', 'billing:invoice']);
+      expect(sseSDK.getLastEventId(supportKey)).toBe('evt-1');
+      expect(sseSDK.getLastEventId('billing')).toBe('evt-9');
+      expect(sseSDK.isConnected()).toBe(true);
+    });
+
+    it('should keep other streams open when one is closed', async () => {
+      sseSDK = new SseSDK({
+        tenantId: 'tenant',
+        apiKey: 'sk-test',
+        serverUrl: 'http://localhost:5000',
+        logger: vi.fn()
+      });
+
+      await sseSDK.openStream({ workflow: 'support', participantId: 'user-1' }, { name: 'support' });
+      await sseSDK.openStream({ workflow: 'billing', participantId: 'user-1' }, { name: 'billing' });
+      sourceFor('support').open();
+      sourceFor('billing').open();
+
+      sseSDK.closeStream('support');
+
+      expect(sourceFor('support').closed).toBe(true);
+      expect(sourceFor('billing').closed).toBe(false);
+      expect(sseSDK.getStreams().map(stream => [stream.key, stream.state])).toEqual([['billing', 'Connected']]);
+    });
+
+    it('should reconnect streams dropped together on one shared backoff', async () => {
+      const nextDelay = vi.fn(() => 5);
+      sseSDK = new SseSDK({
+        tenantId: 'tenant',
+        apiKey: 'sk-test',
+        serverUrl: 'http://localhost:5000',
+        logger: vi.fn(),
+        retryPolicy: { nextDelay }
+      });
+
+      await sseSDK.openStream({ workflow: 'support', participantId: 'user-1' });
+      await sseSDK.openStream({ workflow: 'billing', participantId: 'user-1' });
+      sourceFor('support').open();
+      sourceFor('billing').open();
+
+      sourceFor('support').fail();
+      sourceFor('billing').fail();
+      expect(sseSDK.getConnectionState()).toBe('Reconnecting');
+
+      await vi.waitFor(() => expect(FakeEventSource.instances).toHaveLength(4));
+      // Each stream used its first attempt, both on the same timer
+      expect(nextDelay.mock.calls.map(([attempt]) => attempt)).toEqual([1, 1]);
+    });
+
+    it('should give up on a failing stream even while another one keeps reconnecting', async () => {
+      const nextDelay = vi.fn((attempt: number) => (attempt <= 2 ? 5 : null));
+      sseSDK = new SseSDK({
+        tenantId: 'tenant',
+        apiKey: 'sk-test',
+        serverUrl: 'http://localhost:5000',
+        logger: vi.fn(),
+        retryPolicy: { nextDelay }
+      });
+      const stateOf = (key: string) => sseSDK.getStreams().find(stream => stream.key === key)?.state;
+      const sourcesFor = (workflow: string) =>
+        FakeEventSource.instances.filter(source => new URL(source.url).searchParams.get('workflow') === workflow).length;
+
+      await sseSDK.openStream({ workflow: 'support', participantId: 'user-1' }, { name: 'flaky' });
+      await sseSDK.openStream({ workflow: 'billing', participantId: 'user-1' }, { name: 'healthy' });
+      sourceFor('support').open();
+      sourceFor('billing').open();
+
+      for (let round = 1; round <= 2; round++) {
+        sourceFor('support').fail();
+        await vi.waitFor(() => expect(sourcesFor('support')).toBe(round + 1));
+        // The healthy stream drops and comes back in between
+        sourceFor('billing').fail();
+        await vi.waitFor(() => expect(sourcesFor('billing')).toBe(round + 1));
+        sourceFor('billing').open();
+      }
+
+      sourceFor('support').fail();
+      expect(stateOf('flaky')).toBe('Failed');
+      expect(stateOf('healthy')).toBe('Connected');
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { TokenProvider, decodeJwtExpiry, resolveTokenProvider } from '../core/TokenProvider';
+import { XiansAuthError } from '../core/errors';
+import RestSDK from '../RestSDK';
+
+// Unsigned JWT carrying only the claims the provider reads
+const makeJwt = (claims: Record<string, unknown>) => {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'none' })}.${encode(claims)}.sig`;
+};
+
+const inSeconds = (seconds: number) => Math.floor(Date.now() / 1000) + seconds;
+
+describe('TokenProvider', () => {
+  it('should decode the exp claim', () => {
+    expect(decodeJwtExpiry(makeJwt({ exp: 1700000000 }))).toBe(1700000000 * 1000);
+    expect(decodeJwtExpiry(makeJwt({ sub: 'user' }))).toBeNull();
+    expect(decodeJwtExpiry('not-a-jwt')).toBeNull();
+  });
+
+  it('should cache a token until it gets close to expiry', async () => {
+    let now = Date.now();
+    const dateNow = vi.spyOn(Date, 'now').mockImplementation(() => now);
+    try {
+      const getToken = vi.fn(() => makeJwt({ exp: Math.floor(now / 1000) + 600 }));
+      const provider = new TokenProvider({ getToken, refreshMargin: 60000, proactiveRefresh: false });
+
+      const first = await provider.getToken();
+      expect(await provider.getToken()).toBe(first);
+      expect(getToken).toHaveBeenCalledTimes(1);
+
+      now += 541000; // inside the one-minute margin
+      await provider.getToken();
+      expect(getToken).toHaveBeenCalledTimes(2);
+    } finally {
+      dateNow.mockRestore();
+    }
+  });
+
+  it('should not cache tokens without an expiry', async () => {
+    const getToken = vi.fn(() => 'opaque-token');
+    const provider = new TokenProvider({ getToken });
+
+    await provider.getToken();
+    await provider.getToken();
+    expect(getToken).toHaveBeenCalledTimes(2);
+  });
+
+  it('should collapse concurrent refreshes into one call', async () => {
+    let resolveToken!: (token: string) => void;
+    const getToken = vi.fn(() => new Promise<string>(resolve => { resolveToken = resolve; }));
+    const provider = new TokenProvider({ getToken });
+
+    const calls = [provider.getToken(), provider.getToken(), provider.refresh()];
+    resolveToken(makeJwt({ exp: inSeconds(600) }));
+
+    const tokens = await Promise.all(calls);
+    expect(new Set(tokens).size).toBe(1);
+    expect(getToken).toHaveBeenCalledTimes(1);
+    provider.dispose();
+  });
+
+  it('should refresh proactively before expiry', async () => {
+    vi.useFakeTimers();
+    try {
+      const getToken = vi.fn(() => makeJwt({ exp: inSeconds(120), n: getToken.mock.calls.length }));
+      const provider = new TokenProvider({ getToken, refreshMargin: 60000 });
+
+      await provider.getToken();
+      await vi.advanceTimersByTimeAsync(61000);
+
+      expect(getToken).toHaveBeenCalledTimes(2);
+      provider.dispose();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should report a failed proactive refresh to the logger', async () => {
+    vi.useFakeTimers();
+    try {
+      const logger = vi.fn();
+      const getToken = vi.fn()
+        .mockReturnValueOnce(makeJwt({ exp: inSeconds(120) }))
+        .mockRejectedValueOnce(new Error('offline'));
+      const provider = new TokenProvider({ getToken, refreshMargin: 60000, logger });
+
+      await provider.getToken();
+      await vi.advanceTimersByTimeAsync(61000);
+
+      expect(logger).toHaveBeenCalledWith('warn', 'Proactive token refresh failed', expect.any(XiansAuthError));
+      provider.dispose();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should give a provider built from getJwtToken the SDK logger', async () => {
+    vi.useFakeTimers();
+    try {
+      const logger = vi.fn();
+      const getJwtToken = vi.fn()
+        .mockReturnValueOnce(makeJwt({ exp: inSeconds(120) }))
+        .mockRejectedValueOnce(new Error('offline'));
+      const provider = resolveTokenProvider({ getJwtToken, tokenRefreshMargin: 60000, logger })!;
+
+      await provider.getToken();
+      await vi.advanceTimersByTimeAsync(61000);
+
+      expect(logger).toHaveBeenCalledWith('warn', 'Proactive token refresh failed', expect.any(XiansAuthError));
+      provider.dispose();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should report callback failures as auth errors', async () => {
+    const provider = new TokenProvider({ getToken: () => { throw new Error('offline'); } });
+    await expect(provider.getToken()).rejects.toBeInstanceOf(XiansAuthError);
+  });
+});
+
+describe('RestSDK token refresh', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should refresh the token once and replay the request after a 401', async () => {
+    const tokens = [makeJwt({ exp: inSeconds(600), v: 1 }), makeJwt({ exp: inSeconds(600), v: 2 })];
+    const getJwtToken = vi.fn(async () => tokens[getJwtToken.mock.calls.length - 1]);
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      const authorization = (init.headers as Record<string, string>)['Authorization'];
+      return authorization === `Bearer ${tokens[1]}`
+        ? new Response('[]', { status: 200, headers: { 'content-type': 'application/json' } })
+        : new Response(JSON.stringify({ message: 'expired' }), { status: 401, headers: { 'content-type': 'application/json' } });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const restSDK = new RestSDK({
+      tenantId: 'tenant',
+      getJwtToken,
+      serverUrl: 'http://localhost:5000',
+      logger: vi.fn()
+    });
+
+    const result = await restSDK.getHistory({ workflow: 'support', participantId: 'user-1' });
+    await restSDK.getHistory({ workflow: 'support', participantId: 'user-1' });
+
+    expect(result.success).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(getJwtToken).toHaveBeenCalledTimes(2);
+    restSDK.dispose();
+  });
+});
@@ -0,0 +1,109 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { EventSource } from 'eventsource';
+import { MockXiansServer } from '../testing';
+import type { XiansChatElement } from '../element';
+
+const thread = { workflow: 'support', participantId: 'user-1' };
+
+// SseSDK picks its EventSource when it is loaded, and jsdom has none
+beforeAll(async () => {
+  (globalThis as any).EventSource = EventSource;
+  await import('../element');
+});
+
+describe('<xians-chat>', () => {
+  let server: MockXiansServer;
+  let serverUrl: string;
+  let element: XiansChatElement;
+
+  beforeEach(async () => {
+    server = new MockXiansServer({ tenantId: 'tenant', apiKey: 'key' });
+    serverUrl = await server.start();
+  });
+
+  afterEach(async () => {
+    element?.remove();
+    await server.stop();
+  });
+
+  function mount(attributes: Record<string, string> = {}) {
+    element = document.createElement('xians-chat');
+    element.sdkOptions = { logger: () => undefined };
+    const all = { 'server-url': serverUrl, tenant: 'tenant', 'api-key': 'key', workflow: thread.workflow, participant: thread.participantId, ...attributes };
+    Object.entries(all).forEach(([name, value]) => element.setAttribute(name, value));
+    document.body.append(element);
+    return element;
+  }
+
+  const bubbles = () => [...element.shadowRoot!.querySelectorAll('[part~="message"], [part="handoff"]')]
+    .map(item => [item.getAttribute('part'), item.textContent]);
+
+  it('shows history, sends messages and renders replies over SSE and REST', async () => {
+    server.agent(thread).reply('Welcome back');
+    const messages = vi.fn();
+    const handoffs = vi.fn();
+    server.onMessage((message, agent) => {
+      agent.reply(`echo: ${message.text}`);
+      agent.handoff('Passing you to billing');
+    });
+
+    mount();
+    element.addEventListener('message', messages);
+    element.addEventListener('handoff', handoffs);
+    await vi.waitFor(() => expect(element.status).toBe('connected'));
+    await vi.waitFor(() => expect(bubbles()).toEqual([['message message-agent', 'Welcome back']]));
+
+    await element.send('hello');
+
+    await vi.waitFor(() => expect(bubbles()).toEqual([
+      ['message message-agent', 'Welcome back'],
+      ['message message-user', 'hello'],
+      ['message message-agent', 'echo: hello'],
+      ['handoff', 'Passing you to billing']
+    ]));
+    expect(element.getAttribute('status')).toBe('connected');
+    expect(element.shadowRoot!.querySelector('[part="status"]')!.textContent).toBe('Connected');
+    expect(messages.mock.calls[0][0].detail.message.text).toBe('echo: hello');
+    expect(handoffs).toHaveBeenCalledTimes(1);
+  });
+
+  it('uses the socket with transport="socket"', async () => {
+    server.onMessage((message, agent) => agent.reply(`echo: ${message.text}`));
+
+    mount({ transport: 'socket' });
+    await vi.waitFor(() => expect(element.status).toBe('connected'));
+    await element.send('hello');
+
+    await vi.waitFor(() => expect(bubbles()).toEqual([['message message-user', 'hello'], ['message message-agent', 'echo: hello']]));
+    expect(server.messages[0].transport).toBe('socket');
+  });
+
+  it('marks failed sends and emits error events', async () => {
+    server.failNext('send', { status: 400, message: 'workflow is paused' });
+    const errors: Error[] = [];
+
+    mount();
+    element.addEventListener('error', event => errors.push((event as CustomEvent).detail.error));
+    await vi.waitFor(() => expect(element.status).toBe('connected'));
+
+    await expect(element.send('hi')).rejects.toThrow('workflow is paused');
+
+    expect(bubbles()).toEqual([['message message-user failed', 'hi']]);
+    expect(errors.map(error => error.message)).toEqual(['workflow is paused']);
+  });
+
+  it('disconnects when removed and waits for its required attributes', async () => {
+    mount({ workflow: '' });
+    await Promise.resolve();
+    expect(element.status).toBe('idle');
+    expect(server.connections.sse).toBe(0);
+
+    element.setAttribute('workflow', thread.workflow);
+    await vi.waitFor(() => expect(server.connections.sse).toBe(1));
+
+    element.remove();
+    await vi.waitFor(() => expect(server.connections.sse).toBe(0));
+    expect(element.status).toBe('idle');
+  });
+});
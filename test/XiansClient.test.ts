@@ -0,0 +1,341 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { XiansClient, XiansClientOptions } from '../XiansClient';
+import { ConnectionState, Message } from '../types';
+import { XiansNetworkError } from '../core/errors';
+
+type ConnectBehaviour = 'ok' | 'fail' | 'hang';
+
+// Stand-ins for the three SDKs so the client's transport handling can be driven by the test
+const fakes = vi.hoisted(() => {
+  const state = {
+    socket: [] as any[],
+    sse: [] as any[],
+    rest: [] as any[],
+    behaviour: { socket: 'ok', sse: 'ok' } as Record<'socket' | 'sse', ConnectBehaviour>,
+    history: [] as any[]
+  };
+
+  class FakeSocketSDK {
+    connected = false;
+    sendInboundMessage = vi.fn(async () => undefined);
+    subscribeToAgent = vi.fn(async () => undefined);
+    dispose = vi.fn(async () => {
+      this.connected = false;
+    });
+
+    constructor(public options: any) {
+      state.socket.push(this);
+    }
+
+    connect() {
+      if (state.behaviour.socket === 'fail') return Promise.reject(new Error('WebSocket failed to connect'));
+      if (state.behaviour.socket === 'hang') return new Promise<void>(() => undefined);
+      this.connected = true;
+      return Promise.resolve();
+    }
+
+    isConnected() {
+      return this.connected;
+    }
+
+    receive(message: any) {
+      this.options.eventHandlers.onReceiveChat(message);
+    }
+
+    setState(newState: string) {
+      this.connected = newState === 'connected';
+      this.options.eventHandlers.onConnectionStateChanged(undefined, newState);
+    }
+  }
+
+  class FakeSseSDK {
+    listeners = new Map<string, Set<(event: any) => void>>();
+    dispose = vi.fn();
+
+    constructor(public options: any) {
+      state.sse.push(this);
+    }
+
+    on(event: string, handler: (event: any) => void) {
+      const set = this.listeners.get(event) ?? new Set();
+      set.add(handler);
+      this.listeners.set(event, set);
+      return () => set.delete(handler);
+    }
+
+    once(event: string, handler: (event: any) => void) {
+      const off = this.on(event, data => {
+        off();
+        handler(data);
+      });
+      return off;
+    }
+
+    emit(event: string, data: any = {}) {
+      [...(this.listeners.get(event) ?? [])].forEach(handler => handler({ type: event, data }));
+    }
+
+    listenerCount(event: string) {
+      return this.listeners.get(event)?.size ?? 0;
+    }
+
+    async connect() {
+      if (state.behaviour.sse === 'ok') {
+        queueMicrotask(() => this.emit('connected'));
+      } else if (state.behaviour.sse === 'fail') {
+        queueMicrotask(() => this.emit('error', { code: 'CONNECTION_FAILED', error: 'SSE failed to connect' }));
+      }
+    }
+
+    receive(message: any) {
+      this.options.eventHandlers.onReceiveChat(message);
+    }
+  }
+
+  class FakeRestSDK {
+    send = vi.fn(async () => ({ success: true }));
+    getHistory = vi.fn(async () => ({ success: true, data: [...state.history] }));
+    dispose = vi.fn();
+
+    constructor(public options: any) {
+      state.rest.push(this);
+    }
+  }
+
+  return { state, FakeSocketSDK, FakeSseSDK, FakeRestSDK };
+});
+
+vi.mock('../SocketSDK', () => ({ default: fakes.FakeSocketSDK }));
+vi.mock('../SseSDK', () => ({ default: fakes.FakeSseSDK }));
+vi.mock('../RestSDK', () => ({ default: fakes.FakeRestSDK }));
+
+const { state } = fakes;
+const params = { workflow: 'support', participantId: 'user-1' };
+
+const agentMessage = (overrides: Partial<Message> = {}): Message => ({
+  id: `msg-${Math.random().toString(36).slice(2)}`,
+  createdAt: new Date().toISOString(),
+  direction: 'Outgoing',
+  messageType: 'Chat',
+  text: 'hello',
+  participantId: 'user-1',
+  workflowId: 'wf-1',
+  workflowType: 'support',
+  ...overrides
+} as Message);
+
+describe('XiansClient', () => {
+  let client: XiansClient;
+
+  const createClient = (options: Partial<XiansClientOptions> = {}) => {
+    client = new XiansClient({
+      tenantId: 'tenant',
+      apiKey: 'key',
+      serverUrl: 'http://localhost:5000',
+      logger: () => undefined,
+      ...options
+    });
+    return client;
+  };
+
+  beforeEach(() => {
+    state.socket = [];
+    state.sse = [];
+    state.rest = [];
+    state.behaviour = { socket: 'ok', sse: 'ok' };
+    state.history = [];
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await client?.dispose();
+  });
+
+  describe('transport selection', () => {
+    it('uses the socket first by default', async () => {
+      createClient();
+      await client.connect(params);
+
+      expect(client.getActiveTransport()).toBe('socket');
+      expect(client.getConnectionState()).toBe(ConnectionState.Connected);
+      expect(state.socket[0].subscribeToAgent).toHaveBeenCalledWith('support', 'user-1', { scope: undefined });
+      expect(state.sse).toHaveLength(0);
+    });
+
+    it('subscribes the socket to the conversation scope', async () => {
+      createClient();
+      await client.connect({ ...params, scope: 'billing' });
+
+      expect(state.socket[0].subscribeToAgent).toHaveBeenCalledWith('support', 'user-1', { scope: 'billing' });
+    });
+
+    it('tries the transports in the configured order', async () => {
+      createClient({ transports: ['rest', 'socket'] });
+      await client.connect(params);
+
+      expect(client.getActiveTransport()).toBe('rest');
+      expect(state.socket).toHaveLength(0);
+    });
+
+    it('moves on to SSE when the socket fails to connect', async () => {
+      state.behaviour.socket = 'fail';
+      const changes: (string | null)[] = [];
+      createClient();
+      client.on('transport_change', ({ transport }) => changes.push(transport));
+
+      await client.connect(params);
+
+      expect(client.getActiveTransport()).toBe('sse');
+      expect(changes).toEqual(['sse']);
+      expect(state.socket[0].dispose).toHaveBeenCalled();
+    });
+
+    it('moves on when a transport does not connect within connectionTimeout', async () => {
+      state.behaviour.socket = 'hang';
+      state.behaviour.sse = 'hang';
+      createClient({ connectionTimeout: 20 });
+
+      await client.connect(params);
+
+      expect(client.getActiveTransport()).toBe('rest');
+      expect(state.socket[0].dispose).toHaveBeenCalled();
+      expect(state.sse[0].dispose).toHaveBeenCalled();
+    });
+
+    it('fails when no transport connects and disposes the old RestSDK on the next connect', async () => {
+      state.behaviour.socket = 'fail';
+      state.behaviour.sse = 'fail';
+      const errors: Error[] = [];
+      createClient({ transports: ['socket', 'sse'] });
+      client.on('error', error => errors.push(error));
+
+      await expect(client.connect(params)).rejects.toBeInstanceOf(XiansNetworkError);
+      expect(client.getConnectionState()).toBe(ConnectionState.Failed);
+      expect(errors.map(error => error.message)).toEqual(['No transport could be established']);
+
+      state.behaviour.sse = 'ok';
+      await client.connect(params);
+
+      expect(client.getActiveTransport()).toBe('sse');
+      expect(state.rest[0].dispose).toHaveBeenCalled();
+      expect(state.rest).toHaveLength(2);
+    });
+
+    it('removes the listeners it adds while SSE connects', async () => {
+      createClient({ transports: ['sse'] });
+      await client.connect(params);
+
+      // Only the permanent listeners remain
+      expect(state.sse[0].listenerCount('connected')).toBe(1);
+      expect(state.sse[0].listenerCount('error')).toBe(1);
+    });
+  });
+
+  describe('runtime fallback', () => {
+    it('falls back when the socket stays down longer than fallbackTimeout', async () => {
+      createClient({ fallbackTimeout: 1000 });
+      await client.connect(params);
+      vi.useFakeTimers();
+
+      state.socket[0].setState(ConnectionState.Reconnecting);
+      expect(client.getConnectionState()).toBe(ConnectionState.Reconnecting);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(client.getActiveTransport()).toBe('sse');
+      expect(client.getConnectionState()).toBe(ConnectionState.Connected);
+    });
+
+    it('stays on the socket when it recovers in time', async () => {
+      createClient({ fallbackTimeout: 1000 });
+      await client.connect(params);
+      vi.useFakeTimers();
+
+      state.socket[0].setState(ConnectionState.Reconnecting);
+      await vi.advanceTimersByTimeAsync(500);
+      state.socket[0].setState(ConnectionState.Connected);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(client.getActiveTransport()).toBe('socket');
+      expect(state.sse).toHaveLength(0);
+    });
+
+    it('falls back and resends when a send finds the socket gone', async () => {
+      createClient();
+      await client.connect(params);
+      const socket = state.socket[0];
+      socket.connected = false;
+      socket.sendInboundMessage.mockRejectedValueOnce(new Error('Connection closed'));
+
+      await client.send({ text: 'hi' });
+
+      expect(client.getActiveTransport()).toBe('sse');
+      expect(state.rest[0].send).toHaveBeenCalledWith(expect.objectContaining({ text: 'hi', workflow: 'support', type: 'Chat' }));
+    });
+
+    it('does not emit a message twice when it arrives again after a switch', async () => {
+      createClient({ fallbackTimeout: 1000 });
+      const received: string[] = [];
+      client.onMessage(message => received.push(message.text!));
+      await client.connect(params);
+      vi.useFakeTimers();
+
+      const message = agentMessage({ text: 'once' });
+      state.socket[0].receive(message);
+      state.socket[0].setState(ConnectionState.Reconnecting);
+      await vi.advanceTimersByTimeAsync(1000);
+      state.sse[0].receive(message);
+      state.sse[0].receive(agentMessage({ text: 'new' }));
+
+      expect(received).toEqual(['once', 'new']);
+    });
+  });
+
+  describe('REST polling', () => {
+    it('emits new agent messages once, with or without an id', async () => {
+      state.history = [agentMessage({ text: 'old' })];
+      createClient({ transports: ['rest'], pollInterval: 1000 });
+      const received: string[] = [];
+      client.onMessage(message => received.push(message.text!));
+      vi.useFakeTimers();
+      await client.connect(params);
+
+      // History pages are newest first
+      const withoutId = agentMessage({ id: '', requestId: 'r1', text: 'no id' });
+      state.history = [agentMessage({ text: 'reply' }), withoutId, agentMessage({ text: 'mine', direction: 'Incoming' }), ...state.history];
+      await vi.advanceTimersByTimeAsync(1000);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(received).toEqual(['no id', 'reply']);
+    });
+  });
+
+  describe('dispose', () => {
+    it('disposes every SDK and rejects further use', async () => {
+      state.behaviour.socket = 'fail';
+      createClient();
+      await client.connect(params);
+
+      await client.dispose();
+
+      expect(state.sse[0].dispose).toHaveBeenCalled();
+      expect(state.rest[0].dispose).toHaveBeenCalled();
+      expect(client.getActiveTransport()).toBeNull();
+      expect(client.getConnectionState()).toBe(ConnectionState.Disconnected);
+      await expect(client.connect(params)).rejects.toThrow('Client has been disposed');
+      await expect(client.send({ text: 'hi' })).rejects.toThrow('Client has been disposed');
+    });
+
+    it('stops polling', async () => {
+      createClient({ transports: ['rest'], pollInterval: 1000 });
+      vi.useFakeTimers();
+      await client.connect(params);
+      await vi.advanceTimersByTimeAsync(1000);
+      const polls = state.rest[0].getHistory.mock.calls.length;
+
+      await client.dispose();
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(state.rest[0].getHistory.mock.calls.length).toBe(polls);
+    });
+  });
+});
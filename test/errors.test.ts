@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  XiansError,
+  XiansAuthError,
+  XiansTimeoutError,
+  XiansNetworkError,
+  XiansServerError,
+  toXiansError,
+  errorFromStatus
+} from '../core/errors';
+import RestSDK from '../RestSDK';
+
+describe('errors', () => {
+  it('should keep the class, name and code on subclasses', () => {
+    const error = new XiansServerError('boom', 502, { data: { detail: 'gateway' } });
+    expect(error).toBeInstanceOf(XiansError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('XiansServerError');
+    expect(error.code).toBe('SERVER_ERROR');
+    expect(error.statusCode).toBe(502);
+  });
+
+  it('should map HTTP statuses', () => {
+    expect(errorFromStatus(401, 'nope')).toBeInstanceOf(XiansAuthError);
+    expect(errorFromStatus(503, 'busy')).toBeInstanceOf(XiansServerError);
+  });
+
+  it('should wrap thrown values by kind', () => {
+    const timeout = Object.assign(new Error('timed out'), { name: 'TimeoutError' });
+    expect(toXiansError(timeout)).toBeInstanceOf(XiansTimeoutError);
+    expect(toXiansError(new TypeError('fetch failed'))).toBeInstanceOf(XiansNetworkError);
+    expect(toXiansError({ statusCode: 403, message: 'forbidden' })).toBeInstanceOf(XiansAuthError);
+
+    const unknown = toXiansError('odd');
+    expect(unknown.code).toBe('UNKNOWN');
+    expect(unknown.message).toBe('odd');
+
+    const existing = new XiansNetworkError('down');
+    expect(toXiansError(existing)).toBe(existing);
+  });
+});
+
+describe('RestSDK exceptions', () => {
+  const createSDK = () => new RestSDK({
+    tenantId: 'tenant',
+    apiKey: 'sk-test',
+    serverUrl: 'http://localhost:5000',
+    logger: vi.fn(),
+    retryOnStatus: []
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should attach a typed error to failed responses', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ message: 'bad key' }), {
+      status: 401,
+      headers: { 'content-type': 'application/json' }
+    })));
+
+    const result = await createSDK().getHistory({ workflow: 'support', participantId: 'user-1' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('bad key');
+    expect(result.exception).toBeInstanceOf(XiansAuthError);
+    expect((result.exception as XiansAuthError).statusCode).toBe(401);
+  });
+
+  it('should report unreachable servers as network errors', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('fetch failed'); }));
+
+    const result = await createSDK().getHistory({ workflow: 'support', participantId: 'user-1' });
+
+    expect(result.exception).toBeInstanceOf(XiansNetworkError);
+    expect(result.error).toBe('fetch failed');
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest';
+import { iterateHistoryPages, HistoryIteratorOptions } from '../core/history';
+import { Message } from '../types';
+
+// 7 messages, one per minute; page 0 holds the newest
+const all: Message[] = Array.from({ length: 7 }, (_, i) => ({
+  id: `m${i}`,
+  createdAt: new Date(Date.UTC(2024, 0, 1, 10, i)).toISOString(),
+  direction: 'Outgoing',
+  text: `message ${i}`,
+  participantId: 'user-1',
+  workflowId: 'tenant:support',
+  workflowType: 'support'
+}));
+
+const loader = vi.fn(async (index: number, pageSize: number) =>
+  [...all].reverse().slice(index * pageSize, (index + 1) * pageSize));
+
+const collect = async (options: HistoryIteratorOptions) => {
+  const ids: string[] = [];
+  for await (const message of iterateHistoryPages(loader, { pageSize: 3, ...options })) {
+    ids.push(message.id);
+  }
+  return ids;
+};
+
+describe('iterateHistoryPages', () => {
+  it('should walk every page newest first', async () => {
+    loader.mockClear();
+    expect(await collect({})).toEqual(['m6', 'm5', 'm4', 'm3', 'm2', 'm1', 'm0']);
+    expect(loader.mock.calls.map(call => call[0])).toEqual([0, 1, 2]);
+  });
+
+  it('should yield oldest first when asked', async () => {
+    expect(await collect({ direction: 'oldest-first', maxCount: 3 })).toEqual(['m0', 'm1', 'm2']);
+  });
+
+  it('should apply the since and before cut-offs', async () => {
+    loader.mockClear();
+    const ids = await collect({ since: all[2].createdAt, before: new Date(all[5].createdAt) });
+
+    expect(ids).toEqual(['m4', 'm3', 'm2']);
+    // The page holding m1 is where the walk stops
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop after maxCount without loading more pages', async () => {
+    loader.mockClear();
+    expect(await collect({ maxCount: 2 })).toEqual(['m6', 'm5']);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip messages that shift onto the next page', async () => {
+    const shifting = vi.fn(async (index: number) => index === 0
+      ? [all[6], all[5], all[4]]
+      : index === 1 ? [all[4], all[3]] : []);
+
+    const ids: string[] = [];
+    for await (const message of iterateHistoryPages(shifting, { pageSize: 3 })) {
+      ids.push(message.id);
+    }
+    expect(ids).toEqual(['m6', 'm5', 'm4', 'm3']);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MiddlewarePipeline, resolveMiddleware } from '../core/middleware';
+import type { Message } from '../types';
+
+const request = { workflow: 'support', type: 'Chat', participantId: 'user-1', text: 'hi' };
+
+const message = (id: string): Message => ({
+  id,
+  createdAt: new Date().toISOString(),
+  direction: 'Outgoing',
+  text: id,
+  participantId: 'user-1',
+  workflowId: 'tenant:support',
+  workflowType: 'support'
+});
+
+describe('MiddlewarePipeline', () => {
+  it('should run outbound middleware in order, keeping the request when one returns nothing', async () => {
+    const pipeline = new MiddlewarePipeline([
+      { outbound: req => ({ ...req, data: { locale: 'en' } }) },
+      { outbound: () => undefined },
+      { outbound: async req => ({ ...req, text: req.text!.toUpperCase() }) }
+    ]);
+
+    const result = await pipeline.runOutbound(request, { transport: 'rest', operation: 'send' });
+
+    expect(result).toEqual({ ...request, text: 'HI', data: { locale: 'en' } });
+  });
+
+  it('should drop on null and skip the rest after stop()', async () => {
+    const later = vi.fn();
+    const dropping = new MiddlewarePipeline([{ outbound: () => null }, { outbound: later }]);
+    const stopping = new MiddlewarePipeline([
+      { outbound: (req, context) => { context.stop(); return { ...req, text: 'stopped' }; } },
+      { outbound: later }
+    ]);
+
+    expect(await dropping.runOutbound(request, { transport: 'socket', operation: 'send' })).toBeNull();
+    expect(await stopping.runOutbound(request, { transport: 'socket', operation: 'send' })).toMatchObject({ text: 'stopped' });
+    expect(later).not.toHaveBeenCalled();
+  });
+
+  it('should deliver synchronously without inbound middleware', () => {
+    const deliver = vi.fn();
+    const incoming = message('m1');
+    new MiddlewarePipeline([{ outbound: req => req }]).deliverInbound(incoming, { transport: 'sse', messageType: 'Chat' }, deliver, vi.fn());
+
+    expect(deliver).toHaveBeenCalledWith(incoming);
+  });
+
+  it('should keep arrival order when inbound middleware is async', async () => {
+    const delivered: string[] = [];
+    const pipeline = new MiddlewarePipeline([{
+      inbound: async msg => {
+        await new Promise(resolve => setTimeout(resolve, msg.id === 'slow' ? 20 : 0));
+        return msg.id === 'drop' ? null : msg;
+      }
+    }]);
+    const onError = vi.fn();
+
+    ['slow', 'drop', 'fast'].forEach(id =>
+      pipeline.deliverInbound(message(id), { transport: 'socket', messageType: 'Chat' }, msg => delivered.push(msg.id), onError)
+    );
+
+    await vi.waitFor(() => expect(delivered).toEqual(['slow', 'fast']));
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('should report inbound errors and keep delivering later messages', async () => {
+    const deliver = vi.fn();
+    const onError = vi.fn();
+    const pipeline = new MiddlewarePipeline([{
+      inbound: msg => {
+        if (msg.id === 'bad') throw new Error('boom');
+        return msg;
+      }
+    }]);
+
+    pipeline.deliverInbound(message('bad'), { transport: 'socket', messageType: 'Chat' }, deliver, onError);
+    pipeline.deliverInbound(message('good'), { transport: 'socket', messageType: 'Chat' }, deliver, onError);
+
+    await vi.waitFor(() => expect(deliver).toHaveBeenCalledTimes(1));
+    expect(deliver.mock.calls[0][0].id).toBe('good');
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'boom' }));
+  });
+
+  it('should share a pipeline passed as an option and remove middleware again', async () => {
+    const pipeline = new MiddlewarePipeline();
+    expect(resolveMiddleware(pipeline)).toBe(pipeline);
+
+    const remove = pipeline.use({ outbound: () => null });
+    expect(pipeline.size).toBe(1);
+    remove();
+
+    expect(await pipeline.runOutbound(request, { transport: 'rest', operation: 'converse' })).toEqual(request);
+  });
+});
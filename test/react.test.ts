@@ -0,0 +1,169 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import { StrictMode, act, createElement } from 'react';
+import type { ReactNode } from 'react';
+import { createRoot } from 'react-dom/client';
+import type { Root } from 'react-dom/client';
+import type { AgentSDK, ChatMessageData } from '../AgentSDK';
+import type { ConnectionState } from '../core/types';
+import { XiansProvider, useAgentConnection, useAgentSDK, useChatMessages, useDataSubscription, useSendChat } from '../react';
+
+/**
+ * The parts of AgentSDK the bindings use, driven by the test
+ */
+class FakeAgentSDK {
+  connect = vi.fn(async () => undefined);
+  disconnect = vi.fn(async () => undefined);
+  sendChat = vi.fn(async () => undefined);
+  dataSubscribers = new Map<string, { types: string[]; callback: (payload: any) => void }>();
+  private connectionHandlers = new Set<(ev: { workflowId: string; data: ConnectionState }) => void>();
+  private chatHandlers = new Set<(chat: ChatMessageData) => void>();
+
+  on(event: string, handler: (ev: any) => void) {
+    if (event !== 'connection_change') return () => undefined;
+    this.connectionHandlers.add(handler);
+    return () => this.connectionHandlers.delete(handler);
+  }
+
+  subscribeToChatMessages(callback: (chat: ChatMessageData) => void) {
+    this.chatHandlers.add(callback);
+    return () => this.chatHandlers.delete(callback);
+  }
+
+  subscribeToData(id: string, types: string[], callback: (payload: any) => void) {
+    this.dataSubscribers.set(id, { types, callback });
+    return () => this.dataSubscribers.delete(id);
+  }
+
+  getQueuedMessages() {
+    return [];
+  }
+
+  setConnection(workflowId: string, status: ConnectionState['status']) {
+    this.connectionHandlers.forEach(handler => handler({ workflowId, data: { status } }));
+  }
+
+  receiveChat(workflowId: string, text: string) {
+    const chat: ChatMessageData = { workflowId, text, direction: 'Outgoing', timestamp: new Date(), threadId: 't1', isHistorical: false };
+    this.chatHandlers.forEach(handler => handler(chat));
+  }
+
+  receiveData(payload: { messageType: string }) {
+    this.dataSubscribers.forEach(({ types, callback }) => {
+      if (types.includes(payload.messageType)) callback(payload);
+    });
+  }
+}
+
+const agents = [{ id: 'support', workflowType: 'support' }];
+
+let root: Root | null = null;
+
+function render(sdk: FakeAgentSDK, children: ReactNode, props: { agents?: typeof agents } = {}) {
+  root = createRoot(document.createElement('div'));
+  act(() => {
+    root!.render(createElement(StrictMode, null, createElement(XiansProvider, { sdk: sdk as unknown as AgentSDK, ...props }, children)));
+  });
+}
+
+beforeAll(() => {
+  (globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+});
+
+afterEach(() => {
+  act(() => root?.unmount());
+  root = null;
+});
+
+describe('React bindings', () => {
+  it('keeps the connection across StrictMode remounts and disconnects after the last unmount', async () => {
+    const sdk = new FakeAgentSDK();
+    render(sdk, null, { agents });
+
+    await act(() => new Promise(resolve => setTimeout(resolve, 5)));
+    expect(sdk.connect).toHaveBeenCalledWith(agents);
+    expect(sdk.disconnect).not.toHaveBeenCalled();
+
+    act(() => root!.unmount());
+    root = null;
+    await vi.waitFor(() => expect(sdk.disconnect).toHaveBeenCalledTimes(1));
+  });
+
+  it('renders connection state and chat messages as they change', () => {
+    const sdk = new FakeAgentSDK();
+    const renders: [string, string[]][] = [];
+    function Chat() {
+      const connection = useAgentConnection('support');
+      const messages = useChatMessages('support');
+      renders.push([connection.status, messages.map(m => m.text)]);
+      return null;
+    }
+    render(sdk, createElement(Chat));
+
+    act(() => sdk.setConnection('support', 'connected'));
+    act(() => sdk.receiveChat('support', 'hello'));
+    act(() => sdk.receiveChat('billing', 'not for this chat'));
+
+    expect(renders.at(-1)).toEqual(['connected', ['hello']]);
+    expect(renders.filter(([, texts]) => texts.includes('not for this chat'))).toHaveLength(0);
+  });
+
+  it('subscribes to data once per mount and unsubscribes on unmount', () => {
+    const sdk = new FakeAgentSDK();
+    const onData = vi.fn();
+    let latest: unknown;
+    function Status() {
+      latest = useDataSubscription(['OrderStatus'], onData);
+      return null;
+    }
+    render(sdk, createElement(Status));
+
+    expect(sdk.dataSubscribers.size).toBe(1);
+    act(() => sdk.receiveData({ messageType: 'OrderStatus' }));
+
+    expect(onData).toHaveBeenCalledTimes(1);
+    expect(latest).toEqual({ messageType: 'OrderStatus' });
+
+    act(() => root!.unmount());
+    root = null;
+    expect(sdk.dataSubscribers.size).toBe(0);
+  });
+
+  it('tracks sends and their errors', async () => {
+    const sdk = new FakeAgentSDK();
+    sdk.sendChat.mockRejectedValueOnce(new Error('SDK not initialized'));
+    let result!: ReturnType<typeof useSendChat>;
+    function Composer() {
+      result = useSendChat('support');
+      return null;
+    }
+    render(sdk, createElement(Composer));
+
+    let sent: boolean | undefined;
+    await act(async () => {
+      sent = await result.send('hi');
+    });
+
+    expect(sent).toBe(false);
+    expect(result.sending).toBe(false);
+    expect(result.error).toEqual(new Error('SDK not initialized'));
+    await act(async () => {
+      sent = await result.send('hi again', { page: 'checkout' });
+    });
+    expect(sent).toBe(true);
+    expect(result.error).toBeNull();
+    expect(sdk.sendChat).toHaveBeenLastCalledWith('support', 'hi again', { page: 'checkout' });
+  });
+
+  it('requires a provider', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    function Orphan() {
+      useAgentSDK();
+      return null;
+    }
+    root = createRoot(document.createElement('div'));
+
+    expect(() => act(() => root!.render(createElement(Orphan)))).toThrow('useAgentSDK must be used inside a XiansProvider');
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { EventSource } from 'eventsource';
+import RestSDK from '../RestSDK';
+import SocketSDK from '../SocketSDK';
+import { MessageType } from '../types';
+import { TrafficRecorder, TrafficReplayer } from '../core/recording';
+import { MockXiansServer } from '../testing';
+
+// SseSDK picks its EventSource when it is loaded, and Node has none built in
+let SseSDK: typeof import('../SseSDK').default;
+beforeAll(async () => {
+  (globalThis as any).EventSource = EventSource;
+  SseSDK = (await import('../SseSDK')).default;
+});
+
+const thread = { workflow: 'support', participantId: 'user-1' };
+
+/**
+ * Runs `session` against a mock server with a recorder, then stops the server
+ */
+async function record(session: (serverUrl: string, recorder: TrafficRecorder, server: MockXiansServer) => Promise<void>) {
+  const server = new MockXiansServer({ tenantId: 'tenant', apiKey: 'key' });
+  const serverUrl = await server.start();
+  const recorder = new TrafficRecorder();
+  try {
+    await session(serverUrl, recorder, server);
+  } finally {
+    await server.stop();
+  }
+  return { serverUrl, fixture: JSON.parse(JSON.stringify(recorder)) };
+}
+
+describe('traffic recording', () => {
+  it('replays REST responses without a server', async () => {
+    const converse = async (sdk: RestSDK) => sdk.converse({ ...thread, type: 'Chat', text: 'hi' });
+    const { serverUrl, fixture } = await record(async (serverUrl, traffic, server) => {
+      server.onMessage((message, agent) => agent.reply(`echo: ${message.text}`));
+      await converse(new RestSDK({ serverUrl, tenantId: 'tenant', apiKey: 'key', traffic }));
+    });
+
+    expect(fixture.entries).toHaveLength(1);
+    expect(fixture.entries[0].request).toMatchObject({ method: 'POST', path: '/api/user/rest/converse', query: { tenantId: 'tenant' } });
+    expect(fixture.entries[0].request.query.apikey).toBeUndefined();
+
+    const replayer = new TrafficReplayer(fixture);
+    const result = await converse(new RestSDK({ serverUrl, tenantId: 'tenant', apiKey: 'key', traffic: replayer }));
+
+    expect(result.data?.map(m => m.text)).toEqual(['echo: hi']);
+    expect(replayer.isDone).toBe(true);
+    await expect(converse(new RestSDK({ serverUrl, tenantId: 'tenant', apiKey: 'key', traffic: replayer })))
+      .resolves.toMatchObject({ success: false, error: expect.stringContaining('No recorded POST /api/user/rest/converse') });
+  });
+
+  it('replays streamed conversations with a fixed requestId', async () => {
+    const converse = async (sdk: RestSDK) => {
+      const texts: string[] = [];
+      for await (const message of sdk.converseStream({ ...thread, type: 'Chat', text: 'hi', requestId: 'r1' }, { idleTimeout: 50 })) {
+        texts.push(message.text!);
+      }
+      return texts;
+    };
+    const { serverUrl, fixture } = await record(async (serverUrl, traffic, server) => {
+      server.onMessage((message, agent) => agent.reply(`echo: ${message.text}`));
+      expect(await converse(new RestSDK({ serverUrl, tenantId: 'tenant', apiKey: 'key', traffic }))).toEqual(['echo: hi']);
+    });
+
+    expect(fixture.entries.map((entry: any) => entry.request.path)).toEqual(['/api/user/sse/events', '/api/user/rest/send']);
+    expect(await converse(new RestSDK({ serverUrl, tenantId: 'tenant', apiKey: 'key', traffic: new TrafficReplayer(fixture) }))).toEqual(['echo: hi']);
+  });
+
+  it('replays hub calls and the events that followed them', async () => {
+    const session = async (serverUrl: string, traffic: TrafficRecorder | TrafficReplayer) => {
+      const chats: string[] = [];
+      const sdk = new SocketSDK({ serverUrl, tenantId: 'tenant', apiKey: 'key', traffic, eventHandlers: { onReceiveChat: m => chats.push(m.text!) } });
+      await sdk.connect();
+      await sdk.sendInboundMessage({ ...thread, type: 'Chat', text: 'hello', authorization: 'secret' }, MessageType.Chat);
+      await vi.waitFor(() => expect(chats).toHaveLength(2));
+      await sdk.dispose();
+      return chats;
+    };
+    const { serverUrl, fixture } = await record(async (serverUrl, recorder, server) => {
+      server.onMessage((message, agent) => {
+        agent.reply(`echo: ${message.text}`);
+        agent.reply('anything else?');
+      });
+      await session(serverUrl, recorder);
+    });
+
+    const invoke = fixture.entries.find((entry: any) => entry.kind === 'invoke');
+    expect(invoke).toMatchObject({ method: 'SendInboundMessage', args: [{ text: 'hello', authorization: '[redacted]' }, 'Chat'] });
+
+    const replayer = new TrafficReplayer(fixture);
+    expect(await session(serverUrl, replayer)).toEqual(['echo: hello', 'anything else?']);
+    await replayer.whenDone(1000);
+  });
+
+  it('replays SSE streams', async () => {
+    const session = async (serverUrl: string, traffic: TrafficRecorder | TrafficReplayer, server?: MockXiansServer) => {
+      const chats: string[] = [];
+      const sdk = new SseSDK({ serverUrl, tenantId: 'tenant', apiKey: 'key', traffic, eventHandlers: { onReceiveChat: m => chats.push(m.text!) } });
+      await sdk.connect(thread);
+      await vi.waitFor(() => expect(sdk.isConnected()).toBe(true));
+      server?.agent(thread).reply('your order has shipped');
+      await vi.waitFor(() => expect(chats).toHaveLength(1));
+      sdk.dispose();
+      return chats;
+    };
+    const { serverUrl, fixture } = await record((serverUrl, recorder, server) => session(serverUrl, recorder, server).then(() => undefined));
+
+    expect(fixture.entries.map((entry: any) => [entry.transport, entry.kind, entry.stream])).toContainEqual(['sse', 'open', 'support|user-1|']);
+
+    const replayer = new TrafficReplayer(fixture);
+    expect(await session(serverUrl, replayer)).toEqual(['your order has shipped']);
+  });
+
+  it('names the entry a stuck replay is waiting for', async () => {
+    const replayer = new TrafficReplayer({
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      entries: [{ at: 0, transport: 'socket', kind: 'invoke', method: 'SubscribeToAgent', args: [] }]
+    });
+
+    await expect(replayer.whenDone(10)).rejects.toThrow('waiting for a SubscribeToAgent call');
+    expect(() => new TrafficReplayer('{"entries":[]}')).toThrow('Unsupported traffic fixture');
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SchemaRegistry, fromJsonSchema, fromZod, schema, JsonSchemaValidator } from '../core/schema';
+import { XiansValidationError } from '../core/errors';
+import { MessageProcessor } from '../core/MessageProcessor';
+import { MetadataMessageRouter } from '../core/MetadataMessageRouter';
+
+const orderUpdate = schema.object({
+  orderId: schema.string(),
+  status: schema.union(schema.literal('open'), schema.literal('shipped')),
+  items: schema.array(schema.object({ sku: schema.string(), quantity: schema.number() })),
+  note: schema.optional(schema.string())
+});
+
+describe('schema', () => {
+  it('should accept valid payloads and keep unknown properties', () => {
+    const result = orderUpdate.validate({ orderId: 'o-1', status: 'open', items: [{ sku: 'a', quantity: 2 }], messageType: 'OrderUpdate' });
+
+    expect(result).toEqual({
+      success: true,
+      data: { orderId: 'o-1', status: 'open', items: [{ sku: 'a', quantity: 2 }], messageType: 'OrderUpdate' }
+    });
+  });
+
+  it('should report every issue with its path', () => {
+    const result = orderUpdate.validate({ orderId: 1, status: 'lost', items: [{ sku: 'a', quantity: '2' }] });
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.issues.map(issue => issue.path)).toEqual(['orderId', 'status', 'items[0].quantity']);
+  });
+
+  it('should adapt zod-style schemas', () => {
+    const zodLike = {
+      safeParse: (value: unknown) => typeof value === 'string'
+        ? { success: true as const, data: value }
+        : { success: false as const, error: { issues: [{ path: ['items', 0, 'sku'], message: 'Required' }] } }
+    };
+
+    expect(fromZod(zodLike).validate('ok')).toEqual({ success: true, data: 'ok' });
+    expect(fromZod(zodLike).validate(1)).toEqual({ success: false, issues: [{ path: 'items[0].sku', message: 'Required' }] });
+  });
+
+  it('should adapt compiled JSON-schema validators', () => {
+    const validator: JsonSchemaValidator = Object.assign(
+      (value: unknown) => {
+        validator.errors = value === 1 ? null : [{ instancePath: '/items/0', message: 'must be number' }];
+        return value === 1;
+      },
+      { errors: null }
+    );
+
+    expect(fromJsonSchema<number>(validator).validate(1).success).toBe(true);
+    expect(fromJsonSchema<number>(validator).validate('x')).toEqual({
+      success: false,
+      issues: [{ path: 'items.0', message: 'must be number' }]
+    });
+  });
+});
+
+describe('SchemaRegistry', () => {
+  it('should pass payloads of unregistered types and throw for invalid registered ones', () => {
+    const registry = new SchemaRegistry();
+    registry.register('OrderUpdate', orderUpdate);
+
+    expect(registry.parse('Other', { anything: true })).toEqual({ anything: true });
+    expect(() => registry.parse('OrderUpdate', { orderId: 'o-1' })).toThrow(XiansValidationError);
+    try {
+      registry.parse('OrderUpdate', { orderId: 'o-1' });
+    } catch (error) {
+      expect((error as XiansValidationError).messageType).toBe('OrderUpdate');
+      expect((error as XiansValidationError).code).toBe('VALIDATION_ERROR');
+    }
+  });
+
+  it('should only remove the schema it registered', () => {
+    const registry = new SchemaRegistry();
+    const removeFirst = registry.register('OrderUpdate', schema.unknown());
+    registry.register('OrderUpdate', orderUpdate);
+
+    removeFirst();
+
+    expect(registry.has('OrderUpdate')).toBe(true);
+  });
+});
+
+describe('MessageProcessor data validation', () => {
+  it('should route valid payloads and send invalid ones to onInvalidData', () => {
+    const router = new MetadataMessageRouter();
+    const registry = new SchemaRegistry();
+    registry.register('OrderUpdate', orderUpdate);
+    const onInvalidData = vi.fn();
+    const processor = new MessageProcessor({ onChatMessage: vi.fn(), onThreadUpdate: vi.fn(), onError: vi.fn(), onInvalidData }, router, registry);
+    const received = vi.fn();
+    router.subscribe({ id: 'orders', messageTypes: ['OrderUpdate'], callback: received });
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    processor.processMetadata({ messageType: 'Data', data: { messageType: 'OrderUpdate', orderId: 'o-1', status: 'shipped', items: [] } });
+    processor.processMetadata({ messageType: 'Data', data: { messageType: 'OrderUpdate', orderId: 'o-2', status: 'lost', items: [] } });
+
+    expect(received).toHaveBeenCalledTimes(1);
+    expect(received.mock.calls[0][0]).toMatchObject({ messageType: 'OrderUpdate', orderId: 'o-1' });
+    expect(onInvalidData).toHaveBeenCalledTimes(1);
+    expect(onInvalidData.mock.calls[0][0].issues).toEqual([expect.objectContaining({ path: 'status' })]);
+  });
+});
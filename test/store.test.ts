@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import SocketSDK from '../SocketSDK';
+import type { AgentSDK, ChatMessageData } from '../AgentSDK';
+import { ConnectionState, MessageType } from '../types';
+import { AgentStore, SocketStore } from '../core/store';
+import type { SocketStoreSnapshot } from '../core/store';
+import { MockXiansServer } from '../testing';
+
+const thread = { workflow: 'support', participantId: 'user-1' };
+
+describe('SocketStore', () => {
+  let server: MockXiansServer;
+  let sdk: SocketSDK;
+  let store: SocketStore;
+
+  beforeEach(async () => {
+    server = new MockXiansServer({ tenantId: 'tenant', apiKey: 'key' });
+    const serverUrl = await server.start();
+    sdk = new SocketSDK({ serverUrl, tenantId: 'tenant', apiKey: 'key', offlineQueue: true });
+    store = new SocketStore(sdk);
+  });
+
+  afterEach(async () => {
+    store.dispose();
+    await sdk.dispose();
+    await server.stop();
+  });
+
+  it('tracks the connection and collects messages per workflow', async () => {
+    const initial = store.getSnapshot();
+    expect(initial.connectionState).toBe(ConnectionState.Disconnected);
+
+    await sdk.connect();
+    await sdk.subscribeToAgent(thread.workflow, thread.participantId);
+    server.agent(thread).reply('hello');
+    await vi.waitFor(() => expect(store.getSnapshot().messages.support).toHaveLength(1));
+
+    const snapshot = store.getSnapshot();
+    expect(snapshot.connectionState).toBe(ConnectionState.Connected);
+    expect(snapshot.messages.support[0].text).toBe('hello');
+    expect(Object.isFrozen(snapshot.messages.support)).toBe(true);
+    expect(initial.connectionState).toBe(ConnectionState.Disconnected);
+
+    // The same message from history is kept once and leaves the snapshot unchanged
+    await sdk.getThreadHistory(thread.workflow, thread.participantId, 0, 10);
+    expect(store.getSnapshot()).toBe(snapshot);
+  });
+
+  it('lists sends waiting in the offline queue', async () => {
+    const snapshots: SocketStoreSnapshot[] = [];
+    store.subscribe(snapshot => snapshots.push(snapshot));
+
+    await sdk.sendInboundMessage({ ...thread, type: 'Chat', text: 'while offline' }, MessageType.Chat);
+
+    expect(store.getSnapshot().pendingSends).toMatchObject([{ status: 'queued', payload: { text: 'while offline' } }]);
+    expect(snapshots.length).toBeGreaterThan(0);
+
+    await sdk.connect();
+    await vi.waitFor(() => expect(store.getSnapshot().pendingSends).toEqual([]));
+    expect(server.messages.map(m => m.text)).toEqual(['while offline']);
+  });
+});
+
+describe('AgentStore', () => {
+  function createSdk() {
+    const handlers = new Map<string, (event: any) => void>();
+    let chat: (message: ChatMessageData) => void = () => undefined;
+    const queued: any[] = [];
+    const sdk = {
+      on: (event: string, handler: (event: any) => void) => {
+        handlers.set(event, handler);
+        return () => handlers.delete(event);
+      },
+      subscribeToChatMessages: (callback: (message: ChatMessageData) => void) => {
+        chat = callback;
+        return () => { chat = () => undefined; };
+      },
+      getQueuedMessages: () => queued.map(message => ({ ...message }))
+    };
+    return {
+      sdk: sdk as unknown as AgentSDK,
+      emit: (event: string, data: any) => handlers.get(event)?.(data),
+      chat: (message: Partial<ChatMessageData>) => chat({ workflowId: 'support', text: '', direction: 'Outgoing', timestamp: new Date(), threadId: 't1', isHistorical: false, ...message }),
+      queued,
+      handlers
+    };
+  }
+
+  it('keeps connection states, chat messages and pending sends per workflow', () => {
+    const fake = createSdk();
+    const store = new AgentStore(fake.sdk);
+
+    fake.emit('connection_change', { workflowId: 'support', data: { status: 'connected' } });
+    fake.chat({ text: 'hi' });
+    fake.chat({ workflowId: 'billing', text: 'invoice' });
+    fake.queued.push({ requestId: 'r1', status: 'queued' });
+    fake.emit('queue_change', { workflowId: 'support', data: fake.queued[0] });
+
+    const snapshot = store.getSnapshot();
+    expect(snapshot.connections.support.status).toBe('connected');
+    expect(snapshot.messages.support.map(m => m.text)).toEqual(['hi']);
+    expect(snapshot.messages.billing.map(m => m.text)).toEqual(['invoice']);
+    expect(snapshot.pendingSends).toEqual([{ requestId: 'r1', status: 'queued' }]);
+
+    store.dispose();
+    expect(fake.handlers.size).toBe(0);
+    fake.chat({ text: 'after dispose' });
+    expect(store.getSnapshot()).toBe(snapshot);
+  });
+
+  it('is an interop Observable', async () => {
+    const fake = createSdk();
+    const store = new AgentStore(fake.sdk);
+    const values: unknown[] = [];
+
+    const observable = store['@@observable']();
+    const subscription = observable.subscribe({ next: value => values.push(value) });
+    fake.chat({ text: 'hi' });
+    subscription.unsubscribe();
+    fake.chat({ text: 'unseen' });
+
+    expect(values).toHaveLength(2);
+    expect(values[0]).not.toBe(values[1]);
+    expect(subscription.closed).toBe(true);
+    expect(observable['@@observable']()).toBe(observable);
+  });
+
+  it('uses Symbol.observable where a library defines it', async () => {
+    const observable = Symbol('observable');
+    (Symbol as any).observable = observable;
+    try {
+      vi.resetModules();
+      const { AgentStore: FreshAgentStore } = await import('../core/store');
+      const store = new FreshAgentStore(createSdk().sdk) as any;
+
+      const values: unknown[] = [];
+      store[observable]().subscribe((value: unknown) => values.push(value));
+
+      expect(values).toEqual([store.getSnapshot()]);
+    } finally {
+      delete (Symbol as any).observable;
+    }
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { InMemoryTracer, Span, SpanStatusCode, traceparentOf, traced } from '../core/tracing';
+
+describe('tracing', () => {
+  it('should format the traceparent of a span', () => {
+    const span = { spanContext: () => ({ traceId: 'a'.repeat(32), spanId: 'b'.repeat(16), traceFlags: 1 }) } as Span;
+
+    expect(traceparentOf(span)).toBe(`00-${'a'.repeat(32)}-${'b'.repeat(16)}-01`);
+  });
+
+  it('should not propagate spans without a valid trace id', () => {
+    const span = { spanContext: () => ({ traceId: '0'.repeat(32), spanId: '0'.repeat(16), traceFlags: 0 }) } as Span;
+
+    expect(traceparentOf(span)).toBeUndefined();
+    expect(traceparentOf(undefined)).toBeUndefined();
+  });
+
+  it('should end the span and record a thrown error', async () => {
+    const tracer = new InMemoryTracer();
+
+    await expect(traced(tracer, 'op', { attributes: { key: 'value', skipped: undefined } }, async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    const [span] = tracer.getFinishedSpans();
+    expect(span.attributes).toEqual({ key: 'value' });
+    expect(span.status).toEqual({ code: SpanStatusCode.ERROR, message: 'boom' });
+    expect(span.exceptions).toHaveLength(1);
+  });
+
+  it('should run without a span when there is no tracer', async () => {
+    const result = await traced(undefined, 'op', {}, async span => span);
+
+    expect(result).toBeUndefined();
+  });
+
+  it('should keep open spans out of the finished list', () => {
+    const tracer = new InMemoryTracer();
+    const open = tracer.startSpan('open');
+    tracer.startSpan('done').end();
+
+    expect(tracer.getFinishedSpans().map(span => span.name)).toEqual(['done']);
+    expect(tracer.getSpans()).toHaveLength(2);
+
+    open.end();
+    tracer.reset();
+    expect(tracer.getSpans()).toEqual([]);
+  });
+});
@@ -0,0 +1,834 @@
+/*
+ * In-process stand-in for a XiansAi server, so SocketSDK, SseSDK, RestSDK and AgentSDK can be tested
+ * without a network. Node only: it listens on a local port and serves the SignalR hub at /ws/chat
+ * (JSON protocol over WebSockets), the SSE stream at /api/user/sse/events and the REST endpoints
+ * under /api/user/rest. Agent behaviour is scripted by the test.
+ */
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Duplex } from 'node:stream';
+import type { Message } from '../types';
+import { acceptWebSocket, rejectUpgrade, ServerWebSocket } from './websocket';
+
+const HUB_PATH = '/ws/chat';
+const RECORD_SEPARATOR = '\x1e';
+
+// SignalR hub protocol message types
+const INVOCATION = 1;
+const COMPLETION = 3;
+const PING = 6;
+const CLOSE = 7;
+
+// AgentSDK still listens to ReceiveMessage and ReceiveMetadata; SocketSDK ignores them
+const HUB_EVENTS: Record<string, string[]> = {
+  Chat: ['ReceiveChat', 'ReceiveMessage'],
+  Data: ['ReceiveData', 'ReceiveMetadata'],
+  Handoff: ['ReceiveHandoff', 'ReceiveMessage']
+};
+
+export interface MockXiansServerOptions {
+  /**
+   * Port to listen on (default: any free port)
+   */
+  port?: number;
+
+  /**
+   * Interface to listen on (default: 127.0.0.1)
+   */
+  host?: string;
+
+  /**
+   * Only this tenant is accepted when set; other tenants get 403
+   */
+  tenantId?: string;
+
+  /**
+   * API key the server accepts. Without apiKey and jwtToken every request is accepted
+   */
+  apiKey?: string;
+
+  /**
+   * Bearer token the server accepts
+   */
+  jwtToken?: string;
+
+  /**
+   * Interval of the SignalR keep-alive pings in milliseconds (default: 15000)
+   */
+  keepAliveInterval?: number;
+}
+
+/**
+ * A conversation between one participant and one workflow
+ */
+export interface MockThread {
+  workflow: string;
+  participantId: string;
+  scope?: string;
+  tenantId?: string;
+}
+
+/**
+ * A message sent to the server by one of the SDKs
+ */
+export interface MockInboundMessage extends MockThread {
+  transport: 'socket' | 'rest';
+  /**
+   * `converse` for rest/converse, `send` for every other send
+   */
+  operation: 'send' | 'converse';
+  /**
+   * Chat, Data or Handoff
+   */
+  type: string;
+  tenantId: string;
+  text?: string;
+  data?: any;
+  hint?: string;
+  requestId?: string;
+  authorization?: string;
+  /**
+   * The request as it was received
+   */
+  raw: Record<string, any>;
+}
+
+/**
+ * Answers a message on behalf of the agent. Messages sent through `agent` carry the request's requestId.
+ * Throwing fails the send: the hub call rejects, and REST calls get a 500 with the error message
+ */
+export type MockScript = (message: MockInboundMessage, agent: MockAgent) => void | Promise<void>;
+
+export interface MockScriptFilter {
+  workflow?: string;
+  type?: string;
+}
+
+/**
+ * Operations that can be made to fail: the REST endpoints, the SSE stream, SignalR negotiation and hub methods
+ */
+export type MockOperation =
+  | 'send'
+  | 'converse'
+  | 'history'
+  | 'sse'
+  | 'negotiate'
+  | 'SendInboundMessage'
+  | 'SubscribeToAgent'
+  | 'UnsubscribeFromAgent'
+  | 'GetThreadHistory'
+  | 'GetScopedThreadHistory'
+  | 'DeleteThread';
+
+export interface MockFailure {
+  /**
+   * HTTP status for REST, SSE and negotiation failures (default: 500)
+   */
+  status?: number;
+  message?: string;
+  /**
+   * How many calls fail (default: 1)
+   */
+  times?: number;
+}
+
+export interface MockHubInvocation {
+  method: string;
+  args: unknown[];
+  connectionId: string;
+}
+
+/**
+ * Sends agent messages into a thread
+ */
+export class MockAgent {
+  constructor(
+    readonly thread: MockThread,
+    private push: (messageType: string, fields: Partial<Message>) => Message
+  ) {}
+
+  reply(text: string, fields: Partial<Message> = {}): Message {
+    return this.push('Chat', { text, ...fields });
+  }
+
+  sendData(data: unknown, fields: Partial<Message> = {}): Message {
+    return this.push('Data', { data, ...fields });
+  }
+
+  handoff(text?: string, fields: Partial<Message> = {}): Message {
+    return this.push('Handoff', { text, ...fields });
+  }
+}
+
+interface HubClient {
+  id: string;
+  socket: ServerWebSocket;
+  tenantId: string;
+  handshakeDone: boolean;
+  threads: Set<string>;
+  keepAlive: ReturnType<typeof setInterval>;
+}
+
+interface SseClient {
+  response: ServerResponse;
+  thread: string;
+  scope?: string;
+  heartbeat?: ReturnType<typeof setInterval>;
+}
+
+interface SentEvent {
+  id: number;
+  thread: string;
+  message: Message;
+}
+
+interface PendingFailure {
+  status: number;
+  message: string;
+  remaining: number;
+}
+
+/**
+ * Local server that behaves like the XiansAi user endpoints, for tests.
+ * Messages sent to it are recorded and handed to the scripts registered with onMessage;
+ * agent messages reach every socket subscribed to the thread and every SSE stream open on it
+ */
+export class MockXiansServer {
+  private server: Server | null = null;
+  private baseUrl: string | null = null;
+  private hubClients = new Set<HubClient>();
+  private sseClients = new Set<SseClient>();
+  private scripts: { script: MockScript; filter: MockScriptFilter }[] = [];
+  private failures = new Map<MockOperation, PendingFailure>();
+  private histories = new Map<string, Message[]>();
+  private sentEvents: SentEvent[] = [];
+  private received: MockInboundMessage[] = [];
+  private hubInvocations: MockHubInvocation[] = [];
+  private waiters: { predicate: (message: MockInboundMessage) => boolean; resolve: (message: MockInboundMessage) => void }[] = [];
+  private sequence = 0;
+
+  constructor(private options: MockXiansServerOptions = {}) {}
+
+  /**
+   * Starts listening. Resolves with the server URL to use as `serverUrl`
+   */
+  async start(): Promise<string> {
+    if (this.baseUrl) {
+      return this.baseUrl;
+    }
+
+    const host = this.options.host ?? '127.0.0.1';
+    const server = createServer((request, response) => {
+      this.handleRequest(request, response).catch(error => {
+        if (!response.headersSent) {
+          respondError(response, 500, messageOf(error));
+        } else {
+          response.destroy();
+        }
+      });
+    });
+    server.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => this.handleUpgrade(request, socket, head));
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? 0, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    this.baseUrl = `http://${host}:${(server.address() as AddressInfo).port}`;
+    return this.baseUrl;
+  }
+
+  /**
+   * Drops every connection and stops listening
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.disconnect();
+    this.server = null;
+    this.baseUrl = null;
+    await new Promise<void>(resolve => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  get url(): string {
+    if (!this.baseUrl) {
+      throw new Error('MockXiansServer is not started');
+    }
+    return this.baseUrl;
+  }
+
+  /**
+   * Full hub URL, e.g. for AgentSDK's agentWebsocketUrl
+   */
+  get hubUrl(): string {
+    return `${this.url}${HUB_PATH}`;
+  }
+
+  /**
+   * Open connections by transport
+   */
+  get connections(): { socket: number; sse: number } {
+    return { socket: this.hubClients.size, sse: this.sseClients.size };
+  }
+
+  /**
+   * Every message received so far, oldest first
+   */
+  get messages(): MockInboundMessage[] {
+    return [...this.received];
+  }
+
+  /**
+   * Every hub method call received so far, oldest first
+   */
+  get invocations(): MockHubInvocation[] {
+    return [...this.hubInvocations];
+  }
+
+  /**
+   * Runs `script` for each received message that matches `filter`. Returns a function that removes it
+   */
+  onMessage(script: MockScript, filter: MockScriptFilter = {}): () => void {
+    const entry = { script, filter };
+    this.scripts.push(entry);
+    return () => {
+      this.scripts = this.scripts.filter(existing => existing !== entry);
+    };
+  }
+
+  /**
+   * Agent for a thread, for messages that are not a reply to a request
+   */
+  agent(thread: MockThread): MockAgent {
+    return this.createAgent(thread);
+  }
+
+  /**
+   * Makes the next call(s) of an operation fail
+   */
+  failNext(operation: MockOperation, failure: MockFailure = {}): void {
+    this.failures.set(operation, {
+      status: failure.status ?? 500,
+      message: failure.message ?? `Mock ${operation} failure`,
+      remaining: failure.times ?? 1
+    });
+  }
+
+  /**
+   * Sends a hub Error event to every socket, or a ConnectionError when a status code is given
+   */
+  sendHubError(message: string, statusCode?: number): void {
+    this.hubClients.forEach(client => {
+      if (statusCode === undefined) {
+        this.sendHubEvent(client, 'Error', message);
+      } else {
+        this.sendHubEvent(client, 'ConnectionError', { statusCode, message });
+      }
+    });
+  }
+
+  /**
+   * Drops open connections without closing them cleanly, so the SDKs see a network failure and reconnect
+   */
+  disconnect(transport?: 'socket' | 'sse'): void {
+    if (transport !== 'sse') {
+      [...this.hubClients].forEach(client => client.socket.terminate());
+    }
+    if (transport !== 'socket') {
+      [...this.sseClients].forEach(client => {
+        this.sseClients.delete(client);
+        client.response.destroy();
+      });
+    }
+  }
+
+  /**
+   * Messages stored for a thread, oldest first
+   */
+  getHistory(thread: MockThread): Message[] {
+    return [...(this.histories.get(threadKey(thread.workflow, thread.participantId)) ?? [])]
+      .filter(message => thread.scope === undefined || message.scope === thread.scope);
+  }
+
+  /**
+   * Resolves with the first received message that matches, waiting for one if none has arrived yet
+   */
+  waitForMessage(
+    predicate: (message: MockInboundMessage) => boolean = () => true,
+    timeoutMs = 5000
+  ): Promise<MockInboundMessage> {
+    const existing = this.received.find(predicate);
+    if (existing) {
+      return Promise.resolve(existing);
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter = {
+        predicate,
+        resolve: (message: MockInboundMessage) => {
+          clearTimeout(timer);
+          resolve(message);
+        }
+      };
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter(entry => entry !== waiter);
+        reject(new Error(`No matching message within ${timeoutMs}ms`));
+      }, timeoutMs);
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Forgets scripts, failures, history and recorded calls. Open connections stay open
+   */
+  reset(): void {
+    this.scripts = [];
+    this.failures.clear();
+    this.histories.clear();
+    this.sentEvents = [];
+    this.received = [];
+    this.hubInvocations = [];
+    this.hubClients.forEach(client => client.threads.clear());
+  }
+
+  private async handleRequest(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const url = new URL(request.url ?? '/', this.url);
+    const route = ROUTES[`${request.method} ${url.pathname}`];
+    if (!route) {
+      respondError(response, 404, `No route for ${request.method} ${url.pathname}`);
+      return;
+    }
+
+    const rejection = this.checkAccess(request, url) ?? this.takeFailure(route);
+    if (rejection) {
+      respondError(response, rejection.status, rejection.message);
+      return;
+    }
+
+    switch (route) {
+      case 'negotiate': {
+        const connectionId = this.nextId('connection');
+        respondJson(response, 200, {
+          negotiateVersion: 1,
+          connectionId,
+          connectionToken: connectionId,
+          availableTransports: [{ transport: 'WebSockets', transferFormats: ['Text', 'Binary'] }]
+        });
+        return;
+      }
+      case 'sse':
+        this.openEventStream(request, url, response);
+        return;
+      case 'send':
+      case 'converse':
+        await this.handleRestMessage(route, request, url, response);
+        return;
+      case 'history': {
+        const workflow = url.searchParams.get('workflow') ?? '';
+        const participantId = url.searchParams.get('participantId') ?? '';
+        const page = Number(url.searchParams.get('page') ?? 1);
+        const pageSize = Number(url.searchParams.get('pageSize') ?? 50);
+        // REST pages start at 1
+        respondJson(response, 200, this.historyPage(workflow, participantId, url.searchParams.get('scope') ?? undefined, page - 1, pageSize));
+        return;
+      }
+    }
+  }
+
+  private async handleRestMessage(
+    operation: 'send' | 'converse',
+    request: IncomingMessage,
+    url: URL,
+    response: ServerResponse
+  ): Promise<void> {
+    const body = await readJson(request);
+    const query = Object.fromEntries(url.searchParams);
+    const message = this.receive(this.toInbound('rest', operation, { ...query, ...body }, undefined, query.tenantId));
+
+    if (operation === 'send') {
+      try {
+        await this.runScripts(message);
+        respondJson(response, 200, { requestId: message.requestId });
+      } catch (error) {
+        respondError(response, 500, messageOf(error));
+      }
+      return;
+    }
+
+    const replies: Message[] = [];
+    try {
+      await this.runScripts(message, reply => replies.push(reply));
+      respondJson(response, 200, replies);
+    } catch (error) {
+      respondError(response, 500, messageOf(error));
+    }
+  }
+
+  private openEventStream(request: IncomingMessage, url: URL, response: ServerResponse): void {
+    const workflow = url.searchParams.get('workflow');
+    const participantId = url.searchParams.get('participantId');
+    if (!workflow || !participantId) {
+      respondError(response, 400, 'workflow and participantId are required');
+      return;
+    }
+
+    response.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+
+    const client: SseClient = {
+      response,
+      thread: threadKey(workflow, participantId),
+      scope: url.searchParams.get('scope') ?? undefined
+    };
+    this.sseClients.add(client);
+    response.on('close', () => {
+      clearInterval(client.heartbeat);
+      this.sseClients.delete(client);
+    });
+
+    writeEvent(response, 'connected', { workflow, participantId, timestamp: new Date().toISOString() });
+
+    // Resuming: send what the stream missed
+    const lastEventId = Number(request.headers['last-event-id'] ?? url.searchParams.get('lastEventId'));
+    if (lastEventId > 0) {
+      this.sentEvents
+        .filter(event => event.id > lastEventId && this.streamWants(client, event))
+        .forEach(event => writeEvent(response, event.message.messageType!, event.message, event.id));
+    }
+
+    const heartbeatSeconds = Number(url.searchParams.get('heartbeatSeconds'));
+    if (heartbeatSeconds > 0) {
+      client.heartbeat = setInterval(() => {
+        writeEvent(response, 'heartbeat', {
+          timestamp: new Date().toISOString(),
+          subscriberCount: [...this.sseClients].filter(other => other.thread === client.thread).length
+        });
+      }, heartbeatSeconds * 1000);
+    }
+  }
+
+  private handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const url = new URL(request.url ?? '/', this.url);
+    if (url.pathname !== HUB_PATH) {
+      rejectUpgrade(socket, 404, 'Not Found');
+      return;
+    }
+    const rejection = this.checkAccess(request, url);
+    if (rejection) {
+      rejectUpgrade(socket, rejection.status, rejection.message);
+      return;
+    }
+
+    const webSocket = acceptWebSocket(request, socket, head);
+    const client: HubClient = {
+      id: url.searchParams.get('id') ?? this.nextId('connection'),
+      socket: webSocket,
+      tenantId: url.searchParams.get('tenantId') ?? '',
+      handshakeDone: false,
+      threads: new Set(),
+      keepAlive: setInterval(() => this.sendHub(client, { type: PING }), this.options.keepAliveInterval ?? 15000)
+    };
+    this.hubClients.add(client);
+
+    webSocket.onMessage(text => this.receiveHubFrames(client, text));
+    webSocket.onClose(() => {
+      clearInterval(client.keepAlive);
+      this.hubClients.delete(client);
+    });
+  }
+
+  private receiveHubFrames(client: HubClient, text: string): void {
+    for (const frame of text.split(RECORD_SEPARATOR)) {
+      if (!frame) continue;
+      const message = JSON.parse(frame);
+
+      if (!client.handshakeDone) {
+        client.handshakeDone = true;
+        if (message.protocol !== 'json') {
+          this.sendHub(client, { error: `Protocol '${message.protocol}' is not supported` });
+          client.socket.close();
+          return;
+        }
+        this.sendHub(client, {});
+        continue;
+      }
+
+      if (message.type === INVOCATION) {
+        void this.handleInvocation(client, message.target, message.arguments ?? [], message.invocationId);
+      } else if (message.type === CLOSE) {
+        client.socket.close();
+      }
+      // Pings need no answer
+    }
+  }
+
+  private async handleInvocation(client: HubClient, method: string, args: any[], invocationId?: string): Promise<void> {
+    this.hubInvocations.push({ method, args, connectionId: client.id });
+    const complete = (error?: string) => {
+      if (invocationId) {
+        this.sendHub(client, error ? { type: COMPLETION, invocationId, error } : { type: COMPLETION, invocationId });
+      }
+    };
+
+    const failure = this.takeFailure(method as MockOperation);
+    if (failure) {
+      complete(failure.message);
+      return;
+    }
+
+    try {
+      switch (method) {
+        case 'SendInboundMessage': {
+          const [request, messageType] = args;
+          const message = this.receive(this.toInbound('socket', 'send', request ?? {}, messageType, client.tenantId));
+          // Sending joins the thread, so the sender gets the replies without subscribing first
+          client.threads.add(threadKey(message.workflow, message.participantId));
+          this.sendHubEvent(client, 'InboundProcessed', threadKey(message.workflow, message.participantId));
+          await this.runScripts(message);
+          break;
+        }
+        case 'SubscribeToAgent':
+          client.threads.add(threadKey(args[0], args[1]));
+          break;
+        case 'UnsubscribeFromAgent':
+          client.threads.delete(threadKey(args[0], args[1]));
+          break;
+        case 'GetThreadHistory':
+        case 'GetScopedThreadHistory': {
+          const [workflow, participantId, page = 0, pageSize = 50, scope] = args;
+          // Hub pages start at 0
+          this.sendHubEvent(client, 'ThreadHistory', this.historyPage(workflow, participantId, scope, page, pageSize));
+          break;
+        }
+        case 'DeleteThread':
+          this.histories.delete(threadKey(args[0], args[1]));
+          break;
+        default:
+          complete(`Method '${method}' does not exist`);
+          return;
+      }
+      complete();
+    } catch (error) {
+      complete(messageOf(error));
+    }
+  }
+
+  private toInbound(
+    transport: 'socket' | 'rest',
+    operation: 'send' | 'converse',
+    request: Record<string, any>,
+    messageType: string | undefined,
+    tenantId: string
+  ): MockInboundMessage {
+    return {
+      transport,
+      operation,
+      // AgentSDK sends workflowType instead of workflow
+      workflow: request.workflow ?? request.workflowType ?? request.workflowId ?? '',
+      participantId: request.participantId ?? '',
+      scope: request.scope,
+      tenantId,
+      type: messageType ?? request.type ?? 'Chat',
+      text: request.text,
+      data: request.data,
+      hint: request.hint,
+      requestId: request.requestId,
+      authorization: request.authorization,
+      raw: request
+    };
+  }
+
+  /**
+   * Records a received message in the log and its thread's history
+   */
+  private receive(message: MockInboundMessage): MockInboundMessage {
+    this.received.push(message);
+    this.historyOf(message.workflow, message.participantId).push({
+      ...this.messageFields(message),
+      direction: 'Incoming',
+      messageType: message.type,
+      text: message.text,
+      data: message.data,
+      hint: message.hint,
+      requestId: message.requestId
+    });
+
+    const matched = this.waiters.filter(waiter => waiter.predicate(message));
+    this.waiters = this.waiters.filter(waiter => !matched.includes(waiter));
+    matched.forEach(waiter => waiter.resolve(message));
+    return message;
+  }
+
+  private async runScripts(message: MockInboundMessage, onReply?: (reply: Message) => void): Promise<void> {
+    const agent = this.createAgent(message, message.requestId, onReply);
+    for (const { script, filter } of [...this.scripts]) {
+      if (filter.workflow !== undefined && filter.workflow !== message.workflow) continue;
+      if (filter.type !== undefined && filter.type !== message.type) continue;
+      await script(message, agent);
+    }
+  }
+
+  private createAgent(thread: MockThread, requestId?: string, onReply?: (reply: Message) => void): MockAgent {
+    return new MockAgent(thread, (messageType, fields) => {
+      const message: Message = {
+        ...this.messageFields(thread),
+        direction: 'Outgoing',
+        messageType,
+        ...(requestId !== undefined && { requestId }),
+        ...fields
+      };
+      this.deliver(message);
+      onReply?.(message);
+      return message;
+    });
+  }
+
+  private messageFields(thread: MockThread): Pick<Message, 'id' | 'createdAt' | 'participantId' | 'workflowId' | 'workflowType' | 'scope'> {
+    const tenantId = thread.tenantId || this.options.tenantId || 'default';
+    return {
+      id: this.nextId('message'),
+      createdAt: new Date().toISOString(),
+      participantId: thread.participantId,
+      workflowId: `${tenantId}:${thread.workflow}`,
+      workflowType: thread.workflow,
+      ...(thread.scope !== undefined && { scope: thread.scope })
+    };
+  }
+
+  /**
+   * Stores an agent message and sends it to the sockets and streams on its thread
+   */
+  private deliver(message: Message): void {
+    const thread = threadKey(message.workflowType, message.participantId);
+    this.historyOf(message.workflowType, message.participantId).push(message);
+
+    const event: SentEvent = { id: ++this.sequence, thread, message };
+    this.sentEvents.push(event);
+
+    this.hubClients.forEach(client => {
+      if (client.threads.has(thread)) {
+        (HUB_EVENTS[message.messageType!] ?? HUB_EVENTS.Chat).forEach(name => this.sendHubEvent(client, name, message));
+      }
+    });
+    this.sseClients.forEach(client => {
+      if (this.streamWants(client, event)) {
+        writeEvent(client.response, message.messageType!, message, event.id);
+      }
+    });
+  }
+
+  private streamWants(client: SseClient, event: SentEvent): boolean {
+    return client.thread === event.thread && (client.scope === undefined || client.scope === event.message.scope);
+  }
+
+  private historyOf(workflow: string, participantId: string): Message[] {
+    const key = threadKey(workflow, participantId);
+    let history = this.histories.get(key);
+    if (!history) {
+      history = [];
+      this.histories.set(key, history);
+    }
+    return history;
+  }
+
+  /**
+   * One page of a thread's history, newest first. `index` counts from 0
+   */
+  private historyPage(workflow: string, participantId: string, scope: string | undefined, index: number, pageSize: number): Message[] {
+    const newestFirst = this.getHistory({ workflow, participantId, scope }).reverse();
+    return newestFirst.slice(index * pageSize, (index + 1) * pageSize);
+  }
+
+  private checkAccess(request: IncomingMessage, url: URL): { status: number; message: string } | null {
+    const tenantId = url.searchParams.get('tenantId');
+    if (!tenantId) {
+      return { status: 400, message: 'tenantId is required' };
+    }
+    if (this.options.tenantId && tenantId !== this.options.tenantId) {
+      return { status: 403, message: `Tenant ${tenantId} is not allowed` };
+    }
+
+    const { apiKey, jwtToken } = this.options;
+    if (!apiKey && !jwtToken) {
+      return null;
+    }
+    const token = /^Bearer (.+)$/.exec(request.headers.authorization ?? '')?.[1] ?? url.searchParams.get('access_token');
+    // AgentSDK sends its API key as access_token
+    const accepted = (apiKey && (url.searchParams.get('apikey') === apiKey || token === apiKey)) || (jwtToken && token === jwtToken);
+    return accepted ? null : { status: 401, message: 'Unauthorized' };
+  }
+
+  private takeFailure(operation: MockOperation): PendingFailure | null {
+    const failure = this.failures.get(operation);
+    if (!failure) {
+      return null;
+    }
+    if (--failure.remaining <= 0) {
+      this.failures.delete(operation);
+    }
+    return failure;
+  }
+
+  private sendHub(client: HubClient, message: object): void {
+    client.socket.send(`${JSON.stringify(message)}${RECORD_SEPARATOR}`);
+  }
+
+  private sendHubEvent(client: HubClient, target: string, ...args: unknown[]): void {
+    this.sendHub(client, { type: INVOCATION, target, arguments: args });
+  }
+
+  private nextId(prefix: string): string {
+    return `${prefix}-${++this.sequence}`;
+  }
+}
+
+const ROUTES: Record<string, MockOperation> = {
+  [`POST ${HUB_PATH}/negotiate`]: 'negotiate',
+  'GET /api/user/sse/events': 'sse',
+  'POST /api/user/rest/send': 'send',
+  'POST /api/user/rest/converse': 'converse',
+  'GET /api/user/rest/history': 'history'
+};
+
+function threadKey(workflow: string, participantId: string): string {
+  return `${workflow}|${participantId}`;
+}
+
+function writeEvent(response: ServerResponse, event: string, data: unknown, id?: number): void {
+  if (response.destroyed) return;
+  response.write(`${id !== undefined ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+function respondJson(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+function respondError(response: ServerResponse, status: number, message: string): void {
+  respondJson(response, status, { message });
+}
+
+async function readJson(request: IncomingMessage): Promise<Record<string, any>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  return text ? JSON.parse(text) : {};
+}
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,24 @@
+/*
+ * Reading and writing traffic fixture files
+ */
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { TrafficReplayer } from '../core/recording';
+import type { TrafficFixture, TrafficRecorder } from '../core/recording';
+
+/**
+ * Writes a recording to a JSON fixture file, creating its directory if needed
+ */
+export async function saveTrafficFixture(path: string, recording: TrafficRecorder | TrafficFixture): Promise<void> {
+  // Not instanceof: this entry point is bundled with its own copy of TrafficRecorder
+  const fixture = 'toFixture' in recording ? recording.toFixture() : recording;
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(fixture, null, 2) + '\n', 'utf8');
+}
+
+/**
+ * Reads a fixture file into a replayer
+ */
+export async function loadTrafficFixture(path: string): Promise<TrafficReplayer> {
+  return new TrafficReplayer(await readFile(path, 'utf8'));
+}
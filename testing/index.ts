@@ -0,0 +1,22 @@
+/**
+ * Test helpers for the XiansAi SDK (Node only)
+ * Import from `@99xio/xians-sdk-typescript/testing`
+ */
+
+// Export mock server types
+export type {
+  MockXiansServerOptions,
+  MockThread,
+  MockInboundMessage,
+  MockScript,
+  MockScriptFilter,
+  MockOperation,
+  MockFailure,
+  MockHubInvocation
+} from './MockXiansServer';
+
+// Export mock server
+export { MockXiansServer, MockAgent } from './MockXiansServer';
+
+// Export traffic fixture files
+export { saveTrafficFixture, loadTrafficFixture } from './fixtures';
@@ -0,0 +1,195 @@
+/*
+ * Server side of a WebSocket connection (RFC 6455), just enough for the SignalR JSON protocol
+ * spoken by the SDKs: text frames, fragmentation, ping/pong and the close handshake.
+ */
+import { createHash } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+
+const ACCEPT_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+enum Opcode {
+  Continuation = 0x0,
+  Text = 0x1,
+  Binary = 0x2,
+  Close = 0x8,
+  Ping = 0x9,
+  Pong = 0xa
+}
+
+interface Frame {
+  fin: boolean;
+  opcode: number;
+  payload: Buffer;
+  size: number;
+}
+
+export class ServerWebSocket {
+  private buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private closed = false;
+  private closeHandlers: (() => void)[] = [];
+  private messageHandlers: ((text: string) => void)[] = [];
+
+  constructor(private socket: Duplex, head?: Buffer) {
+    socket.on('data', (chunk: Buffer) => this.receive(chunk));
+    socket.on('close', () => this.finish());
+    socket.on('error', () => this.finish());
+    // Bytes that arrived with the upgrade request, handled once the caller has added its handlers
+    if (head && head.length > 0) {
+      queueMicrotask(() => this.receive(head));
+    }
+  }
+
+  get isOpen(): boolean {
+    return !this.closed;
+  }
+
+  onMessage(handler: (text: string) => void): void {
+    this.messageHandlers.push(handler);
+  }
+
+  onClose(handler: () => void): void {
+    this.closeHandlers.push(handler);
+  }
+
+  send(text: string): void {
+    if (!this.closed) {
+      this.socket.write(encodeFrame(Opcode.Text, Buffer.from(text, 'utf8')));
+    }
+  }
+
+  /**
+   * Closes the connection cleanly with a close frame
+   */
+  close(code = 1000): void {
+    if (this.closed) return;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    this.socket.write(encodeFrame(Opcode.Close, payload));
+    this.socket.end();
+    this.finish();
+  }
+
+  /**
+   * Drops the connection without a close frame, as a network failure would
+   */
+  terminate(): void {
+    this.socket.destroy();
+    this.finish();
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+    let frame = readFrame(this.buffer);
+    while (frame && !this.closed) {
+      this.buffer = this.buffer.subarray(frame.size);
+      this.handleFrame(frame);
+      frame = readFrame(this.buffer);
+    }
+  }
+
+  private handleFrame(frame: Frame): void {
+    switch (frame.opcode) {
+      case Opcode.Continuation:
+      case Opcode.Text:
+      case Opcode.Binary:
+        this.fragments.push(frame.payload);
+        if (frame.fin) {
+          const text = Buffer.concat(this.fragments).toString('utf8');
+          this.fragments = [];
+          this.messageHandlers.forEach(handler => handler(text));
+        }
+        break;
+      case Opcode.Ping:
+        this.socket.write(encodeFrame(Opcode.Pong, frame.payload));
+        break;
+      case Opcode.Close:
+        this.close(frame.payload.length >= 2 ? frame.payload.readUInt16BE(0) : 1000);
+        break;
+    }
+  }
+
+  private finish(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.closeHandlers.forEach(handler => handler());
+  }
+}
+
+/**
+ * Completes the upgrade handshake for a request that asked for a WebSocket
+ */
+export function acceptWebSocket(request: IncomingMessage, socket: Duplex, head: Buffer): ServerWebSocket {
+  const accept = createHash('sha1')
+    .update(`${request.headers['sec-websocket-key']}${ACCEPT_GUID}`)
+    .digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'));
+
+  return new ServerWebSocket(socket, head);
+}
+
+/**
+ * Answers an upgrade request with an HTTP error instead of switching protocols
+ */
+export function rejectUpgrade(socket: Duplex, status: number, message: string): void {
+  socket.end(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+}
+
+function readFrame(buffer: Buffer): Frame | null {
+  if (buffer.length < 2) return null;
+
+  const fin = (buffer[0] & 0x80) !== 0;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+
+  const maskOffset = offset;
+  if (masked) offset += 4;
+  if (buffer.length < offset + length) return null;
+
+  // Copied, because the mask is removed in place
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) {
+      payload[i] ^= buffer[maskOffset + (i % 4)];
+    }
+  }
+  return { fin, opcode, payload, size: offset + length };
+}
+
+function encodeFrame(opcode: Opcode, payload: Buffer): Buffer {
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.alloc(2);
+    header[1] = payload.length;
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  header[0] = 0x80 | opcode;
+  return Buffer.concat([header, payload]);
+}
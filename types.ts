@@ -3,6 +3,13 @@
  * Used by both SocketSDK and RestSDK to avoid duplication
  */
 
+import type { RetryPolicy } from './core/RetryPolicy';
+import type { XiansError } from './core/errors';
+import type { TokenProvider } from './core/TokenProvider';
+import type { Tracer } from './core/tracing';
+import type { Middleware, MiddlewarePipeline } from './core/middleware';
+import type { TrafficInterceptor } from './core/recording';
+
 /**
  * Message type enum - shared across all SDKs
  */
@@ -52,6 +59,10 @@ export interface BaseMessageRequest {
   workflow: string;
   type: string;
   authorization?: string;
+  /**
+   * W3C trace context of the send. Filled in by SocketSDK when a tracer is configured
+   */
+  traceparent?: string;
 }
 
 /**
@@ -79,11 +90,22 @@ export interface BaseSDKOptions {
   jwtToken?: string;
   
   /**
-   * Function to get JWT token - called for every request when using JWT authentication
+   * Function to get JWT token when using JWT authentication.
+   * Tokens with an `exp` claim are cached until shortly before expiry; others are fetched for every request.
    * If provided, this takes precedence over the static jwtToken
    */
   getJwtToken?: () => Promise<string> | string;
   
+  /**
+   * Shared token provider, e.g. one instance used by several SDKs. Takes precedence over getJwtToken
+   */
+  tokenProvider?: TokenProvider;
+  
+  /**
+   * How long before expiry a cached JWT is refreshed, in milliseconds (default: 60000)
+   */
+  tokenRefreshMargin?: number;
+  
   /**
    * Server URL for API communication
    */
@@ -98,6 +120,40 @@ export interface BaseSDKOptions {
    * Optional namespace/prefix for logging
    */
   namespace?: string;
+  
+  /**
+   * Retry policy for reconnects (Socket, SSE) and retried HTTP calls (REST).
+   * Without it, Socket and SSE reconnect using reconnectDelay and maxReconnectAttempts, and REST does not retry
+   */
+  retryPolicy?: RetryPolicy;
+  
+  /**
+   * Creates spans for sends, converses, history fetches and connections, and passes the
+   * trace to the server as `traceparent`. Takes an OpenTelemetry tracer or any object of the same shape
+   */
+  tracer?: Tracer;
+
+  /**
+   * Middleware run on outgoing requests and incoming agent messages.
+   * Pass one MiddlewarePipeline to several SDKs to share the chain
+   */
+  middleware?: Middleware[] | MiddlewarePipeline;
+
+  /**
+   * Records or replays the SDK's network traffic. Pass a TrafficRecorder to capture a session
+   * and a TrafficReplayer to play it back without a network
+   */
+  traffic?: TrafficInterceptor;
+}
+
+/**
+ * Options accepted by every cancellable SDK operation
+ */
+export interface OperationOptions {
+  /**
+   * Signal that cancels the operation. Aborting rejects it with a XiansAbortError
+   */
+  signal?: AbortSignal;
 }
 
 /**
@@ -163,9 +219,10 @@ export interface BaseEventHandlers {
   onReconnecting?: (reason?: string) => void;
   
   /**
-   * Called when an error occurs
+   * Called when an error occurs. `details` carries the typed error for branching on
+   * `instanceof` or `details.code`
    */
-  onError?: (error: string) => void;
+  onError?: (error: string, details?: XiansError) => void;
 }
 
 /**